@@ -0,0 +1,87 @@
+// Optional access tokens for servers shared by a team. Every token has a
+// label, usually the name of the person it was given to, which is what the
+// server logs, records usage under and signs download links for. Tokens come
+// from API_TOKENS and from API_TOKENS_FILE, which is read again whenever it
+// changes so tokens can be added or revoked without a restart.
+
+const crypto = require('crypto');
+const fs = require('fs');
+
+// Compared as SHA-256 digests, which always have the same length, so the
+// comparison takes the same time however much of a token is right
+const digest = (value) => crypto.createHash('sha256').update(value).digest();
+
+// { label: token } with string values only
+const checkTokens = (tokens, source) => {
+  if (!tokens || typeof tokens !== 'object' || Array.isArray(tokens)
+    || !Object.values(tokens).every(token => typeof token === 'string' && token.length > 0)) {
+    throw new Error(`${source} must map labels to non-empty token strings`);
+  }
+  return tokens;
+};
+
+const createTokenAuth = ({ tokens = {}, file }) => {
+  checkTokens(tokens, 'API_TOKENS');
+  const usage = new Map();
+  let fileTokens = {};
+  let fileVersion;
+
+  // A file that cannot be read or parsed keeps the tokens it had before,
+  // and no tokens at all if it never could be
+  const loadFile = () => {
+    let stats;
+    try {
+      stats = fs.statSync(file);
+    } catch (error) {
+      if (fileVersion !== 'missing') console.error(`⚠️ Access token file ${file} not found, only API_TOKENS are accepted`);
+      fileVersion = 'missing';
+      fileTokens = {};
+      return;
+    }
+    if (fileVersion === stats.mtimeMs) return;
+
+    fileVersion = stats.mtimeMs;
+    try {
+      fileTokens = checkTokens(JSON.parse(fs.readFileSync(file, 'utf8')), file);
+      console.log(`🔑 Loaded ${Object.keys(fileTokens).length} access tokens from ${file}`);
+    } catch (error) {
+      console.error(`⚠️ Could not load access tokens from ${file}:`, error.message);
+    }
+  };
+
+  // Label to token for every token that is currently valid
+  const current = () => {
+    if (file) loadFile();
+    return { ...fileTokens, ...tokens };
+  };
+
+  return {
+    // With a token file the server stays locked even while the file is empty
+    enabled: () => Boolean(file) || Object.keys(tokens).length > 0,
+
+    // The label of a valid token, or null
+    identify(token) {
+      if (!token) return null;
+      const given = digest(token);
+      const match = Object.entries(current()).find(([, expected]) => crypto.timingSafeEqual(digest(expected), given));
+      return match ? match[0] : null;
+    },
+
+    // False once a token has been removed from the configuration
+    isActive: (label) => Object.prototype.hasOwnProperty.call(current(), label),
+
+    // Counts one use of a token. kind is "requests", "downloads" or "files".
+    record(label, kind) {
+      const entry = usage.get(label) || { label, requests: 0, downloads: 0, files: 0 };
+      entry[kind]++;
+      entry.lastUsedAt = new Date().toISOString();
+      usage.set(label, entry);
+    },
+
+    usageOf: (label) => usage.get(label) || { label, requests: 0, downloads: 0, files: 0 },
+  };
+};
+
+module.exports = {
+  createTokenAuth,
+};
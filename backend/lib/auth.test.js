@@ -0,0 +1,154 @@
+const { describe, test, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createTokenAuth } = require('./auth');
+
+describe('createTokenAuth', () => {
+  let dir;
+  let file;
+  let edits;
+
+  // Rewrites the token file with a later modification time each time, as
+  // an edit a moment later would
+  const writeTokens = (tokens) => {
+    fs.writeFileSync(file, typeof tokens === 'string' ? tokens : JSON.stringify(tokens));
+    const mtime = new Date(Date.now() + ++edits * 1000);
+    fs.utimesSync(file, mtime, mtime);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytsaver-auth-'));
+    file = path.join(dir, 'tokens.json');
+    edits = 0;
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('with API_TOKENS', () => {
+    const auth = () => createTokenAuth({ tokens: { ana: 'ana-token', bob: 'bob-token' } });
+
+    test('identifies the label of a token', () => {
+      assert.equal(auth().identify('ana-token'), 'ana');
+      assert.equal(auth().identify('bob-token'), 'bob');
+    });
+
+    test('rejects unknown, partial and missing tokens', () => {
+      assert.equal(auth().identify('eve-token'), null);
+      assert.equal(auth().identify('ana-toke'), null);
+      assert.equal(auth().identify('ana-token '), null);
+      assert.equal(auth().identify(''), null);
+      assert.equal(auth().identify(undefined), null);
+    });
+
+    test('knows which labels are configured', () => {
+      assert.equal(auth().isActive('ana'), true);
+      assert.equal(auth().isActive('eve'), false);
+      assert.equal(auth().isActive('constructor'), false);
+    });
+
+    test('is disabled without tokens', () => {
+      assert.equal(auth().enabled(), true);
+      assert.equal(createTokenAuth({}).enabled(), false);
+    });
+
+    test('refuses tokens that are not strings', () => {
+      assert.throws(() => createTokenAuth({ tokens: { ana: 42 } }), /API_TOKENS must map labels/);
+      assert.throws(() => createTokenAuth({ tokens: ['ana-token'] }), /API_TOKENS must map labels/);
+    });
+  });
+
+  describe('with API_TOKENS_FILE', () => {
+    test('reads tokens from the file', () => {
+      writeTokens({ ana: 'ana-token' });
+      const auth = createTokenAuth({ file });
+
+      assert.equal(auth.enabled(), true);
+      assert.equal(auth.identify('ana-token'), 'ana');
+    });
+
+    test('picks up tokens added to the file', () => {
+      writeTokens({ ana: 'ana-token' });
+      const auth = createTokenAuth({ file });
+      assert.equal(auth.identify('bob-token'), null);
+
+      writeTokens({ ana: 'ana-token', bob: 'bob-token' });
+      assert.equal(auth.identify('bob-token'), 'bob');
+    });
+
+    test('revokes tokens removed from the file', () => {
+      writeTokens({ ana: 'ana-token', bob: 'bob-token' });
+      const auth = createTokenAuth({ file });
+      assert.equal(auth.isActive('bob'), true);
+
+      writeTokens({ ana: 'ana-token' });
+      assert.equal(auth.identify('bob-token'), null);
+      assert.equal(auth.isActive('bob'), false);
+      assert.equal(auth.isActive('ana'), true);
+    });
+
+    test('revokes a token changed in the file', () => {
+      writeTokens({ ana: 'old-token' });
+      const auth = createTokenAuth({ file });
+      assert.equal(auth.identify('old-token'), 'ana');
+
+      writeTokens({ ana: 'new-token' });
+      assert.equal(auth.identify('old-token'), null);
+      assert.equal(auth.identify('new-token'), 'ana');
+    });
+
+    test('keeps the tokens it had while the file is broken', () => {
+      writeTokens({ ana: 'ana-token' });
+      const auth = createTokenAuth({ file });
+      assert.equal(auth.identify('ana-token'), 'ana');
+
+      writeTokens('{ "ana": "ana-token", ');
+      assert.equal(auth.identify('ana-token'), 'ana');
+
+      writeTokens({ ana: 42 });
+      assert.equal(auth.identify('ana-token'), 'ana');
+    });
+
+    test('stays locked while the file is missing', () => {
+      const auth = createTokenAuth({ file });
+
+      assert.equal(auth.enabled(), true);
+      assert.equal(auth.identify('ana-token'), null);
+
+      writeTokens({ ana: 'ana-token' });
+      assert.equal(auth.identify('ana-token'), 'ana');
+
+      fs.rmSync(file);
+      assert.equal(auth.identify('ana-token'), null);
+      assert.equal(auth.isActive('ana'), false);
+    });
+
+    test('lets API_TOKENS win over the file', () => {
+      writeTokens({ ana: 'file-token', bob: 'bob-token' });
+      const auth = createTokenAuth({ tokens: { ana: 'env-token' }, file });
+
+      assert.equal(auth.identify('env-token'), 'ana');
+      assert.equal(auth.identify('file-token'), null);
+      assert.equal(auth.identify('bob-token'), 'bob');
+    });
+  });
+
+  test('records usage per label', () => {
+    const auth = createTokenAuth({ tokens: { ana: 'ana-token' } });
+
+    auth.record('ana', 'requests');
+    auth.record('ana', 'requests');
+    auth.record('ana', 'downloads');
+
+    const { lastUsedAt, ...counts } = auth.usageOf('ana');
+    assert.deepEqual(counts, { label: 'ana', requests: 2, downloads: 1, files: 0 });
+    assert.ok(!Number.isNaN(Date.parse(lastUsedAt)));
+    assert.deepEqual(auth.usageOf('bob'), { label: 'bob', requests: 0, downloads: 0, files: 0 });
+  });
+});
@@ -0,0 +1,103 @@
+// Works out what this server can do: which external programs are installed
+// and which download options they allow. Served by /api/capabilities so the
+// client can hide options that would fail, and checked before a download
+// starts so older clients get a clear error instead of a failed yt-dlp run.
+
+const { shared } = require('./shared');
+
+// Installing or updating yt-dlp or ffmpeg is picked up within this time
+const PROBE_TTL = 300000;
+
+// Runs `probe` (an extractor's probe()) at most once per PROBE_TTL. `latest()`
+// returns the last result without waiting, or null until the first probe has
+// finished.
+const createToolProbe = (probe) => {
+  let pending = null;
+  let probedAt = 0;
+  let latest = null;
+
+  const check = () => {
+    if (!pending || Date.now() - probedAt > PROBE_TTL) {
+      probedAt = Date.now();
+      pending = probe().then((result) => {
+        latest = result;
+        return latest;
+      });
+    }
+    return pending;
+  };
+
+  return { check, latest: () => latest };
+};
+
+// yt-dlp hands merging, conversion, cutting and embedding to ffmpeg.
+// `signedIn` lists the platforms the server has cookies for, and
+// `filenameTemplate` names downloads that do not set a template.
+const buildCapabilities = ({ extractor, ffmpeg }, limits, signedIn, filenameTemplate) => {
+  const hasFfmpeg = ffmpeg.available;
+  const problems = [];
+  if (!extractor.available) {
+    problems.push('yt-dlp is not installed on the server, so nothing can be downloaded');
+  }
+  if (!hasFfmpeg) {
+    problems.push('ffmpeg is not installed on the server: MP3 audio, video above 720p, clips, SRT subtitles and embedded metadata are unavailable');
+  }
+
+  return {
+    apiVersion: shared.API_VERSION,
+    status: problems.length > 0 ? 'degraded' : 'ok',
+    problems,
+    extractor,
+    ffmpeg,
+    platforms: shared.PLATFORMS,
+    signedIn,
+    formats: hasFfmpeg ? shared.DOWNLOAD_FORMATS : shared.DOWNLOAD_FORMATS.filter(format => format !== 'audio'),
+    // Without merging only single-file MP4 streams are left
+    containers: hasFfmpeg ? shared.CONTAINERS : ['mp4'],
+    videoCodecs: shared.VIDEO_CODECS,
+    subtitleFormats: hasFfmpeg ? shared.SUBTITLE_FORMATS : ['vtt'],
+    limits,
+    features: {
+      merge: hasFfmpeg,
+      clips: hasFfmpeg,
+      subtitleConversion: hasFfmpeg,
+      embedSubtitles: hasFfmpeg,
+      metadata: hasFfmpeg,
+      playlists: true
+    },
+    filenameTemplate
+  };
+};
+
+// Returns an error message for a request the server cannot carry out, or null
+const findUnsupportedOption = (request, capabilities) => {
+  const { format, container, startTime, endTime, subtitles, metadata } = request;
+  const { formats, containers, subtitleFormats, features, limits } = capabilities;
+
+  if (!formats.includes(format)) return `Downloading ${format} is not available on this server`;
+  if (format === 'video' && container && !containers.includes(container)) {
+    return `${container.toUpperCase()} output is not available on this server`;
+  }
+  if (subtitles && !subtitleFormats.includes(subtitles.format)) {
+    return subtitles.format === 'embed'
+      ? 'Embedding subtitles is not available on this server'
+      : `${subtitles.format.toUpperCase()} subtitles are not available on this server`;
+  }
+  if ((startTime !== undefined || endTime !== undefined) && !features.clips) {
+    return 'Clips are not available on this server';
+  }
+  if (metadata && (metadata.tags || metadata.coverArt || metadata.chapters) && !features.metadata) {
+    return 'Embedded metadata is not available on this server';
+  }
+  if (limits.maxDurationSeconds && startTime !== undefined && endTime !== undefined
+    && endTime - startTime > limits.maxDurationSeconds) {
+    return `Clips can be at most ${limits.maxDurationSeconds} seconds long`;
+  }
+  return null;
+};
+
+module.exports = {
+  createToolProbe,
+  buildCapabilities,
+  findUnsupportedOption,
+};
@@ -0,0 +1,46 @@
+// SHA-256 checksums of finished downloads, so clients can check that the file
+// they saved is complete. Hashing a multi-gigabyte file takes a while, so
+// results are cached and only reused while the file's size and mtime match.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const cache = new Map();
+
+const versionOf = (stats) => `${stats.size}-${stats.mtimeMs}`;
+
+const hashFile = (filePath) => new Promise((resolve, reject) => {
+  const hash = crypto.createHash('sha256');
+  fs.createReadStream(filePath)
+    .on('data', (chunk) => hash.update(chunk))
+    .on('error', reject)
+    .on('end', () => resolve(hash.digest('hex')));
+});
+
+// Hex SHA-256 of a file, hashing it only if it is new or has changed
+const getChecksum = async (filePath) => {
+  const key = path.resolve(filePath);
+  const stats = await fs.promises.stat(key);
+  const cached = cache.get(key);
+  if (cached && cached.version === versionOf(stats)) return cached.sha256;
+
+  const sha256 = await hashFile(key);
+  cache.set(key, { version: versionOf(stats), sha256 });
+  return sha256;
+};
+
+// Cached checksum for a file the caller has already stat'ed, without hashing
+const getCachedChecksum = (filePath, stats) => {
+  const cached = cache.get(path.resolve(filePath));
+  return cached && cached.version === versionOf(stats) ? cached.sha256 : undefined;
+};
+
+const forgetChecksum = (filePath) => {
+  cache.delete(path.resolve(filePath));
+};
+
+// RFC 9530 header value, e.g. "sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:"
+const toReprDigest = (sha256) => `sha-256=:${Buffer.from(sha256, 'hex').toString('base64')}:`;
+
+module.exports = { getChecksum, getCachedChecksum, forgetChecksum, toReprDigest };
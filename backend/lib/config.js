@@ -0,0 +1,145 @@
+// Server configuration, read once from environment variables. Every setting
+// has a default that works for local development.
+
+const crypto = require('crypto');
+const path = require('path');
+
+// Positive integer from the environment, or the fallback
+const integer = (name, fallback) => {
+  const value = parseInt(process.env[name], 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Space-separated, or a JSON array for arguments that contain spaces:
+// YT_DLP_ARGS='["--cookies", "C:/My Cookies/youtube.txt"]'
+const argumentList = (name) => {
+  const value = (process.env[name] || '').trim();
+  if (!value) return [];
+  if (!value.startsWith('[')) return value.split(/\s+/);
+
+  const args = JSON.parse(value);
+  if (!Array.isArray(args) || !args.every(arg => typeof arg === 'string')) {
+    throw new Error(`${name} must be a JSON array of strings`);
+  }
+  return args;
+};
+
+// Comma-separated label:token pairs, or a JSON object for labels with commas
+// or colons: API_TOKENS='{"Ana María": "…", "Bob": "…"}'
+const tokenList = (name) => {
+  const value = (process.env[name] || '').trim();
+  if (!value) return {};
+  if (value.startsWith('{')) return JSON.parse(value);
+
+  return Object.fromEntries(value.split(',').map((pair) => {
+    const separator = pair.indexOf(':');
+    if (separator < 1 || separator === pair.length - 1) {
+      throw new Error(`${name} must be a list of label:token pairs`);
+    }
+    return [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+  }));
+};
+
+// <PLATFORM>_COOKIES_PATH, e.g. INSTAGRAM_COOKIES_PATH: a cookies.txt file
+// exported from a browser that is signed in to the site
+const cookieFiles = () => Object.fromEntries(Object.entries(process.env)
+  .map(([name, value]) => [/^([A-Z]+)_COOKIES_PATH$/.exec(name), value])
+  .filter(([match, value]) => match && value)
+  .map(([match, value]) => [match[1].toLowerCase(), value]));
+
+// TRUST_PROXY is passed to Express's "trust proxy" setting: a number of
+// proxy hops, or addresses such as "loopback". Needed behind a reverse proxy
+// so clients are told apart by their own address instead of the proxy's.
+const trustProxy = () => {
+  const value = (process.env.TRUST_PROXY || '').trim();
+  if (!value) return false;
+  if (/^\d+$/.test(value)) return Number(value);
+  return value === 'true' ? true : value;
+};
+
+const config = {
+  port: integer('PORT', 3001),
+  trustProxy: trustProxy(),
+
+  // "yt-dlp", or "fake" to serve the recorded fixtures in backend/fixtures
+  extractor: process.env.EXTRACTOR || 'yt-dlp',
+
+  ytDlp: {
+    // A yt-dlp binary, or e.g. "python3" with YT_DLP_ARGS="-m yt_dlp"
+    path: process.env.YT_DLP_PATH || 'yt-dlp',
+    // Passed before the arguments of every call, e.g. "--proxy socks5://127.0.0.1:9050"
+    args: argumentList('YT_DLP_ARGS'),
+    // Passed to yt-dlp as --ffmpeg-location; ffmpeg is looked up on the PATH by default
+    ffmpegPath: process.env.FFMPEG_PATH,
+  },
+
+  // Platform ID to cookies file, passed to yt-dlp as --cookies for that
+  // site's URLs. Needed for content that is only shown to signed-in
+  // accounts, such as Instagram stories.
+  cookies: cookieFiles(),
+
+  fake: {
+    fixturesDir: process.env.FAKE_FIXTURES_DIR || path.join(__dirname, '..', 'fixtures'),
+    // Pause between progress updates of a fake download
+    stepDelay: integer('FAKE_STEP_DELAY_MS', 100),
+  },
+
+  timeouts: {
+    info: integer('INFO_TIMEOUT_MS', 30000),
+    playlist: integer('PLAYLIST_TIMEOUT_MS', 60000),
+    download: integer('DOWNLOAD_TIMEOUT_MS', 300000),
+  },
+
+  // yt-dlp output for /api/video-info, reused when the video is downloaded.
+  // Stream URLs in it expire after a few hours on most sites.
+  infoCache: {
+    ttl: integer('INFO_CACHE_TTL_MS', 600000),
+    maxEntries: integer('INFO_CACHE_SIZE', 500),
+  },
+
+  storage: {
+    // Where downloads are written and served from
+    dir: process.env.STORAGE_PATH || path.join(__dirname, '..', 'downloads'),
+    // Signs download links. Without it a random secret is used, so links
+    // stop working when the server restarts.
+    secret: process.env.DOWNLOAD_SECRET || crypto.randomBytes(32).toString('hex'),
+    // How long finished files, and the links to them, are kept
+    retention: integer('MAX_FILE_AGE', 3600000),
+    sweepInterval: integer('CLEANUP_INTERVAL_MS', 300000),
+    // Unset means no quota
+    maxStorageMb: integer('MAX_STORAGE_MB'),
+    // Names files that are downloaded without a template of their own, see
+    // src/shared/filenameTemplate.mjs. Defaults to "{title} [{id}]".
+    filenameTemplate: process.env.FILENAME_TEMPLATE,
+  },
+
+  // Access tokens by label. Without any, the API is open to every origin
+  // CORS allows; see lib/auth.js.
+  auth: {
+    tokens: tokenList('API_TOKENS'),
+    // JSON object of label to token, read again whenever it changes
+    file: process.env.API_TOKENS_FILE,
+  },
+
+  // Requests per client to the routes that start yt-dlp: video info,
+  // downloads and jobs
+  rateLimit: {
+    max: integer('RATE_LIMIT_MAX', 30),
+    windowMs: integer('RATE_LIMIT_WINDOW_MS', 60000),
+  },
+
+  limits: {
+    maxConcurrentJobs: integer('MAX_CONCURRENT_JOBS', 2),
+    // yt-dlp processes running at once, for lookups and downloads together.
+    // Work above the cap waits in line.
+    maxExtractorProcesses: integer('MAX_EXTRACTOR_PROCESSES', 4),
+    // Requests waiting in line before new ones are turned away with 429
+    maxQueueLength: integer('MAX_QUEUE_LENGTH', 50),
+    maxPlaylistEntries: integer('MAX_PLAYLIST_ENTRIES', 200),
+    // Unset means no limit
+    maxDurationSeconds: integer('MAX_DURATION_SECONDS'),
+    maxFileSizeMb: integer('MAX_FILE_SIZE_MB'),
+  },
+};
+
+module.exports = config;
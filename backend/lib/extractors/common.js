@@ -0,0 +1,92 @@
+// Pieces shared by the extractor implementations.
+
+const { EventEmitter } = require('events');
+const fs = require('fs');
+const path = require('path');
+const { Readable, Transform } = require('stream');
+const { pipeline } = require('stream/promises');
+const { shared } = require('../shared');
+
+// A download in progress. Emits 'progress' with DownloadProgress updates;
+// `done` resolves with a DownloadOutcome or rejects with a DownloadError.
+class ExtractorDownload extends EventEmitter {
+  // `run` receives the function that reports progress. It must not report
+  // synchronously, since listeners are attached after the constructor returns.
+  constructor(run) {
+    super();
+    this.done = run((progress) => this.emit('progress', progress));
+  }
+}
+
+// Names of the finished files a download wrote, skipping .part files
+const listOutputFiles = (outputDir, basename) => fs.readdirSync(outputDir)
+  .filter(file => file.startsWith(basename) && !file.endsWith('.part'));
+
+// Deletes every file a download wrote, including .part and intermediate
+// per-stream files, once it has been cancelled or has failed
+const removeOutputFiles = (outputDir, basename) => {
+  fs.readdirSync(outputDir)
+    .filter(file => file.startsWith(basename))
+    .forEach(file => {
+      try {
+        fs.unlinkSync(path.join(outputDir, file));
+        console.log(`🧹 Removed partial file: ${file}`);
+      } catch (error) {
+        console.error(`Could not remove ${file}:`, error.message);
+      }
+    });
+};
+
+// Name of the file an item of a post is saved as
+const itemFilename = (basename, item) => `${basename}_${item.index}.${item.ext}`;
+
+// Saves an image item of a post as it is served, without re-encoding.
+// Streams it to disk and fails with "limit_exceeded" once it is larger than
+// maxBytes, if set.
+const saveImage = async (item, file, signal, maxBytes) => {
+  let response;
+  try {
+    response = await fetch(item.url, { signal });
+  } catch (error) {
+    if (signal && signal.aborted) throw new shared.DownloadError('cancelled');
+    throw new shared.DownloadError('network', 'Could not download an image of this post', { details: error.message });
+  }
+  if (!response.ok) {
+    throw new shared.DownloadError(response.status === 404 ? 'removed' : 'unknown', undefined, {
+      details: `HTTP ${response.status} for image ${item.index}`
+    });
+  }
+
+  const tooLarge = () => new shared.DownloadError('limit_exceeded', undefined, {
+    details: `Image ${item.index} is larger than ${maxBytes} bytes`
+  });
+  if (maxBytes && Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body.cancel().catch(() => {});
+    throw tooLarge();
+  }
+
+  // Servers do not always send Content-Length, so the bytes are counted too
+  let received = 0;
+  const limit = new Transform({
+    transform(chunk, encoding, callback) {
+      received += chunk.length;
+      callback(maxBytes && received > maxBytes ? tooLarge() : null, chunk);
+    },
+  });
+  try {
+    await pipeline(Readable.fromWeb(response.body), limit, fs.createWriteStream(file));
+  } catch (error) {
+    fs.rmSync(file, { force: true });
+    if (error instanceof shared.DownloadError) throw error;
+    if (signal && signal.aborted) throw new shared.DownloadError('cancelled');
+    throw new shared.DownloadError('network', 'Could not download an image of this post', { details: error.message });
+  }
+};
+
+module.exports = {
+  ExtractorDownload,
+  listOutputFiles,
+  removeOutputFiles,
+  itemFilename,
+  saveImage,
+};
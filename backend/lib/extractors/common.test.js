@@ -0,0 +1,65 @@
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+const { ready } = require('../shared');
+const { saveImage } = require('./common');
+
+const IMAGE = Buffer.alloc(4096, 'jpeg');
+
+describe('saveImage', () => {
+  let server;
+  let baseUrl;
+  let dir;
+
+  before(async () => {
+    await ready;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytsaver-images-'));
+    // /sized sends Content-Length, /chunked does not
+    server = http.createServer((req, res) => {
+      if (req.url === '/missing') {
+        res.writeHead(404).end();
+      } else if (req.url === '/chunked') {
+        res.writeHead(200, { 'Content-Type': 'image/jpeg' });
+        res.write(IMAGE.subarray(0, 2048));
+        res.end(IMAGE.subarray(2048));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'image/jpeg', 'Content-Length': IMAGE.length }).end(IMAGE);
+      }
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const image = (route) => ({ index: 2, url: `${baseUrl}${route}` });
+
+  test('writes the image as it is served', async () => {
+    const file = path.join(dir, 'sized.jpg');
+    await saveImage(image('/sized'), file, undefined, IMAGE.length);
+    assert.deepEqual(fs.readFileSync(file), IMAGE);
+  });
+
+  test('refuses images whose Content-Length is over the limit', async () => {
+    const file = path.join(dir, 'too-large.jpg');
+    await assert.rejects(saveImage(image('/sized'), file, undefined, 1024), { code: 'limit_exceeded' });
+    assert.equal(fs.existsSync(file), false);
+  });
+
+  test('stops images without a Content-Length once they pass the limit', async () => {
+    const file = path.join(dir, 'chunked.jpg');
+    await assert.rejects(saveImage(image('/chunked'), file, undefined, 3000), { code: 'limit_exceeded' });
+    assert.equal(fs.existsSync(file), false);
+  });
+
+  test('reports missing images as removed', async () => {
+    await assert.rejects(saveImage(image('/missing'), path.join(dir, 'missing.jpg')), { code: 'removed' });
+  });
+});
@@ -0,0 +1,195 @@
+// Deterministic stand-in for yt-dlp that serves recorded `yt-dlp -j` / `-J`
+// output from the fixtures directory, so the whole API can be run and tested
+// offline. Fixtures are named after the video or playlist ID. A fixture with
+// a `_fake` object replays a failure instead: { "_fake": { "stderr": "..." } }.
+//
+// Downloads write a small file of deterministic bytes, plus subtitle files for
+// the requested languages, and report progress in fixed steps. Posts with
+// several items write one such file per picked item.
+
+const fs = require('fs');
+const path = require('path');
+const { shared } = require('../shared');
+const { ExtractorDownload, listOutputFiles, removeOutputFiles, itemFilename } = require('./common');
+
+const FILE_SIZE = 256 * 1024;
+const DOWNLOAD_STEPS = 4;
+
+// Same file content for the same video and format on every run
+const fakeContent = (id, format) => {
+  const pattern = Buffer.from(`ytsaver-fake:${id}:${format}\n`);
+  return Buffer.alloc(FILE_SIZE, pattern);
+};
+
+const fakeSubtitle = (language, format) => (format === 'vtt'
+  ? `WEBVTT\n\n00:00:00.000 --> 00:00:05.000\n[${language}] Recorded subtitle\n`
+  : `1\n00:00:00,000 --> 00:00:05,000\n[${language}] Recorded subtitle\n`);
+
+// The format yt-dlp would most likely have picked from the recorded list
+const pickFormat = (data, request) => {
+  const formats = data.formats || [];
+  const audio = formats
+    .filter(f => f.vcodec === 'none')
+    .sort((a, b) => (b.abr || 0) - (a.abr || 0))[0];
+  if (request.format === 'audio') {
+    return audio && { formatId: audio.format_id, formatNote: audio.format_note, ext: 'mp3', acodec: 'mp3' };
+  }
+
+  const maxHeight = shared.presetHeight(request.quality) || Infinity;
+  const video = formats.find(f => f.format_id === request.formatId)
+    || formats
+      .filter(f => f.vcodec && f.vcodec !== 'none' && (f.height || 0) <= maxHeight)
+      .sort((a, b) => (b.height || 0) - (a.height || 0))[0];
+  if (!video) return undefined;
+
+  const merged = video.acodec === 'none' && audio;
+  return {
+    formatId: merged ? `${video.format_id}+${audio.format_id}` : video.format_id,
+    formatNote: video.format_note,
+    ext: request.container || 'mp4',
+    height: video.height || undefined,
+    fps: video.fps || undefined,
+    vcodec: video.vcodec,
+    acodec: merged ? audio.acodec : video.acodec
+  };
+};
+
+class FakeExtractor {
+  constructor({ fixturesDir, stepDelay, limits }) {
+    this.fixturesDir = fixturesDir;
+    this.stepDelay = stepDelay;
+    this.limits = limits;
+  }
+
+  async probe() {
+    return {
+      extractor: { available: true, version: 'fake' },
+      ffmpeg: { available: true, version: 'fake' }
+    };
+  }
+
+  async getInfo(url, { playlist = false, signal } = {}) {
+    await this.wait(signal);
+    const media = shared.parseMediaUrl(url);
+    const data = this.loadFixture(playlist ? media.playlistId || media.id : media.id);
+    return playlist && data.entries
+      ? { ...data, entries: data.entries.slice(0, this.limits.maxPlaylistEntries) }
+      : data;
+  }
+
+  download(spec, { signal } = {}) {
+    return new ExtractorDownload(async (onProgress) => {
+      const { request, url, outputDir, basename, info, items } = spec;
+      const { format, startTime, endTime, subtitles, metadata } = request;
+
+      try {
+        await this.wait(signal);
+        onProgress({ phase: 'extracting', percent: 0 });
+        const media = shared.parseMediaUrl(url);
+        const data = info || this.loadFixture(media.id);
+        if (items) return await this.downloadItems(data, spec, onProgress, signal);
+
+        const chosenFormat = format === 'subtitles' ? undefined : pickFormat(data, request);
+        const isClip = startTime !== undefined && endTime !== undefined;
+        const { maxDurationSeconds, maxFileSizeMb } = this.limits;
+        const recordedSize = chosenFormat && (data.formats || [])
+          .filter(f => chosenFormat.formatId.split('+').includes(f.format_id))
+          .reduce((total, f) => total + (f.filesize || f.filesize_approx || 0), 0);
+        if ((maxDurationSeconds && !isClip && data.duration > maxDurationSeconds)
+          || (maxFileSizeMb && recordedSize > maxFileSizeMb * 1024 * 1024)) {
+          return { files: [], skippedByLimit: true };
+        }
+
+        if (subtitles && subtitles.format !== 'embed') {
+          const available = { ...data.automatic_captions, ...data.subtitles };
+          subtitles.languages
+            .filter(language => available[language])
+            .forEach(language => fs.writeFileSync(
+              path.join(outputDir, `${basename}.${language}.${subtitles.format}`),
+              fakeSubtitle(language, subtitles.format)
+            ));
+        }
+
+        if (format !== 'subtitles') {
+          for (let step = 1; step <= DOWNLOAD_STEPS; step++) {
+            await this.wait(signal);
+            const downloadedBytes = Math.round(FILE_SIZE * step / DOWNLOAD_STEPS);
+            onProgress({
+              phase: 'downloading',
+              percent: (step / DOWNLOAD_STEPS) * 100,
+              downloadedBytes,
+              totalBytes: FILE_SIZE,
+              speed: FILE_SIZE / DOWNLOAD_STEPS / (this.stepDelay / 1000),
+              eta: ((DOWNLOAD_STEPS - step) * this.stepDelay) / 1000
+            });
+          }
+
+          await this.wait(signal);
+          onProgress({ phase: format === 'audio' ? 'converting' : 'merging', percent: 100 });
+          if (metadata && (metadata.tags || metadata.coverArt || metadata.chapters)) {
+            onProgress({ phase: 'post-processing', percent: 100 });
+          }
+          fs.writeFileSync(path.join(outputDir, `${basename}.${chosenFormat ? chosenFormat.ext : 'mp4'}`), fakeContent(media.id, format));
+        }
+
+        return { files: listOutputFiles(outputDir, basename), chosenFormat, skippedByLimit: false };
+      } catch (error) {
+        removeOutputFiles(outputDir, basename);
+        throw error;
+      }
+    });
+  }
+
+  // One file per picked item of a recorded post. Images keep their extension;
+  // videos get the requested container, or MP3 for audio.
+  async downloadItems(data, { request, outputDir, basename, items }, onProgress, signal) {
+    let chosenFormat;
+    for (const [done, item] of items.entries()) {
+      await this.wait(signal);
+      onProgress({ phase: 'downloading', percent: ((done + 1) / items.length) * 100 });
+      let ext = item.ext;
+      if (item.kind === 'video') {
+        const entryFormat = pickFormat(data.entries[item.index - 1], request);
+        chosenFormat = chosenFormat || entryFormat;
+        ext = entryFormat ? entryFormat.ext : (request.format === 'audio' ? 'mp3' : request.container || 'mp4');
+      }
+      fs.writeFileSync(path.join(outputDir, itemFilename(basename, { ...item, ext })), fakeContent(item.id, item.kind));
+    }
+    return { files: listOutputFiles(outputDir, basename), chosenFormat, skippedByLimit: false };
+  }
+
+  // Recorded output for an ID, or the recorded failure as a DownloadError
+  loadFixture(id) {
+    const file = /^[\w@.-]+$/.test(id || '') && path.join(this.fixturesDir, `${id}.json`);
+    if (!file || !fs.existsSync(file)) {
+      throw new shared.DownloadError('removed', undefined, { details: `No fixture for ${id}` });
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (data._fake) {
+      const { stderr, exitCode = 1 } = data._fake;
+      throw new shared.DownloadError(shared.classifyYtDlpError(stderr, exitCode) || 'unknown', undefined, { details: stderr });
+    }
+    return data;
+  }
+
+  // Pause between steps, rejecting once the signal is aborted
+  wait(signal) {
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) return reject(new shared.DownloadError('cancelled'));
+      const timer = setTimeout(() => {
+        if (signal) signal.removeEventListener('abort', abort);
+        resolve();
+      }, this.stepDelay);
+      const abort = () => {
+        clearTimeout(timer);
+        reject(new shared.DownloadError('cancelled'));
+      };
+      if (signal) signal.addEventListener('abort', abort, { once: true });
+    });
+  }
+}
+
+module.exports = {
+  FakeExtractor,
+};
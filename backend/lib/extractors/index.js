@@ -0,0 +1,40 @@
+// The extractor is what actually talks to the video platforms. The server
+// only uses this interface, so yt-dlp can be swapped for the offline fake or
+// another implementation:
+//
+//   probe() -> Promise<{ extractor: ToolStatus, ffmpeg: ToolStatus }>
+//     Installed tool versions, for /api/capabilities.
+//
+//   getInfo(url, { playlist, signal }) -> Promise<object>
+//     yt-dlp's JSON for a video or a post with several items (`-J`), or for a
+//     playlist or channel with `playlist: true` (`-J --flat-playlist`). See
+//     src/shared/ytdlpInfo.mjs.
+//
+//   download({ request, url, outputDir, basename, info, items }, { signal }) -> ExtractorDownload
+//     Downloads a DownloadRequest. Emits 'progress' events; `done` resolves
+//     with { files, chosenFormat, skippedByLimit }, where `files` are the
+//     names in outputDir that start with `basename`. `info` is getInfo's
+//     output for the URL, so the video need not be extracted again. With
+//     `items`, the MediaItems of a post to save, each item is written as
+//     `${basename}_${index}.${ext}` and images are saved as they are.
+//
+// Failures reject with a DownloadError from src/shared/errors.mjs, and
+// aborting the signal rejects with code "cancelled" after cleaning up.
+
+const { YtDlpExtractor } = require('./ytDlp');
+const { FakeExtractor } = require('./fake');
+
+const createExtractor = (config) => {
+  switch (config.extractor) {
+    case 'yt-dlp':
+      return new YtDlpExtractor({ ...config.ytDlp, cookies: config.cookies, timeouts: config.timeouts, limits: config.limits });
+    case 'fake':
+      return new FakeExtractor({ ...config.fake, limits: config.limits });
+    default:
+      throw new Error(`Unknown extractor "${config.extractor}", expected "yt-dlp" or "fake"`);
+  }
+};
+
+module.exports = {
+  createExtractor,
+};
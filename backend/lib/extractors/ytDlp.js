@@ -0,0 +1,294 @@
+// Extractor that runs yt-dlp. Arguments are passed to the configured binary
+// as an array without a shell, so nothing in a URL or a request can end up
+// being run as a command.
+
+const { spawn, execFile } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { PROGRESS_ARGS, createProgressTracker } = require('../progress');
+const { spawnOptions, killProcessTree } = require('../process');
+const { shared } = require('../shared');
+const { ExtractorDownload, listOutputFiles, removeOutputFiles, itemFilename, saveImage } = require('./common');
+
+// Fields of the format yt-dlp actually downloaded. For merged downloads
+// format_id is the combined ID such as "137+140".
+const CHOSEN_FORMAT_TEMPLATE = '%(.{format_id,format_note,ext,width,height,fps,vcodec,acodec})j';
+
+// What yt-dlp prints on stdout when the limit arguments made it skip a video
+const LIMIT_SKIPPED = /larger than max-filesize|does not pass filter/;
+
+// Reads the format details written by --print-to-file, or undefined if
+// yt-dlp did not write them
+const readChosenFormat = (file) => {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8').trim().split('\n').pop());
+    return {
+      formatId: data.format_id,
+      formatNote: data.format_note || undefined,
+      ext: data.ext,
+      width: data.width || undefined,
+      height: data.height || undefined,
+      fps: data.fps || undefined,
+      vcodec: data.vcodec || undefined,
+      acodec: data.acodec || undefined
+    };
+  } catch (error) {
+    console.error('Could not read chosen format:', error.message);
+    return undefined;
+  } finally {
+    fs.rm(file, { force: true }, () => {});
+  }
+};
+
+// Only the requested section is downloaded. Cutting at exact times instead
+// of the nearest keyframes needs a re-encode around the cut points.
+const buildClipArgs = (startTime, endTime) => {
+  if (startTime === undefined && endTime === undefined) return [];
+  const section = `*${startTime || 0}-${endTime === undefined ? 'inf' : endTime}`;
+  return ['--download-sections', section, '--force-keyframes-at-cuts'];
+};
+
+// Manual subtitles are preferred over auto-generated captions in the same
+// language. Separate files are converted to the requested format; embedded
+// subtitles are removed after they have been muxed into the video.
+const buildSubtitleArgs = (subtitles) => {
+  if (!subtitles) return [];
+  const { languages, format } = subtitles;
+  const formatArgs = format === 'embed' ? ['--embed-subs'] : ['--sub-format', `${format}/best`, '--convert-subs', format];
+  return ['--write-subs', '--write-auto-subs', '--sub-langs', languages.join(','), ...formatArgs];
+};
+
+// Tags are written as ID3 frames for MP3 and as MP4 atoms or Matroska tags
+// for video: title, artist (uploader), date, description and the source URL
+// as comment/purl. Thumbnails are converted to JPEG first since ID3 cannot
+// hold WebP images.
+const buildMetadataArgs = (metadata) => {
+  if (!metadata) return [];
+  const args = [];
+  if (metadata.tags) args.push('--embed-metadata');
+  if (metadata.coverArt) args.push('--embed-thumbnail', '--convert-thumbnails', 'jpg');
+  if (metadata.chapters) args.push('--embed-chapters');
+  return args;
+};
+
+// yt-dlp skips videos over the limits instead of failing. Clips with both
+// ends set are checked against the duration limit before the download
+// starts instead, since their length is known and the video's is not.
+const buildLimitArgs = ({ maxFileSizeMb, maxDurationSeconds }, startTime, endTime) => {
+  const args = [];
+  if (maxFileSizeMb) args.push('--max-filesize', `${maxFileSizeMb}M`);
+  if (maxDurationSeconds && (startTime === undefined || endTime === undefined)) {
+    args.push('--match-filter', `!duration | duration <= ${maxDurationSeconds}`);
+  }
+  return args;
+};
+
+class YtDlpExtractor {
+  constructor({ path: binary, args, ffmpegPath, cookies, timeouts, limits }) {
+    this.binary = binary;
+    this.args = args;
+    this.ffmpegPath = ffmpegPath;
+    this.cookies = cookies;
+    this.timeouts = timeouts;
+    this.limits = limits;
+  }
+
+  // Installed yt-dlp and ffmpeg versions
+  async probe() {
+    const version = (file, args, parse) => new Promise((resolve) => {
+      execFile(file, args, { timeout: 15000, windowsHide: true }, (error, stdout) => {
+        resolve(error ? { available: false } : { available: true, version: parse(stdout) || undefined });
+      });
+    });
+
+    const [extractor, ffmpeg] = await Promise.all([
+      version(this.binary, [...this.args, '--version'], stdout => stdout.trim()),
+      version(this.ffmpegPath || 'ffmpeg', ['-version'], stdout => (stdout.match(/^ffmpeg version (\S+)/) || [])[1])
+    ]);
+    return { extractor, ffmpeg };
+  }
+
+  // The signed-in account's cookies for the URL's site, if there are any
+  cookieArgs(url) {
+    const media = shared.parseMediaUrl(url);
+    const file = media && this.cookies[media.platform];
+    return file ? ['--cookies', file] : [];
+  }
+
+  // Output of `yt-dlp -J` for a video or a post with several items, or
+  // `yt-dlp -J --flat-playlist` for a playlist or channel, whose entries are
+  // listed without extracting each video
+  async getInfo(url, { playlist = false, signal } = {}) {
+    const args = [
+      ...this.cookieArgs(url),
+      ...(playlist
+        ? ['-J', '--flat-playlist', '--playlist-end', String(this.limits.maxPlaylistEntries)]
+        : ['-J', '--no-playlist']),
+      '--', url
+    ];
+    const { stdout } = await this.run(args, {
+      timeout: playlist ? this.timeouts.playlist : this.timeouts.info,
+      signal,
+      collectStdout: true
+    });
+    return JSON.parse(stdout);
+  }
+
+  // Downloads `spec.request` into spec.outputDir. Every file it writes starts
+  // with spec.basename. Subtitles-only requests write just the subtitle files.
+  // With spec.items, images are fetched directly and only the video items
+  // are passed to yt-dlp. A single video's spec.info is handed to yt-dlp with
+  // --load-info-json, so it does not extract the video again.
+  download(spec, { signal } = {}) {
+    return new ExtractorDownload(async (onProgress) => {
+      const { request, url, outputDir, basename, info, items } = spec;
+      const { format, startTime, endTime, subtitles, metadata } = request;
+      const formatFile = path.join(os.tmpdir(), `ytsaver_${basename}.format.json`);
+      const infoFile = info && !items && info._type !== 'playlist' ? path.join(os.tmpdir(), `ytsaver_${basename}.info.json`) : undefined;
+      const source = infoFile ? ['--load-info-json', infoFile] : ['--', url];
+      const videoItems = items ? items.filter(item => item.kind === 'video') : [];
+      const output = path.join(outputDir, items ? `${basename}_%(playlist_index)d.%(ext)s` : `${basename}.%(ext)s`);
+      const playlistArgs = items ? ['--playlist-items', videoItems.map(item => item.index).join(',')] : ['--no-playlist'];
+
+      try {
+        await this.saveImages(items, outputDir, basename, onProgress, signal);
+      } catch (error) {
+        removeOutputFiles(outputDir, basename);
+        throw error;
+      }
+      if (items && videoItems.length === 0) {
+        return { files: listOutputFiles(outputDir, basename), skippedByLimit: false };
+      }
+
+      let args;
+      if (format === 'subtitles') {
+        args = [...PROGRESS_ARGS, ...buildSubtitleArgs(subtitles), '--skip-download', '--no-playlist', '-o', output, ...source];
+      } else {
+        // See src/shared/formatSelector.mjs
+        const { selector, mergeFormat } = shared.buildFormatSelector(request);
+        args = [
+          ...PROGRESS_ARGS,
+          '--no-simulate', '--print-to-file', `after_move:${CHOSEN_FORMAT_TEMPLATE}`, formatFile,
+          ...buildClipArgs(startTime, endTime),
+          ...buildSubtitleArgs(subtitles),
+          ...buildMetadataArgs(metadata),
+          ...buildLimitArgs(this.limits, startTime, endTime),
+          '-f', selector,
+          ...(format === 'audio'
+            ? ['--extract-audio', '--audio-format', 'mp3', '--audio-quality', '0']
+            : ['--merge-output-format', mergeFormat]),
+          ...playlistArgs, '-o', output, ...source
+        ];
+      }
+      // Files keep the time they were written instead of the upload time,
+      // since their retention on the server starts then
+      args.unshift(...this.cookieArgs(url), '--no-mtime');
+
+      if (infoFile) {
+        try {
+          await fs.promises.writeFile(infoFile, JSON.stringify(info));
+        } catch (error) {
+          throw new shared.DownloadError('internal', 'Could not save the video information for yt-dlp', { details: error.message });
+        }
+      }
+
+      const tracker = createProgressTracker(onProgress);
+      let skippedByLimit = false;
+      try {
+        await this.run(args, {
+          timeout: this.timeouts.download,
+          signal,
+          onStdout: (chunk) => {
+            tracker.push(chunk);
+            if (LIMIT_SKIPPED.test(chunk.toString())) skippedByLimit = true;
+          }
+        });
+      } catch (error) {
+        removeOutputFiles(outputDir, basename);
+        fs.rm(formatFile, { force: true }, () => {});
+        throw error;
+      } finally {
+        tracker.flush();
+        if (infoFile) fs.rm(infoFile, { force: true }, () => {});
+      }
+
+      return {
+        files: listOutputFiles(outputDir, basename),
+        chosenFormat: format === 'subtitles' ? undefined : readChosenFormat(formatFile),
+        skippedByLimit
+      };
+    });
+  }
+
+  // Saves the image items of a post, reporting each one as a download step
+  async saveImages(items, outputDir, basename, onProgress, signal) {
+    const images = (items || []).filter(item => item.kind === 'image');
+    const { maxFileSizeMb } = this.limits;
+    const maxFileSizeBytes = maxFileSizeMb && maxFileSizeMb * 1024 * 1024;
+    for (const [done, image] of images.entries()) {
+      onProgress({ phase: 'downloading', percent: (done / images.length) * 100 });
+      await saveImage(image, path.join(outputDir, itemFilename(basename, image)), signal, maxFileSizeBytes);
+    }
+  }
+
+  // Runs yt-dlp and resolves with its output. Rejects with a DownloadError
+  // classified from stderr if it fails, times out or the signal is aborted,
+  // in which case the whole process tree is killed. Large stdout such as
+  // playlist JSON is only kept with collectStdout.
+  run(args, { timeout, signal, collectStdout = false, onStdout }) {
+    const fullArgs = [...this.args, ...(this.ffmpegPath ? ['--ffmpeg-location', this.ffmpegPath] : []), ...args];
+    console.log(`Executing: ${this.binary} ${fullArgs.join(' ')}`);
+
+    return new Promise((resolve, reject) => {
+      const fail = (code, message, details) => reject(new shared.DownloadError(code, message, { details }));
+      if (signal && signal.aborted) return fail('cancelled');
+
+      const child = spawn(this.binary, fullArgs, spawnOptions);
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let spawnFailed = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killProcessTree(child);
+      }, timeout);
+      const abort = () => killProcessTree(child);
+      if (signal) signal.addEventListener('abort', abort, { once: true });
+
+      child.stdout.on('data', (chunk) => {
+        if (collectStdout) stdout += chunk.toString();
+        if (onStdout) onStdout(chunk);
+      });
+      child.stderr.on('data', (chunk) => {
+        stderr += chunk.toString();
+      });
+
+      child.on('error', (error) => {
+        spawnFailed = true;
+        clearTimeout(timer);
+        console.error('yt-dlp error:', error.message);
+        fail(shared.classifyYtDlpError(undefined, error.code) || 'unknown', undefined, error.message);
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (signal) signal.removeEventListener('abort', abort);
+
+        if (spawnFailed) return;
+        if (signal && signal.aborted) return fail('cancelled');
+        if (code !== 0) {
+          console.error('yt-dlp error:', stderr);
+          const errorCode = timedOut ? 'timeout' : shared.classifyYtDlpError(stderr, code);
+          return fail(errorCode || 'unknown', errorCode ? undefined : `yt-dlp exited with code ${code}`, stderr);
+        }
+        resolve({ stdout, stderr });
+      });
+    });
+  }
+}
+
+module.exports = {
+  YtDlpExtractor,
+};
@@ -0,0 +1,181 @@
+// In-memory download job store with a small concurrency-limited runner.
+//
+// Job lifecycle: queued -> running -> post-processing -> done | failed | cancelled.
+// Finished jobs become "expired" once their file is cleaned up or the
+// retention window has passed. Queued jobs report their place in line as
+// progress with the "queued" phase, which running jobs also report while
+// they wait for a free extractor process.
+
+const crypto = require('crypto');
+const { createWaitEstimate } = require('./workQueue');
+
+const FINISHED_STATES = ['done', 'failed', 'cancelled', 'expired'];
+const POST_PROCESSING_PHASES = ['merging', 'converting', 'post-processing'];
+
+const stateForPhase = (phase) => {
+  if (phase === 'queued') return 'queued';
+  return POST_PROCESSING_PHASES.includes(phase) ? 'post-processing' : 'running';
+};
+
+const createJobQueue = ({ run, concurrency = 2, maxJobs = 100, maxQueued = 50, retention = 3600000, isResultAvailable = () => true }) => {
+  const jobs = new Map();
+  const pending = [];
+  const controllers = new Map();
+  const listeners = new Map();
+  const estimate = createWaitEstimate(concurrency);
+  let active = 0;
+
+  const update = (job, changes) => {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    (listeners.get(job.id) || []).forEach(listener => listener(job));
+    return job;
+  };
+
+  const refreshExpiry = (job) => {
+    if (job.state !== 'done') return job;
+
+    const age = Date.now() - new Date(job.finishedAt).getTime();
+    if (age > retention || !isResultAvailable(job.result)) {
+      update(job, { state: 'expired' });
+    }
+    return job;
+  };
+
+  // Drop the oldest finished jobs once the store grows past maxJobs
+  const prune = () => {
+    const finished = [...jobs.values()]
+      .filter(job => FINISHED_STATES.includes(job.state))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    while (jobs.size > maxJobs && finished.length) {
+      jobs.delete(finished.shift().id);
+    }
+  };
+
+  // Tells every queued job where it is in line
+  const refreshPending = () => {
+    pending.forEach((job, index) => {
+      update(job, {
+        progress: { phase: 'queued', percent: 0, queuePosition: index + 1, estimatedWaitSeconds: estimate.forPosition(index + 1) }
+      });
+    });
+  };
+
+  const start = async (job) => {
+    active++;
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    const startedAt = new Date().toISOString();
+    update(job, { state: 'running', startedAt, progress: undefined });
+
+    try {
+      const result = await run(job.request, (progress) => {
+        if (!controller.signal.aborted) {
+          update(job, { state: stateForPhase(progress.phase), progress });
+        }
+      }, controller.signal);
+      // A cancel that arrived while the files were being finished wins
+      if (!controller.signal.aborted) {
+        update(job, { state: 'done', result, finishedAt: new Date().toISOString() });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error(`Job ${job.id} failed:`, error.message);
+        update(job, { state: 'failed', error: error.message, errorCode: error.code, finishedAt: new Date().toISOString() });
+      }
+    } finally {
+      controllers.delete(job.id);
+      active--;
+      estimate.record((Date.now() - new Date(startedAt).getTime()) / 1000);
+      next();
+    }
+  };
+
+  const next = () => {
+    while (active < concurrency && pending.length) {
+      start(pending.shift());
+    }
+    refreshPending();
+  };
+
+  return {
+    // owner is the label of the access token that created the job, if any
+    create(request, { owner } = {}) {
+      const now = new Date().toISOString();
+      const job = {
+        id: crypto.randomUUID(),
+        state: 'queued',
+        request,
+        owner,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      jobs.set(job.id, job);
+      pending.push(job);
+      prune();
+      next();
+      return job;
+    },
+
+    get(id) {
+      const job = jobs.get(id);
+      return job ? refreshExpiry(job) : null;
+    },
+
+    // Cancels a job that has not finished yet. Returns null for unknown IDs;
+    // jobs that are already done, failed or expired are returned unchanged.
+    cancel(id) {
+      const job = jobs.get(id);
+      if (!job) return null;
+      if (FINISHED_STATES.includes(job.state)) return job;
+
+      const queuedIndex = pending.indexOf(job);
+      if (queuedIndex !== -1) {
+        pending.splice(queuedIndex, 1);
+        refreshPending();
+      }
+
+      const controller = controllers.get(id);
+      if (controller) controller.abort();
+
+      console.log(`Job ${id} cancelled`);
+      return update(job, { state: 'cancelled', finishedAt: new Date().toISOString() });
+    },
+
+    // Calls listener with the job after every change until the returned
+    // function is called
+    subscribe(id, listener) {
+      if (!listeners.has(id)) listeners.set(id, new Set());
+      listeners.get(id).add(listener);
+
+      return () => {
+        const jobListeners = listeners.get(id);
+        if (!jobListeners) return;
+        jobListeners.delete(listener);
+        if (jobListeners.size === 0) listeners.delete(id);
+      };
+    },
+
+    // True when new jobs should be turned away until the queue has shrunk
+    isFull() {
+      return pending.length >= maxQueued;
+    },
+
+    // Seconds until a job created now could start
+    estimatedWait() {
+      return estimate.forPosition(pending.length + 1);
+    },
+
+    list() {
+      return [...jobs.values()]
+        .map(refreshExpiry)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+  };
+};
+
+module.exports = {
+  FINISHED_STATES,
+  createJobQueue,
+};
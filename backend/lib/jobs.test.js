@@ -0,0 +1,80 @@
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createJobQueue } = require('./jobs');
+
+// A run function whose downloads finish when the test says so
+const createControlledRun = () => {
+  const runs = [];
+  const run = (request, onProgress, signal) => new Promise((resolve, reject) => {
+    runs.push({ request, onProgress, signal, resolve, reject });
+  });
+  return { run, runs };
+};
+
+// Lets the job queue handle a settled run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createJobQueue cancel', () => {
+  test('cancels a running job', async () => {
+    const { run, runs } = createControlledRun();
+    const queue = createJobQueue({ run });
+    const job = queue.create({ url: 'https://youtu.be/dQw4w9WgXcQ' });
+
+    assert.equal(queue.cancel(job.id).state, 'cancelled');
+    assert.equal(runs[0].signal.aborted, true);
+  });
+
+  test('leaves finished jobs as they are', async () => {
+    const { run, runs } = createControlledRun();
+    const queue = createJobQueue({ run });
+    const done = queue.create({ url: 'https://youtu.be/dQw4w9WgXcQ' });
+    const failed = queue.create({ url: 'https://youtu.be/oHg5SJYRHA0' });
+
+    runs[0].resolve({ filename: 'video.mp4' });
+    runs[1].reject(new Error('yt-dlp failed'));
+    await settle();
+
+    assert.equal(queue.cancel(done.id).state, 'done');
+    assert.deepEqual(queue.get(done.id).result, { filename: 'video.mp4' });
+    assert.equal(runs[0].signal.aborted, false);
+    assert.equal(queue.cancel(failed.id).state, 'failed');
+  });
+
+  test('keeps a job cancelled when its run finishes afterwards', async () => {
+    const { run, runs } = createControlledRun();
+    const queue = createJobQueue({ run });
+    const job = queue.create({ url: 'https://youtu.be/dQw4w9WgXcQ' });
+
+    runs[0].onProgress({ phase: 'post-processing', percent: 100 });
+    queue.cancel(job.id);
+    runs[0].resolve({ filename: 'video.mp4' });
+    await settle();
+
+    assert.equal(queue.get(job.id).state, 'cancelled');
+    assert.equal(queue.get(job.id).result, undefined);
+  });
+
+  test('returns null for unknown jobs', () => {
+    const queue = createJobQueue({ run: createControlledRun().run });
+    assert.equal(queue.cancel('missing'), null);
+  });
+});
+
+describe('createJobQueue subscribe', () => {
+  test('reports every change until unsubscribed', async () => {
+    const { run, runs } = createControlledRun();
+    const queue = createJobQueue({ run });
+    const job = queue.create({ url: 'https://youtu.be/dQw4w9WgXcQ' });
+    const states = [];
+    const unsubscribe = queue.subscribe(job.id, changed => states.push(changed.state));
+
+    runs[0].onProgress({ phase: 'downloading', percent: 50 });
+    runs[0].onProgress({ phase: 'merging', percent: 100 });
+    runs[0].resolve({ filename: 'video.mp4' });
+    await settle();
+    unsubscribe();
+    queue.cancel(job.id);
+
+    assert.deepEqual(states, ['running', 'post-processing', 'done']);
+  });
+});
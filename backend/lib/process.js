@@ -0,0 +1,31 @@
+// Helpers for managing yt-dlp child processes
+
+const { spawn } = require('child_process');
+
+// On POSIX the child gets its own process group so the whole tree can be
+// signalled at once. Windows has no process groups; taskkill /T is used instead.
+// Arguments are passed as an array without a shell, so nothing in them is
+// ever interpreted as a command.
+const spawnOptions = { shell: false, windowsHide: true, detached: process.platform !== 'win32' };
+
+// Kills a child and everything it started. yt-dlp starts ffmpeg itself, so
+// killing only the direct child leaves orphans behind.
+const killProcessTree = (child) => {
+  if (!child.pid || child.exitCode !== null || child.signalCode !== null) return;
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    return;
+  }
+
+  try {
+    process.kill(-child.pid, 'SIGTERM');
+  } catch (error) {
+    child.kill('SIGTERM');
+  }
+};
+
+module.exports = {
+  spawnOptions,
+  killProcessTree,
+};
@@ -0,0 +1,121 @@
+// Parses yt-dlp console output into structured progress updates.
+//
+// yt-dlp is asked to print download progress as JSON via --progress-template,
+// everything else (post-processor banners, extractor chatter) is matched by
+// its "[Tag]" prefix to work out which phase the download is in.
+
+const PROGRESS_MARKER = '[ytsaver-progress]';
+
+// Extra yt-dlp arguments that make the progress output machine readable
+const PROGRESS_ARGS = ['--newline', '--progress-template', `download:${PROGRESS_MARKER} %(progress)j`];
+
+const PHASE_BY_TAG = {
+  Merger: 'merging',
+  ExtractAudio: 'converting',
+  VideoConvertor: 'converting',
+  VideoRemuxer: 'converting',
+  FixupM3u8: 'post-processing',
+  FixupM4a: 'post-processing',
+  FixupStretched: 'post-processing',
+  FixupDuplicateMoov: 'post-processing',
+  Metadata: 'post-processing',
+  EmbedThumbnail: 'post-processing',
+  ThumbnailsConvertor: 'post-processing',
+  EmbedSubtitle: 'post-processing',
+  ModifyChapters: 'post-processing',
+};
+
+const toNumber = (value) => (typeof value === 'number' && isFinite(value) ? value : undefined);
+
+const parseProgressJson = (json) => {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return null;
+  }
+
+  const downloadedBytes = toNumber(data.downloaded_bytes);
+  const totalBytes = toNumber(data.total_bytes) || toNumber(data.total_bytes_estimate);
+  let percent = 0;
+  if (data.status === 'finished') {
+    percent = 100;
+  } else if (downloadedBytes !== undefined && totalBytes) {
+    percent = Math.min((downloadedBytes / totalBytes) * 100, 100);
+  }
+
+  return {
+    phase: 'downloading',
+    percent: Math.round(percent * 10) / 10,
+    downloadedBytes,
+    totalBytes,
+    speed: toNumber(data.speed),
+    eta: toNumber(data.eta),
+  };
+};
+
+// Returns a progress update for a single output line, or null if the line
+// carries no progress information
+const parseProgressLine = (line) => {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith(PROGRESS_MARKER)) {
+    return parseProgressJson(trimmed.slice(PROGRESS_MARKER.length).trim());
+  }
+
+  const tagMatch = trimmed.match(/^\[([A-Za-z0-9_:]+)\]/);
+  if (!tagMatch) return null;
+
+  const tag = tagMatch[1];
+  if (PHASE_BY_TAG[tag]) {
+    return { phase: PHASE_BY_TAG[tag], percent: 100 };
+  }
+  if (tag !== 'download' && tag !== 'info') {
+    // Extractor lines look like "[youtube] abc123: Downloading webpage"
+    return { phase: 'extracting', percent: 0 };
+  }
+  return null;
+};
+
+// Buffers raw stdout chunks into lines and reports each progress update.
+// Consecutive updates in the same phase are throttled to one per interval.
+const createProgressTracker = (onProgress, { interval = 250 } = {}) => {
+  let buffer = '';
+  let lastPhase = null;
+  let lastEmit = 0;
+
+  const handleLine = (line) => {
+    const progress = parseProgressLine(line);
+    if (!progress) return;
+
+    const now = Date.now();
+    const phaseChanged = progress.phase !== lastPhase;
+    if (!phaseChanged && progress.percent < 100 && now - lastEmit < interval) return;
+    // Extractor chatter repeats a lot; only the first line of the phase matters
+    if (!phaseChanged && progress.phase === 'extracting') return;
+
+    lastPhase = progress.phase;
+    lastEmit = now;
+    onProgress(progress);
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk.toString();
+      const lines = buffer.split(/\r?\n|\r/);
+      buffer = lines.pop();
+      lines.forEach(handleLine);
+    },
+    flush() {
+      if (buffer) handleLine(buffer);
+      buffer = '';
+    },
+  };
+};
+
+module.exports = {
+  PROGRESS_ARGS,
+  parseProgressLine,
+  createProgressTracker,
+};
@@ -0,0 +1,87 @@
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { parseProgressLine, createProgressTracker } = require('./progress');
+
+// Lines as yt-dlp prints them with PROGRESS_ARGS
+const downloading = '[ytsaver-progress] {"status": "downloading", "downloaded_bytes": 44564480, "total_bytes": 104857600, "tmpfilename": "video.f137.mp4.part", "filename": "video.f137.mp4", "eta": 28, "speed": 2097152.5, "elapsed": 21.3, "ctx_id": null, "_eta_str": "00:28", "_speed_str": "   2.00MiB/s", "_percent_str": " 42.5%"}';
+const estimated = '[ytsaver-progress] {"status": "downloading", "downloaded_bytes": 1024, "total_bytes_estimate": 4096.0, "eta": null, "speed": null, "_eta_str": "Unknown", "_speed_str": "Unknown B/s"}';
+const finished = '[ytsaver-progress] {"status": "finished", "downloaded_bytes": 104857600, "total_bytes": 104857600, "filename": "video.f137.mp4", "elapsed": 50.1}';
+
+// One test per [name, ...args] row, like jest's test.each
+const testEach = (rows, run) => rows.forEach(([name, ...args]) => test(name, () => run(...args)));
+
+describe('parseProgressLine', () => {
+  testEach([
+    ['download progress', downloading, { phase: 'downloading', percent: 42.5, downloadedBytes: 44564480, totalBytes: 104857600, speed: 2097152.5, eta: 28 }],
+    ['estimated sizes and unknown speed', estimated, { phase: 'downloading', percent: 25, downloadedBytes: 1024, totalBytes: 4096, speed: undefined, eta: undefined }],
+    ['a finished download', finished, { phase: 'downloading', percent: 100, downloadedBytes: 104857600, totalBytes: 104857600, speed: undefined, eta: undefined }],
+    ['NA values', '[ytsaver-progress] {"status": "downloading", "downloaded_bytes": "NA", "total_bytes": "NA", "eta": "NA", "speed": "NA"}', { phase: 'downloading', percent: 0, downloadedBytes: undefined, totalBytes: undefined, speed: undefined, eta: undefined }],
+    ['more bytes than expected', '[ytsaver-progress] {"status": "downloading", "downloaded_bytes": 5000, "total_bytes_estimate": 4000}', { phase: 'downloading', percent: 100, downloadedBytes: 5000, totalBytes: 4000, speed: undefined, eta: undefined }],
+    ['a merge', '[Merger] Merging formats into "Rick Astley - Never Gonna Give You Up [dQw4w9WgXcQ].mp4"', { phase: 'merging', percent: 100 }],
+    ['audio extraction', '[ExtractAudio] Destination: Rick Astley - Never Gonna Give You Up [dQw4w9WgXcQ].mp3', { phase: 'converting', percent: 100 }],
+    ['remuxing', '[VideoRemuxer] Remuxing video from webm to mp4; Destination: video.mp4', { phase: 'converting', percent: 100 }],
+    ['embedding metadata', '[Metadata] Adding metadata to "video.mp4"', { phase: 'post-processing', percent: 100 }],
+    ['extractor chatter', '[youtube] dQw4w9WgXcQ: Downloading webpage', { phase: 'extracting', percent: 0 }],
+    ['extractors with a colon in their name', '[youtube:tab] Downloading playlist PLx0sYbCqOb8TBPRdmBHs5Iftvv9TPboYG', { phase: 'extracting', percent: 0 }],
+  ], (line, expected) => {
+    assert.deepEqual(parseProgressLine(line), expected);
+  });
+
+  testEach([
+    ['empty lines', '   '],
+    ['[download] lines', '[download] Destination: video.f137.mp4'],
+    ['the console progress bar', '[download]  42.5% of  100.00MiB at    2.00MiB/s ETA 00:28'],
+    ['[info] lines', '[info] dQw4w9WgXcQ: Downloading 1 format(s): 137+140'],
+    ['warnings', 'WARNING: [youtube] Falling back to generic n function search'],
+    ['errors', 'ERROR: [youtube] dQw4w9WgXcQ: Video unavailable'],
+    ['cut off JSON', '[ytsaver-progress] {"status": "downloading", "downloaded_by'],
+    ['an empty template', '[ytsaver-progress]'],
+  ], (line) => {
+    assert.equal(parseProgressLine(line), null);
+  });
+});
+
+describe('createProgressTracker', () => {
+  const track = (options) => {
+    const updates = [];
+    return { tracker: createProgressTracker(progress => updates.push(progress), options), updates };
+  };
+
+  test('splits chunks into lines however they arrive', () => {
+    const { tracker, updates } = track({ interval: 0 });
+    const output = `[youtube] dQw4w9WgXcQ: Downloading webpage\r\n${downloading}\r${finished}\n[Merger] Merging formats into "video.mp4"`;
+
+    tracker.push(Buffer.from(output.slice(0, 70)));
+    tracker.push(Buffer.from(output.slice(70, 300)));
+    tracker.push(Buffer.from(output.slice(300)));
+    assert.deepEqual(updates.map(update => update.phase), ['extracting', 'downloading', 'downloading']);
+
+    tracker.flush();
+    assert.deepEqual(updates.map(update => [update.phase, update.percent]), [['extracting', 0], ['downloading', 42.5], ['downloading', 100], ['merging', 100]]);
+  });
+
+  test('throttles updates within a phase but not phase changes or completion', () => {
+    const { tracker, updates } = track({ interval: 60000 });
+
+    tracker.push(`${downloading}\n${estimated}\n${downloading}\n${finished}\n[Merger] Merging formats into "video.mp4"\n`);
+
+    assert.deepEqual(updates.map(update => [update.phase, update.percent]), [['downloading', 42.5], ['downloading', 100], ['merging', 100]]);
+  });
+
+  test('reports only the first line of extractor chatter', () => {
+    const { tracker, updates } = track({ interval: 0 });
+
+    tracker.push('[youtube] dQw4w9WgXcQ: Downloading webpage\n[youtube] dQw4w9WgXcQ: Downloading ios player API JSON\n[youtube] dQw4w9WgXcQ: Downloading m3u8 information\n');
+
+    assert.equal(updates.length, 1);
+  });
+
+  test('ignores malformed lines', () => {
+    const { tracker, updates } = track({ interval: 0 });
+
+    tracker.push('[ytsaver-progress] {not json}\nnot a tag\n[download] 100% of 10.00MiB\n');
+    tracker.flush();
+
+    assert.deepEqual(updates, []);
+  });
+});
@@ -0,0 +1,46 @@
+// Per-client request limits. Every client has a bucket of `max` requests
+// that refills evenly over `windowMs`, so short bursts are fine but a client
+// cannot send more than `max` requests per window on average.
+
+const createRateLimiter = ({ max, windowMs, now = Date.now }) => {
+  const buckets = new Map();
+  const refillPerMs = max / windowMs;
+  let prunedAt = now();
+
+  const refill = (bucket, time) => {
+    bucket.tokens = Math.min(max, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+  };
+
+  // Full buckets are the same as no bucket, so clients that have gone quiet
+  // do not take up memory
+  const prune = (time) => {
+    buckets.forEach((bucket, key) => {
+      refill(bucket, time);
+      if (bucket.tokens >= max) buckets.delete(key);
+    });
+    prunedAt = time;
+  };
+
+  // Counts a request from `key`. Returns 0 if it is allowed, otherwise the
+  // seconds until the client may try again.
+  const take = (key) => {
+    const time = now();
+    if (time - prunedAt >= windowMs) prune(time);
+
+    const bucket = buckets.get(key) || { tokens: max, updatedAt: time };
+    refill(bucket, time);
+    buckets.set(key, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+  };
+
+  return { take };
+};
+
+module.exports = {
+  createRateLimiter,
+};
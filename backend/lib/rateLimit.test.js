@@ -0,0 +1,60 @@
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createRateLimiter } = require('./rateLimit');
+
+const createClock = () => {
+  let time = 1000;
+  return { now: () => time, advance: (ms) => { time += ms; } };
+};
+
+describe('createRateLimiter', () => {
+  // 3 requests a minute: one request's worth refills every 20 seconds
+  const limiter = (clock) => createRateLimiter({ max: 3, windowMs: 60000, now: clock.now });
+
+  test('allows bursts up to max and then says when to retry', () => {
+    const clock = createClock();
+    const limit = limiter(clock);
+
+    assert.deepEqual([limit.take('a'), limit.take('a'), limit.take('a')], [0, 0, 0]);
+    assert.equal(limit.take('a'), 20);
+
+    clock.advance(5000);
+    assert.equal(limit.take('a'), 15);
+    clock.advance(14001);
+    assert.equal(limit.take('a'), 1);
+  });
+
+  test('refills evenly over the window', () => {
+    const clock = createClock();
+    const limit = limiter(clock);
+    [1, 2, 3].forEach(() => limit.take('a'));
+
+    clock.advance(20000);
+    assert.equal(limit.take('a'), 0);
+    assert.equal(limit.take('a'), 20);
+
+    // A quiet client gets its whole burst back, but no more
+    clock.advance(600000);
+    assert.deepEqual([limit.take('a'), limit.take('a'), limit.take('a'), limit.take('a')], [0, 0, 0, 20]);
+  });
+
+  test('keeps a separate bucket for every client', () => {
+    const clock = createClock();
+    const limit = limiter(clock);
+    [1, 2, 3].forEach(() => limit.take('203.0.113.7'));
+
+    assert.equal(limit.take('203.0.113.7'), 20);
+    assert.equal(limit.take('198.51.100.4'), 0);
+    assert.equal(limit.take('token:Ana'), 0);
+  });
+
+  test('rounds Retry-After up to whole seconds', () => {
+    const clock = createClock();
+    const limit = createRateLimiter({ max: 1, windowMs: 1500, now: clock.now });
+
+    limit.take('a');
+    assert.equal(limit.take('a'), 2);
+    clock.advance(1400);
+    assert.equal(limit.take('a'), 1);
+  });
+});
@@ -0,0 +1,24 @@
+// Loads the modules shared with the React app. They live in src/shared as
+// ES modules, so CommonJS code has to import() them before the server starts.
+
+const shared = {};
+
+const ready = Promise.all([
+  import('../../src/shared/platforms.mjs'),
+  import('../../src/shared/mediaUrl.mjs'),
+  import('../../src/shared/formatSelector.mjs'),
+  import('../../src/shared/schema.mjs'),
+  import('../../src/shared/api.mjs'),
+  import('../../src/shared/errors.mjs'),
+  import('../../src/shared/ytdlpInfo.mjs'),
+  import('../../src/shared/infoCache.mjs'),
+  import('../../src/shared/filenameTemplate.mjs'),
+]).then((modules) => {
+  modules.forEach(mod => Object.assign(shared, mod));
+  return shared;
+});
+
+module.exports = {
+  shared,
+  ready,
+};
@@ -0,0 +1,42 @@
+// Minimal Server-Sent Events helper for Express responses
+
+const HEARTBEAT_INTERVAL = 15000;
+
+const wantsEventStream = (req) => (req.get('accept') || '').includes('text/event-stream');
+
+const openEventStream = (res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop nginx and similar proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // Comment lines keep idle connections from being dropped by proxies
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    res.end();
+  };
+
+  res.on('close', close);
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close,
+  };
+};
+
+module.exports = {
+  wantsEventStream,
+  openEventStream,
+};
@@ -0,0 +1,121 @@
+// Finished downloads on disk. Files are only served through links signed for
+// one file, an expiry time and, on servers with access tokens, the label of
+// the token that asked for them. Files are removed once they expire, and the
+// oldest are evicted first when the directory grows past its quota.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// Files yt-dlp is still writing
+const PARTIAL_EXTENSIONS = ['.part', '.ytdl'];
+
+const createStorage = ({ dir, secret, retention, maxBytes, onRemove = () => {} }) => {
+  const sign = (filename, expires, user = '') => crypto
+    .createHmac('sha256', secret)
+    .update(`${filename}\n${expires}\n${user}`)
+    .digest('base64url');
+
+  // Files in the directory with their stats, oldest first. Dotfiles such
+  // as .gitkeep are not downloads.
+  const listFiles = () => fs.readdirSync(dir)
+    .filter(file => !file.startsWith('.'))
+    .map((file) => {
+      try {
+        return { file, stats: fs.statSync(path.join(dir, file)) };
+      } catch (error) {
+        return null; // Removed in the meantime
+      }
+    })
+    .filter(entry => entry && entry.stats.isFile())
+    .sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs);
+
+  const remove = (file) => {
+    const filePath = path.join(dir, file);
+    fs.rmSync(filePath, { force: true });
+    onRemove(filePath);
+  };
+
+  // When the first of `files` expires, in milliseconds since the epoch.
+  // Links to them are signed with this time, so none outlives its file.
+  const expiresAt = (files) => Math.floor(Math.min(...files.map(file => fs.statSync(path.join(dir, file)).mtimeMs)) + retention);
+
+  // Path and query of a link to `filename` that works until `expires`. The
+  // link names `user`, the label of the access token it was made for, if any.
+  const linkPath = (filename, expires, user) => {
+    const userQuery = user ? `&user=${encodeURIComponent(user)}` : '';
+    return `/${encodeURIComponent(filename)}?expires=${expires}${userQuery}&signature=${sign(filename, expires, user)}`;
+  };
+
+  // Null for a valid link that has not expired, otherwise "invalid" or
+  // "expired". Whether the link's user may still download is up to the caller.
+  const checkLink = (filename, { expires, user = '', signature } = {}) => {
+    const expected = typeof expires === 'string' && /^\d+$/.test(expires) && typeof user === 'string'
+      ? Buffer.from(sign(filename, expires, user))
+      : null;
+    const given = Buffer.from(typeof signature === 'string' ? signature : '');
+    if (!expected || expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return 'invalid';
+    return Number(expires) <= Date.now() ? 'expired' : null;
+  };
+
+  // Renames the files of a download, whose names start with `from`, to start
+  // with `to` instead. If any of the new names is taken, " (2)", " (3)" and
+  // so on are added to `to`; names are compared ignoring case, as on Windows
+  // and macOS. Returns the prefix the files got.
+  const rename = (files, from, to) => {
+    const taken = new Set(fs.readdirSync(dir)
+      .filter(file => !files.includes(file))
+      .map(file => file.toLowerCase()));
+    const namesFor = (prefix) => files.map(file => prefix + file.slice(from.length));
+    let prefix = to;
+    for (let copy = 2; namesFor(prefix).some(name => taken.has(name.toLowerCase())); copy++) {
+      prefix = `${to} (${copy})`;
+    }
+
+    const names = namesFor(prefix);
+    const done = [];
+    try {
+      files.forEach((file, index) => {
+        fs.renameSync(path.join(dir, file), path.join(dir, names[index]));
+        done.push(index);
+      });
+    } catch (error) {
+      done.forEach(index => fs.renameSync(path.join(dir, names[index]), path.join(dir, files[index])));
+      throw error;
+    }
+    return prefix;
+  };
+
+  // Removes expired files and returns how many there were
+  const sweep = () => {
+    const now = Date.now();
+    const expired = listFiles().filter(({ stats }) => stats.mtimeMs + retention <= now);
+    expired.forEach(({ file }) => remove(file));
+    return expired.length;
+  };
+
+  // Evicts the oldest files until the directory fits its quota again. `keep`
+  // are the files of the download that just finished, which stay even if
+  // they alone are over the quota.
+  const enforceQuota = (keep = []) => {
+    if (!maxBytes) return 0;
+    const files = listFiles();
+    let total = files.reduce((sum, { stats }) => sum + stats.size, 0);
+    let evicted = 0;
+    for (const { file, stats } of files) {
+      if (total <= maxBytes) break;
+      if (keep.includes(file) || PARTIAL_EXTENSIONS.includes(path.extname(file))) continue;
+      remove(file);
+      total -= stats.size;
+      evicted++;
+    }
+    if (evicted > 0) console.log(`🧹 Evicted ${evicted} old downloads to stay within the storage quota`);
+    return evicted;
+  };
+
+  return { expiresAt, linkPath, checkLink, rename, remove, sweep, enforceQuota };
+};
+
+module.exports = {
+  createStorage,
+};
@@ -0,0 +1,153 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createStorage } = require('./storage');
+
+const HOUR = 3600000;
+
+describe('createStorage', () => {
+  let dir;
+  let removed;
+
+  // Writes `size` bytes to `file`, last modified `age` milliseconds ago
+  const write = (file, { size = 10, age = 0 } = {}) => {
+    const filePath = path.join(dir, file);
+    fs.writeFileSync(filePath, Buffer.alloc(size));
+    const mtime = new Date(Date.now() - age);
+    fs.utimesSync(filePath, mtime, mtime);
+  };
+
+  const files = () => fs.readdirSync(dir).sort();
+
+  const storage = (options = {}) => createStorage({
+    dir,
+    secret: 'test-secret',
+    retention: HOUR,
+    onRemove: filePath => removed.push(path.basename(filePath)),
+    ...options,
+  });
+
+  // The query of a link as Express parses it
+  const query = (linkPath) => Object.fromEntries(new URL(linkPath, 'http://localhost').searchParams);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytsaver-storage-'));
+    removed = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('links', () => {
+    const expires = () => Date.now() + HOUR;
+
+    test('accept the file, expiry and user they were signed for', () => {
+      const link = storage().linkPath('video.mp4', expires(), 'Ana María');
+
+      assert.match(link, /^\/video\.mp4\?expires=\d+&user=Ana%20Mar%C3%ADa&signature=[\w-]+$/);
+      assert.equal(storage().checkLink('video.mp4', query(link)), null);
+    });
+
+    test('refuse other files, including paths out of the directory', () => {
+      const link = storage().linkPath('video.mp4', expires());
+
+      assert.equal(storage().checkLink('other.mp4', query(link)), 'invalid');
+      assert.equal(storage().checkLink('../video.mp4', query(link)), 'invalid');
+      assert.equal(storage().checkLink('../../server.js', query(link)), 'invalid');
+    });
+
+    test('refuse tampered expiry times, users and signatures', () => {
+      const link = query(storage().linkPath('video.mp4', expires(), 'Ana'));
+
+      assert.equal(storage().checkLink('video.mp4', { ...link, expires: String(Number(link.expires) + 1) }), 'invalid');
+      assert.equal(storage().checkLink('video.mp4', { ...link, user: 'Bob' }), 'invalid');
+      assert.equal(storage().checkLink('video.mp4', { ...link, user: undefined }), 'invalid');
+      assert.equal(storage().checkLink('video.mp4', { ...link, signature: link.signature.slice(1) }), 'invalid');
+      assert.equal(storage().checkLink('video.mp4', { ...link, signature: ['a', 'b'] }), 'invalid');
+      assert.equal(storage().checkLink('video.mp4', {}), 'invalid');
+    });
+
+    test('refuse links signed with another secret', () => {
+      const link = storage({ secret: 'old-secret' }).linkPath('video.mp4', expires());
+      assert.equal(storage().checkLink('video.mp4', query(link)), 'invalid');
+    });
+
+    test('expire at their expiry time', () => {
+      const link = storage().linkPath('video.mp4', Date.now() - 1);
+      assert.equal(storage().checkLink('video.mp4', query(link)), 'expired');
+    });
+  });
+
+  test('expiresAt is when the first of the files expires', () => {
+    write('video.mp4', { age: 10000 });
+    write('video.en.srt', { age: 20000 });
+    const oldest = fs.statSync(path.join(dir, 'video.en.srt')).mtimeMs;
+
+    assert.equal(storage().expiresAt(['video.mp4', 'video.en.srt']), Math.floor(oldest + HOUR));
+  });
+
+  describe('rename', () => {
+    test('renames every file of a download', () => {
+      write('tmp-1.mp4');
+      write('tmp-1.en.srt');
+
+      assert.equal(storage().rename(['tmp-1.mp4', 'tmp-1.en.srt'], 'tmp-1', 'Song'), 'Song');
+      assert.deepEqual(files(), ['Song.en.srt', 'Song.mp4']);
+    });
+
+    test('numbers names that are taken, ignoring case', () => {
+      write('song.mp4');
+      write('Song (2).en.srt');
+      write('tmp-1.mp4');
+      write('tmp-1.en.srt');
+
+      assert.equal(storage().rename(['tmp-1.mp4', 'tmp-1.en.srt'], 'tmp-1', 'Song'), 'Song (3)');
+      assert.deepEqual(files(), ['Song (2).en.srt', 'Song (3).en.srt', 'Song (3).mp4', 'song.mp4']);
+    });
+
+    test('puts back the files it renamed if one fails', () => {
+      write('tmp-1.mp4');
+
+      assert.throws(() => storage().rename(['tmp-1.mp4', 'tmp-1.en.srt'], 'tmp-1', 'Song'), { code: 'ENOENT' });
+      assert.deepEqual(files(), ['tmp-1.mp4']);
+    });
+  });
+
+  test('sweep removes expired files only', () => {
+    write('.gitkeep', { age: 2 * HOUR });
+    write('old.mp4', { age: 2 * HOUR });
+    write('new.mp4', { age: 1000 });
+
+    assert.equal(storage().sweep(), 1);
+    assert.deepEqual(files(), ['.gitkeep', 'new.mp4']);
+    assert.deepEqual(removed, ['old.mp4']);
+  });
+
+  describe('enforceQuota', () => {
+    test('evicts the oldest files until the directory fits', () => {
+      write('oldest.mp4', { size: 40, age: 3000 });
+      write('older.mp4', { size: 40, age: 2000 });
+      write('new.mp4', { size: 40, age: 1000 });
+
+      assert.equal(storage({ maxBytes: 50 }).enforceQuota(['new.mp4']), 2);
+      assert.deepEqual(files(), ['new.mp4']);
+    });
+
+    test('keeps the new download and files still being written', () => {
+      write('video.mp4.part', { size: 40, age: 3000 });
+      write('old.mp4', { size: 40, age: 2000 });
+      write('new.mp4', { size: 100, age: 1000 });
+
+      assert.equal(storage({ maxBytes: 50 }).enforceQuota(['new.mp4']), 1);
+      assert.deepEqual(files(), ['new.mp4', 'video.mp4.part']);
+    });
+
+    test('does nothing without a quota', () => {
+      write('video.mp4', { size: 1000 });
+      assert.equal(storage().enforceQuota(), 0);
+    });
+  });
+});
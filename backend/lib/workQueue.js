@@ -0,0 +1,90 @@
+// FIFO queue in front of the extractor, so that at most `concurrency` yt-dlp
+// processes run at once however many lookups and downloads arrive. Work
+// above the cap waits its turn and is told its place in line.
+
+const { shared } = require('./shared');
+
+// Guesses how long the next tasks will take from how long recent ones took.
+// Resolves with undefined until a task has finished.
+const createWaitEstimate = (concurrency) => {
+  let averageSeconds;
+
+  return {
+    record(seconds) {
+      averageSeconds = averageSeconds === undefined ? seconds : averageSeconds * 0.8 + seconds * 0.2;
+    },
+    // Seconds until the task at a 1-based position in line can start
+    forPosition(position) {
+      return averageSeconds === undefined ? undefined : Math.ceil(Math.ceil(position / concurrency) * averageSeconds);
+    },
+  };
+};
+
+const createWorkQueue = ({ concurrency, maxQueued }) => {
+  const waiting = [];
+  const estimate = createWaitEstimate(concurrency);
+  let active = 0;
+
+  const notify = () => {
+    waiting.forEach((entry, index) => {
+      if (entry.onWait) entry.onWait({ queuePosition: index + 1, estimatedWaitSeconds: estimate.forPosition(index + 1) });
+    });
+  };
+
+  const next = () => {
+    if (active >= concurrency || waiting.length === 0) return;
+    while (active < concurrency && waiting.length) {
+      active++;
+      waiting.shift().start();
+    }
+    notify();
+  };
+
+  // Resolves with the result of `task` once a slot is free. While it waits,
+  // onWait({ queuePosition, estimatedWaitSeconds }) is called whenever its
+  // place in line changes. Aborting the signal drops it from the queue.
+  const run = (task, { signal, onWait } = {}) => new Promise((resolve, reject) => {
+    if (signal && signal.aborted) return reject(new shared.DownloadError('cancelled'));
+
+    const abort = () => {
+      const index = waiting.indexOf(entry);
+      if (index === -1) return;
+      waiting.splice(index, 1);
+      notify();
+      reject(new shared.DownloadError('cancelled'));
+    };
+    const entry = {
+      onWait,
+      start: () => {
+        if (signal) signal.removeEventListener('abort', abort);
+        const startedAt = Date.now();
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .then(() => {
+            active--;
+            estimate.record((Date.now() - startedAt) / 1000);
+            next();
+          });
+      },
+    };
+
+    if (signal) signal.addEventListener('abort', abort, { once: true });
+    waiting.push(entry);
+    if (active < concurrency) next();
+    else notify();
+  });
+
+  return {
+    run,
+    // True when new work should be turned away until the queue has shrunk
+    isFull: () => active >= concurrency && waiting.length >= maxQueued,
+    // Seconds until work queued now could start
+    estimatedWait: () => estimate.forPosition(waiting.length + 1),
+  };
+};
+
+module.exports = {
+  createWaitEstimate,
+  createWorkQueue,
+};
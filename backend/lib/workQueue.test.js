@@ -0,0 +1,127 @@
+const { describe, test, before } = require('node:test');
+const assert = require('node:assert/strict');
+const { ready } = require('./shared');
+const { createWorkQueue } = require('./workQueue');
+
+// A task that finishes when the test says so, recording when it started
+const createTask = (name, started) => {
+  let finish;
+  const done = new Promise((resolve) => { finish = resolve; });
+  return {
+    run: () => {
+      started.push(name);
+      return done;
+    },
+    finish: () => finish(name),
+  };
+};
+
+// Lets the queue react to settled tasks
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createWorkQueue', () => {
+  before(() => ready);
+
+  test('runs at most `concurrency` tasks at once, first come first served', async () => {
+    const queue = createWorkQueue({ concurrency: 2, maxQueued: 10 });
+    const started = [];
+    const tasks = ['a', 'b', 'c', 'd'].map(name => createTask(name, started));
+    const results = tasks.map(task => queue.run(task.run));
+
+    await settle();
+    assert.deepEqual(started, ['a', 'b']);
+
+    tasks[1].finish();
+    await settle();
+    assert.deepEqual(started, ['a', 'b', 'c']);
+
+    tasks[0].finish();
+    tasks[2].finish();
+    tasks[3].finish();
+    assert.deepEqual(await Promise.all(results), ['a', 'b', 'c', 'd']);
+  });
+
+  test('tells waiting tasks their place in line as it changes', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 10 });
+    const started = [];
+    const tasks = ['a', 'b', 'c'].map(name => createTask(name, started));
+    const positions = { b: [], c: [] };
+
+    queue.run(tasks[0].run);
+    queue.run(tasks[1].run, { onWait: ({ queuePosition }) => positions.b.push(queuePosition) });
+    queue.run(tasks[2].run, { onWait: ({ queuePosition }) => positions.c.push(queuePosition) });
+    await settle();
+    assert.deepEqual(positions, { b: [1, 1], c: [2] });
+
+    tasks[0].finish();
+    await settle();
+    assert.deepEqual(started, ['a', 'b']);
+    assert.deepEqual(positions, { b: [1, 1], c: [2, 1] });
+  });
+
+  test('estimates the wait once a task has finished', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 10 });
+    const task = createTask('a', []);
+    const waits = [];
+
+    queue.run(task.run);
+    queue.run(() => 'b', { onWait: ({ estimatedWaitSeconds }) => waits.push(estimatedWaitSeconds) });
+    assert.equal(queue.estimatedWait(), undefined);
+
+    task.finish();
+    await settle();
+    assert.equal(waits[0], undefined);
+    assert.equal(typeof queue.estimatedWait(), 'number');
+  });
+
+  test('drops tasks aborted while they wait and moves the others up', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 10 });
+    const started = [];
+    const tasks = ['a', 'b', 'c'].map(name => createTask(name, started));
+    const controller = new AbortController();
+    const positions = [];
+
+    queue.run(tasks[0].run);
+    const aborted = queue.run(tasks[1].run, { signal: controller.signal });
+    const last = queue.run(tasks[2].run, { onWait: ({ queuePosition }) => positions.push(queuePosition) });
+
+    controller.abort();
+    await assert.rejects(aborted, { code: 'cancelled' });
+    assert.deepEqual(positions, [2, 1]);
+
+    tasks[0].finish();
+    tasks[2].finish();
+    assert.equal(await last, 'c');
+    assert.deepEqual(started, ['a', 'c']);
+  });
+
+  test('rejects work whose signal is already aborted', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 10 });
+    const started = [];
+
+    await assert.rejects(queue.run(createTask('a', started).run, { signal: AbortSignal.abort() }), { code: 'cancelled' });
+    assert.deepEqual(started, []);
+  });
+
+  test('frees the slot of a failed task', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 10 });
+
+    await assert.rejects(queue.run(() => { throw new Error('yt-dlp failed'); }), /yt-dlp failed/);
+    assert.equal(await queue.run(() => 'next'), 'next');
+  });
+
+  test('is full once every slot is busy and maxQueued tasks wait', async () => {
+    const queue = createWorkQueue({ concurrency: 1, maxQueued: 2 });
+    const tasks = ['a', 'b', 'c'].map(name => createTask(name, []));
+
+    queue.run(tasks[0].run);
+    queue.run(tasks[1].run);
+    assert.equal(queue.isFull(), false);
+    queue.run(tasks[2].run);
+    assert.equal(queue.isFull(), true);
+
+    tasks[0].finish();
+    await settle();
+    assert.equal(queue.isFull(), false);
+  });
+});
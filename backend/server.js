@@ -1,310 +1,844 @@
 const express = require('express');
 const cors = require('cors');
-const { exec, spawn } = require('child_process');
 const path = require('path');
 const fs = require('fs');
+const config = require('./lib/config');
+const { wantsEventStream, openEventStream } = require('./lib/sse');
+const { FINISHED_STATES, createJobQueue } = require('./lib/jobs');
+const { createExtractor } = require('./lib/extractors');
+const { shared, ready: sharedReady } = require('./lib/shared');
+const { getChecksum, getCachedChecksum, forgetChecksum, toReprDigest } = require('./lib/checksum');
+const { createToolProbe, buildCapabilities, findUnsupportedOption } = require('./lib/capabilities');
+const { createStorage } = require('./lib/storage');
+const { createRateLimiter } = require('./lib/rateLimit');
+const { createWorkQueue } = require('./lib/workQueue');
+const { createTokenAuth } = require('./lib/auth');
 
 const app = express();
-const PORT = process.env.PORT || 3001;
+const PORT = config.port;
+app.set('trust proxy', config.trustProxy);
 
 // Middleware
 app.use(cors({
   origin: ['http://localhost:3000', 'https://laudarisd.github.io'],
-  credentials: true
+  credentials: true,
+  // Needed by the client to resume interrupted file transfers and verify them
+  exposedHeaders: ['Accept-Ranges', 'Content-Disposition', 'Content-Range', 'ETag', 'Last-Modified', 'Repr-Digest', 'Retry-After', 'X-API-Version']
 }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Serve static files from downloads directory
-app.use('/downloads', express.static(path.join(__dirname, 'downloads')));
+// Lets clients running from an old PWA cache notice that the API has changed
+app.use('/api', (req, res, next) => {
+  res.set(shared.API_VERSION_HEADER, String(shared.API_VERSION));
+  next();
+});
+
+const auth = createTokenAuth(config.auth);
+
+// With access tokens configured, every API request needs
+// "Authorization: Bearer <token>". The token's label is kept as
+// req.tokenLabel for usage, rate limits and job ownership.
+const authenticate = (req, res, next) => {
+  if (!auth.enabled()) return next();
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+  const label = scheme === 'Bearer' ? auth.identify(token) : null;
+  if (!label) {
+    res.set('WWW-Authenticate', 'Bearer');
+    return sendError(res, 401, 'unauthorized', token ? 'This access token is not valid or has been revoked' : undefined);
+  }
+  req.tokenLabel = label;
+  auth.record(label, 'requests');
+  next();
+};
+app.use('/api', authenticate);
 
 // Ensure downloads directory exists
-const downloadsDir = path.join(__dirname, 'downloads');
+const downloadsDir = config.storage.dir;
 if (!fs.existsSync(downloadsDir)) {
   fs.mkdirSync(downloadsDir, { recursive: true });
 }
 
+const storage = createStorage({
+  dir: downloadsDir,
+  secret: config.storage.secret,
+  retention: config.storage.retention,
+  maxBytes: config.storage.maxStorageMb && config.storage.maxStorageMb * 1024 * 1024,
+  onRemove: forgetChecksum
+});
+
+// Files are only served through the signed links in download results, see
+// lib/storage.js. Browsers open these links without an Authorization header,
+// so with access tokens the link names the token's label instead, and stops
+// working once that token is revoked.
+const checkDownloadLink = (req, res, next) => {
+  let filename;
+  try {
+    filename = decodeURIComponent(req.path.slice(1));
+  } catch (error) {
+    return sendError(res, 400, 'invalid_request', 'Invalid download link');
+  }
+  const problem = storage.checkLink(filename, req.query);
+  if (problem === 'expired') return sendError(res, 410, 'expired', 'This download link has expired');
+  if (problem) return sendError(res, 403, 'invalid_request', 'Invalid download link');
+  if (auth.enabled()) {
+    if (!req.query.user || !auth.isActive(req.query.user)) {
+      return sendError(res, 401, 'unauthorized', 'The access token this link was made for has been revoked');
+    }
+    auth.record(req.query.user, 'files');
+  }
+  next();
+};
+
+// Content-Disposition for saving a file under its own name (RFC 6266), with
+// an ASCII fallback for clients that do not read filename*
+const contentDisposition = (filename) => {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\%]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+// Serve static files from downloads directory. Range requests let clients
+// resume interrupted transfers; If-Range with the ETag or Last-Modified makes
+// sure they resume the same file. Browsers ignore the download attribute of
+// links to other origins, so the name comes from Content-Disposition.
+app.use('/downloads', checkDownloadLink, express.static(downloadsDir, {
+  acceptRanges: true,
+  etag: true,
+  lastModified: true,
+  setHeaders: (res, filePath, stats) => {
+    res.setHeader('Content-Disposition', contentDisposition(path.basename(filePath)));
+    const sha256 = getCachedChecksum(filePath, stats);
+    if (sha256) res.setHeader('Repr-Digest', toReprDigest(sha256));
+  }
+}));
+
 // Utility functions
-const isValidUrl = (url) => {
-  const patterns = [
-    // YouTube patterns
-    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-    /(?:https?:\/\/)?youtu\.be\/([a-zA-Z0-9_-]{11})/,
-    // Instagram patterns
-    /(?:https?:\/\/)?(?:www\.)?instagram\.com\/(p|reel|tv)\/([a-zA-Z0-9_-]+)/,
-  ];
-  return patterns.some(pattern => pattern.test(url));
+// URL recognition is shared with the client, see src/shared/mediaUrl.mjs
+const isValidUrl = (url) => shared.parseMediaUrl(url) !== null;
+
+// Playlists and channels are listed through /api/video-info and then
+// downloaded entry by entry
+const isDownloadableUrl = (url) => {
+  const parsed = shared.parseMediaUrl(url);
+  return parsed !== null && parsed.kind !== 'playlist' && parsed.kind !== 'channel';
 };
 
-const extractVideoId = (url) => {
-  // YouTube ID extraction
-  const ytPatterns = [
-    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-    /(?:https?:\/\/)?youtu\.be\/([a-zA-Z0-9_-]{11})/,
-  ];
-  
-  for (const pattern of ytPatterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
+// yt-dlp format IDs are short tokens like "137", "hls-720p" or "dash-1"; anything
+// else is rejected because the ID ends up on the command line
+const isValidFormatId = (formatId) => formatId === undefined || /^[a-zA-Z0-9_.-]{1,64}$/.test(formatId);
+
+const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+const MAX_SUBTITLE_LANGUAGES = 20;
+// Language codes such as "en", "pt-BR", "zh-Hans" or "en-orig"
+const SUBTITLE_LANGUAGE = /^[a-zA-Z0-9_-]{1,20}$/;
+
+const validateSubtitleOptions = (format, container, subtitles) => {
+  if (!subtitles) {
+    return format === 'subtitles' ? 'Subtitles-only downloads need at least one subtitle language' : null;
+  }
+
+  const { languages, format: subtitleFormat } = subtitles;
+  if (languages.length === 0 || languages.length > MAX_SUBTITLE_LANGUAGES
+    || !languages.every(language => SUBTITLE_LANGUAGE.test(language))) {
+    return `Subtitles need between 1 and ${MAX_SUBTITLE_LANGUAGES} valid language codes`;
+  }
+  if (subtitleFormat === 'embed' && (format === 'audio' || format === 'subtitles' || container === 'webm')) {
+    return 'Subtitles can only be embedded in MP4 or MKV video downloads';
   }
-  
-  // Instagram ID extraction
-  const igPattern = /(?:https?:\/\/)?(?:www\.)?instagram\.com\/(p|reel|tv)\/([a-zA-Z0-9_-]+)/;
-  const igMatch = url.match(igPattern);
-  if (igMatch) return igMatch[2];
-  
   return null;
 };
 
-const checkYtDlp = () => {
-  return new Promise((resolve) => {
-    exec('C:/Users/sudip/AppData/Local/Microsoft/WindowsApps/python3.12.exe -m yt_dlp --version', (error, stdout, stderr) => {
-      if (error) {
-        console.log('yt-dlp not found. Please install it:');
-        console.log('1. Download from: https://github.com/yt-dlp/yt-dlp/releases');
-        console.log('2. Or install via pip: pip install yt-dlp');
-        console.log('3. Or install via conda: conda install -c conda-forge yt-dlp');
-        resolve(false);
-      } else {
-        console.log(`✅ yt-dlp version: ${stdout.trim()}`);
-        resolve(true);
-      }
-    });
+const validateMetadataOptions = (container, metadata) => {
+  // yt-dlp can write cover art into MP3, MP4 and MKV files but not WebM
+  if (metadata && metadata.coverArt && container === 'webm') {
+    return 'Cover art cannot be embedded in WebM files';
+  }
+  return null;
+};
+
+const isValidSeconds = (value) => value === undefined || value >= 0;
+
+const MAX_ITEMS = 100;
+
+// Quirks of the site the URL belongs to, see src/shared/platforms.mjs
+const validatePlatformOptions = (url, format, items) => {
+  const media = shared.parseMediaUrl(url);
+  if (!media) return null;
+  const platform = shared.PLATFORM_REGISTRY[media.platform];
+  if (platform.quirks.audioOnly && format !== 'audio') return `${platform.name} only has audio`;
+  if (items) {
+    if (!shared.isMultiItem(media)) return 'Only posts with several images or videos have items to pick';
+    if (format === 'subtitles') return 'Items cannot be picked for subtitles-only downloads';
+    if (items.length === 0 || items.length > MAX_ITEMS || !items.every(index => Number.isInteger(index) && index >= 1)) {
+      return `Items need between 1 and ${MAX_ITEMS} positions, starting at 1`;
+    }
+  }
+  return null;
+};
+
+const signedInPlatforms = () => shared.PLATFORMS.filter(platform => config.cookies[platform]);
+
+// Content such as Instagram stories is only shown to signed-in accounts, so
+// it cannot be fetched without that site's cookies
+const signInError = (media) => {
+  if (!shared.needsSignIn(media) || signedInPlatforms().includes(media.platform)) return null;
+  const badge = shared.findBadge(media);
+  const { name } = shared.PLATFORM_REGISTRY[media.platform];
+  return `${badge ? badge.name : name} need a signed-in account, and this server has no ${name} cookies`;
+};
+
+// Returns an error message for unsupported combinations of download options,
+// or null. Types and allowed values are already checked by downloadRequestSchema.
+const validateDownloadOptions = ({ url, format, formatId, container, startTime, endTime, subtitles, metadata, items, filenameTemplate, playlistIndex }) => {
+  if (!isValidFormatId(formatId)) return 'Invalid format ID';
+  if (filenameTemplate !== undefined) {
+    const templateError = shared.checkFilenameTemplate(filenameTemplate);
+    if (templateError) return templateError;
+  }
+  if (playlistIndex !== undefined && !(Number.isInteger(playlistIndex) && playlistIndex >= 1)) {
+    return 'Playlist positions start at 1';
+  }
+  const platformError = validatePlatformOptions(url, format, items);
+  if (platformError) return platformError;
+  if (!isValidSeconds(startTime) || !isValidSeconds(endTime)) {
+    return 'Clip start and end times must be positive numbers of seconds';
+  }
+  if (startTime !== undefined && endTime !== undefined && endTime <= startTime) {
+    return 'Clip end time must be after the start time';
+  }
+  return validateSubtitleOptions(format, container, subtitles)
+    || validateMetadataOptions(format === 'audio' ? undefined : container, metadata);
+};
+
+const extractor = createExtractor(config);
+const tools = createToolProbe(() => extractor.probe());
+
+// Every yt-dlp run for lookups and downloads waits here for a free process,
+// see lib/workQueue.js
+const workQueue = createWorkQueue({
+  concurrency: config.limits.maxExtractorProcesses,
+  maxQueued: config.limits.maxQueueLength
+});
+const rateLimiter = createRateLimiter(config.rateLimit);
+
+const limits = {
+  maxDurationSeconds: config.limits.maxDurationSeconds,
+  maxFileSizeBytes: config.limits.maxFileSizeMb && config.limits.maxFileSizeMb * 1024 * 1024,
+  maxPlaylistEntries: config.limits.maxPlaylistEntries,
+  maxSubtitleLanguages: MAX_SUBTITLE_LANGUAGES,
+  maxConcurrentJobs: config.limits.maxConcurrentJobs,
+  maxExtractorProcesses: config.limits.maxExtractorProcesses,
+  maxQueueLength: config.limits.maxQueueLength,
+  rateLimitMax: config.rateLimit.max,
+  rateLimitWindowSeconds: config.rateLimit.windowMs / 1000,
+  downloadTimeoutSeconds: config.timeouts.download / 1000,
+  fileRetentionSeconds: config.storage.retention / 1000
+};
+
+// Error message for options the installed tools cannot handle, or null.
+// Requests are let through until the tools have been probed once.
+const validateSupported = (request) => {
+  const probed = tools.latest();
+  return probed ? findUnsupportedOption(request, buildCapabilities(probed, limits, signedInPlatforms(), defaultFilenameTemplate)) : null;
+};
+
+const isSubtitleFile = (file) => SUBTITLE_EXTENSIONS.some(extension => file.endsWith(extension));
+
+// message defaults to the one for the error code
+const failure = (code, message, details) => new shared.DownloadError(code, message, { details });
+
+// Suggested wait before retrying when the server has too much work queued
+const BUSY_RETRY_AFTER_SECONDS = 10;
+
+// Rejection for work that arrives while the queue is full. retryAfter is
+// sent as the Retry-After header.
+const serverBusy = (estimatedWait) => Object.assign(
+  failure('rate_limited', 'The server is busy, please try again in a moment'),
+  { retryAfter: Math.max(1, estimatedWait || BUSY_RETRY_AFTER_SECONDS) }
+);
+
+// yt-dlp output by video or list, shared by /api/video-info and downloads.
+// See src/shared/infoCache.mjs.
+let infoCache;
+// Names downloads that do not set a template, see src/shared/filenameTemplate.mjs
+let defaultFilenameTemplate;
+sharedReady.then(() => {
+  infoCache = shared.createInfoCache(config.infoCache);
+  defaultFilenameTemplate = config.storage.filenameTemplate || shared.DEFAULT_FILENAME_TEMPLATE;
+  const templateError = shared.checkFilenameTemplate(defaultFilenameTemplate);
+  if (templateError) throw new Error(`FILENAME_TEMPLATE: ${templateError}`);
+});
+
+// Videos are cached by platform and canonical ID, so youtu.be, watch and
+// Shorts links share an entry. Lists are cached by the URL yt-dlp is given.
+const infoCacheKey = (media, listUrl) => (listUrl ? `${media.platform}:list:${listUrl}` : `${media.platform}:${media.id}`);
+
+// Resolves with the extractor's output as { value, fetchedAt, cached }.
+// Aborting the signal only stops this caller from waiting: the lookup keeps
+// running for any other request waiting on it, and its result is cached.
+// Lookups that are not cached are turned away while the work queue is full,
+// unless `waitWhenBusy` is set for work that was already accepted.
+const lookupInfo = (media, { listUrl, signal, waitWhenBusy = false } = {}) => {
+  const lookup = infoCache.load(infoCacheKey(media, listUrl), () => {
+    if (!waitWhenBusy && workQueue.isFull()) throw serverBusy(workQueue.estimatedWait());
+    return workQueue.run(() => (listUrl
+      ? extractor.getInfo(listUrl, { playlist: true })
+      : extractor.getInfo(media.normalizedUrl)));
+  });
+  if (!signal) return lookup;
+
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(failure('cancelled'));
+    if (signal.aborted) return abort();
+    signal.addEventListener('abort', abort, { once: true });
+    lookup.then(resolve, reject).then(() => signal.removeEventListener('abort', abort));
   });
 };
 
+// The items of a post with several images and videos that a request asks
+// for, or undefined for a single video. Images are saved as they are
+// instead of going through yt-dlp.
+const pickMediaItems = (request, media, info) => {
+  if (request.format === 'subtitles' || !shared.isMultiItem(media)) return undefined;
+
+  const items = shared.listMediaItems(info);
+  if (!items) return undefined;
+  const picked = request.items ? items.filter(item => request.items.includes(item.index)) : items;
+  if (picked.length === 0) throw failure('not_found', 'None of the requested items are in this post');
+  return picked;
+};
+
+// yt-dlp's upload_date is YYYYMMDD; downloads without one get today's date
+const uploadDate = (info) => {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(info.upload_date || '');
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : new Date().toISOString().slice(0, 10);
+};
+
+// Name a download is saved under, without its extension: the request's
+// filename template or the server's, expanded for the downloaded video
+const outputName = (request, media, info, chosenFormat) => {
+  const { id, title, uploader, platform } = shared.toVideoInfo(info, media);
+  const quality = chosenFormat && chosenFormat.height ? `${chosenFormat.height}p` : request.quality;
+  return shared.expandFilenameTemplate(request.filenameTemplate || defaultFilenameTemplate, {
+    title,
+    uploader,
+    id,
+    date: uploadDate(info),
+    quality: request.format === 'subtitles' ? undefined : quality,
+    platform,
+    playlist_index: request.playlistIndex
+  });
+};
+
+// Downloads a single request through the extractor and resolves with the
+// name of the file it wrote to the downloads directory, any separate subtitle
+// files, one file per item for posts with several, the format it picked, the
+// file's SHA-256 and when the files expire. Subtitles-only requests resolve
+// with the first subtitle file as `filename`. While yt-dlp waits for a free
+// process, onProgress gets the "queued" phase with its place in line.
+// Aborting the signal stops the download and rejects with a "cancelled"
+// DownloadError. The extractor writes files under a unique basename, which
+// they are renamed from once the download has finished.
+const runDownload = async (request, onProgress, signal) => {
+  const { url, format, quality, formatId, subtitles } = request;
+  // The extractor gets the normalized URL, which drops tracking parameters
+  const media = shared.parseMediaUrl(url);
+  const { id: videoId, normalizedUrl } = media;
+  console.log(`Downloading: ${normalizedUrl} (${format}, ${format === 'subtitles' ? subtitles.languages.join(',') : formatId || quality})`);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const basename = `${videoId}_${timestamp}`;
+  let outcome;
+  let info;
+  let items;
+  try {
+    // Usually still cached from /api/video-info, so the video is not extracted twice
+    ({ value: info } = await lookupInfo(media, { signal, waitWhenBusy: true }));
+    items = pickMediaItems(request, media, info);
+    outcome = await workQueue.run(() => {
+      const download = extractor.download({ request, url: normalizedUrl, outputDir: downloadsDir, basename, info, items }, { signal });
+      download.on('progress', onProgress);
+      return download.done;
+    }, {
+      signal,
+      onWait: ({ queuePosition, estimatedWaitSeconds }) => onProgress({ phase: 'queued', percent: 0, queuePosition, estimatedWaitSeconds })
+    });
+  } catch (error) {
+    if (error.code === 'cancelled') {
+      console.log(`⏹️ Download cancelled: ${url}`);
+    } else {
+      console.error('Download error:', error.message);
+      // The stream URLs in the cached information may have expired
+      infoCache.delete(infoCacheKey(media));
+    }
+    throw error;
+  }
+
+  const { chosenFormat, skippedByLimit } = outcome;
+  let prefix = basename;
+  try {
+    prefix = storage.rename(outcome.files, basename, outputName(request, media, info, chosenFormat));
+  } catch (error) {
+    console.error('Could not rename downloaded files, keeping their original names:', error.message);
+  }
+  const files = outcome.files.map(file => prefix + file.slice(basename.length));
+  const subtitleFiles = files.filter(isSubtitleFile);
+  // Item files are named `${prefix}_${index}.${ext}`
+  const itemFiles = items && items
+    .map(item => files.find(file => file.startsWith(`${prefix}_${item.index}.`)))
+    .filter(Boolean);
+
+  let filename;
+  if (format === 'subtitles') {
+    if (subtitleFiles.length === 0) throw failure('not_found', 'No subtitles found for the requested languages');
+    filename = subtitleFiles[0];
+  } else {
+    filename = itemFiles ? itemFiles[0] : files.find(file => !isSubtitleFile(file));
+    if (!filename) {
+      throw skippedByLimit ? failure('limit_exceeded') : failure('internal', 'Downloaded file not found');
+    }
+    if (chosenFormat) {
+      console.log(`🎞️ Downloaded format ${chosenFormat.formatId} (${chosenFormat.height ? `${chosenFormat.height}p` : chosenFormat.ext})`);
+    }
+  }
+
+  // Hash the files while they are likely still in the page cache, so the
+  // client can verify its copy and the file endpoint can send Repr-Digest
+  const hashed = Array.from(new Set([filename, ...subtitleFiles, ...(itemFiles || [])]));
+  let sha256;
+  try {
+    [sha256] = await Promise.all(hashed.map(file => getChecksum(path.join(downloadsDir, file))));
+  } catch (error) {
+    throw failure('internal', 'Could not checksum downloaded file', error.message);
+  }
+
+  // Cancelled while the files were renamed or hashed
+  if (signal && signal.aborted) {
+    hashed.forEach(file => storage.remove(file));
+    throw failure('cancelled');
+  }
+
+  storage.enforceQuota(hashed);
+  return { filename, subtitleFiles, itemFiles, chosenFormat, sha256, expiresAt: storage.expiresAt(hashed) };
+};
+
+// Responses are checked against the contract shared with the client, see
+// src/shared/api.mjs. A mismatch is a server bug, so it is logged and the
+// cleaned-up body is sent anyway.
+const conform = (res, schema, body) => {
+  const { value, errors } = shared.check(schema, body);
+  if (errors.length > 0) {
+    console.error(`⚠️ ${res.req.method} ${res.req.originalUrl} response does not match the API contract:`, errors);
+  }
+  return value;
+};
+
+const sendJson = (res, schema, body, status = 200) => res.status(status).json(conform(res, schema, body));
+
+// message defaults to the one for the error code
+const errorBody = (code, message, details) => ({
+  success: false,
+  code,
+  message: message || shared.ERROR_DETAILS[code].message,
+  retryable: shared.ERROR_DETAILS[code].retryable,
+  error: details
+});
+
+const sendError = (res, status, code, message, details) => sendJson(res, shared.errorResponseSchema, errorBody(code, message, details), status);
+
+// 429 with the seconds the client should wait in Retry-After
+const sendTooManyRequests = (res, retryAfter, message) => {
+  res.set('Retry-After', String(retryAfter));
+  sendError(res, 429, 'rate_limited', message);
+};
+
+// Counts the request against the client's rate limit, see lib/rateLimit.js.
+// Clients are told apart by access token, or else by address; set
+// TRUST_PROXY behind a reverse proxy.
+const limitRate = (req, res, next) => {
+  const retryAfter = rateLimiter.take(req.tokenLabel ? `token:${req.tokenLabel}` : req.ip);
+  if (retryAfter > 0) {
+    return sendTooManyRequests(res, retryAfter, `Too many requests, please wait ${retryAfter} seconds`);
+  }
+  next();
+};
+
+// Sends a failed info lookup. Failures the extractor could not classify get
+// a message about what was being looked up instead of the generic one.
+const sendInfoError = (res, error, subject) => {
+  if (error.retryAfter) return sendTooManyRequests(res, error.retryAfter, error.message);
+  if (!(error instanceof shared.DownloadError)) {
+    console.error('Parse error:', error);
+    return sendError(res, 500, 'internal', `Failed to parse ${subject} information`);
+  }
+  sendError(res, 500, error.code, error.code === 'unknown' ? `Failed to fetch ${subject} information` : error.message, error.details);
+};
+
+// Checks a download request body. Only the known options are kept, so nothing
+// else the client sends ends up in a job.
+const parseDownloadRequest = (body) => {
+  const { value, errors } = shared.check(shared.downloadRequestSchema, body);
+  return errors.length > 0 ? { error: `Invalid download request: ${errors.join('; ')}` } : { request: value };
+};
+
+// Signed link to a finished file for the requesting token, valid until `expiresAt`
+const buildDownloadUrl = (req, filename, expiresAt) => `${req.protocol}://${req.get('host')}/downloads${storage.linkPath(filename, expiresAt, req.tokenLabel)}`;
+
+// Links to every file of a download result, the main file first
+const buildLinks = (req, { filename, itemFiles = [], subtitleFiles = [], expiresAt }) => Array.from(new Set([filename, ...itemFiles, ...subtitleFiles]))
+  .map(file => ({ filename: file, url: buildDownloadUrl(req, file, expiresAt) }));
+
+const jobQueue = createJobQueue({
+  run: runDownload,
+  concurrency: config.limits.maxConcurrentJobs,
+  retention: config.storage.retention,
+  // Files are removed once they expire or are evicted for the storage quota
+  isResultAvailable: (result) => fs.existsSync(path.join(downloadsDir, result.filename)),
+  maxQueued: config.limits.maxQueueLength
+});
+
 // API Routes
 
 // Health check
 app.get('/api/health', (req, res) => {
-  res.json({ 
-    status: 'OK', 
+  sendJson(res, shared.healthResponseSchema, {
+    status: 'OK',
     message: 'YTubeSaver Backend is running',
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    apiVersion: shared.API_VERSION
   });
 });
 
-// Get video information
-app.post('/api/video-info', async (req, res) => {
+// What this server can download, so the client can hide unsupported options
+app.get('/api/capabilities', async (req, res) => {
   try {
-    const { url } = req.body;
-    
-    if (!url || !isValidUrl(url)) {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid or missing URL'
-      });
-    }
+    sendJson(res, shared.capabilitiesResponseSchema, {
+      success: true,
+      capabilities: buildCapabilities(await tools.check(), limits, signedInPlatforms(), defaultFilenameTemplate)
+    });
+  } catch (error) {
+    console.error('Capabilities error:', error);
+    sendError(res, 500, 'internal');
+  }
+});
 
-    console.log(`Getting info for: ${url}`);
-
-    // Use yt-dlp to get video information
-    const cmd = `C:/Users/sudip/AppData/Local/Microsoft/WindowsApps/python3.12.exe -m yt_dlp -j --no-download "${url}"`;
-    
-    exec(cmd, { timeout: 30000 }, (error, stdout, stderr) => {
-      if (error) {
-        console.error('yt-dlp error:', stderr);
-        return res.status(500).json({
-          success: false,
-          message: 'Failed to fetch video information',
-          error: stderr
-        });
-      }
+// Lists the entries of a playlist or channel without extracting each video
+const sendPlaylistInfo = async (media, res) => {
+  const { listUrl: toListUrl } = shared.PLATFORM_REGISTRY[media.platform].quirks;
+  const listUrl = toListUrl ? toListUrl(media) : media.normalizedUrl;
 
-      try {
-        const videoData = JSON.parse(stdout);
-        const videoInfo = {
-          id: videoData.id || extractVideoId(url),
-          title: videoData.title || 'Unknown Title',
-          thumbnail: videoData.thumbnail || '',
-          duration: videoData.duration_string || '00:00',
-          uploader: videoData.uploader || videoData.channel || 'Unknown',
-          platform: url.includes('youtube') ? 'youtube' : 'instagram',
-          formats: videoData.formats ? videoData.formats.map(f => ({
-            format_id: f.format_id,
-            ext: f.ext,
-            quality: f.height ? `${f.height}p` : f.format_note || 'unknown',
-            filesize: f.filesize,
-            url: f.url,
-            format_note: f.format_note
-          })) : []
-        };
-
-        res.json({
-          success: true,
-          videoInfo
-        });
-      } catch (parseError) {
-        console.error('Parse error:', parseError);
-        res.status(500).json({
-          success: false,
-          message: 'Failed to parse video information'
-        });
-      }
+  try {
+    const { value, cached, fetchedAt } = await lookupInfo(media, { listUrl });
+    sendJson(res, shared.videoInfoResponseSchema, {
+      success: true,
+      playlistInfo: shared.toPlaylistInfo(value, media),
+      cached,
+      fetchedAt: new Date(fetchedAt).toISOString()
     });
-
   } catch (error) {
-    console.error('Server error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
+    sendInfoError(res, error, 'playlist');
+  }
+};
+
+// Get video information
+app.post('/api/video-info', limitRate, async (req, res) => {
+  const { url } = req.body;
+  const media = url ? shared.parseMediaUrl(url) : null;
+
+  if (!media) {
+    return sendError(res, 400, 'unsupported_url', 'Invalid or missing URL');
+  }
+  const signInMessage = signInError(media);
+  if (signInMessage) {
+    return sendError(res, 403, 'login_required', signInMessage);
+  }
+
+  console.log(`Getting info for: ${media.normalizedUrl}`);
+
+  // Playlists, channels and videos opened from a playlist list their entries
+  if (media.kind === 'playlist' || media.kind === 'channel' || media.playlistId) {
+    return sendPlaylistInfo(media, res);
+  }
+
+  try {
+    const { value, cached, fetchedAt } = await lookupInfo(media);
+    sendJson(res, shared.videoInfoResponseSchema, {
+      success: true,
+      videoInfo: shared.toVideoInfo(value, media),
+      cached,
+      fetchedAt: new Date(fetchedAt).toISOString()
     });
+  } catch (error) {
+    sendInfoError(res, error, 'video');
   }
 });
 
 // Download video
-app.post('/api/download', async (req, res) => {
+app.post('/api/download', limitRate, async (req, res) => {
   try {
-    const { url, format, quality } = req.body;
-    
-    if (!url || !isValidUrl(url)) {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid or missing URL'
-      });
+    const { request, error } = parseDownloadRequest(req.body);
+    if (error) {
+      return sendError(res, 400, 'invalid_request', error);
     }
 
-    const videoId = extractVideoId(url);
-    if (!videoId) {
-      return res.status(400).json({
-        success: false,
-        message: 'Could not extract video ID from URL'
-      });
+    const { url } = request;
+    if (!isValidUrl(url)) {
+      return sendError(res, 400, 'unsupported_url', 'Invalid or missing URL');
     }
 
-    console.log(`Downloading: ${url} (${format}, ${quality})`);
-
-    // Determine format selector for yt-dlp
-    let formatSelector;
-    if (format === 'audio') {
-      formatSelector = 'bestaudio[ext=m4a]/bestaudio/best';
-    } else {
-      // Video format
-      if (quality === '2160p (4K)') formatSelector = 'best[height<=2160]';
-      else if (quality === '1440p') formatSelector = 'best[height<=1440]';
-      else if (quality === '1080p') formatSelector = 'best[height<=1080]';
-      else if (quality === '720p') formatSelector = 'best[height<=720]';
-      else if (quality === '480p') formatSelector = 'best[height<=480]';
-      else if (quality === '360p') formatSelector = 'best[height<=360]';
-      else formatSelector = 'best';
+    const optionsError = validateDownloadOptions(request) || validateSupported(request);
+    if (optionsError) {
+      return sendError(res, 400, 'invalid_request', optionsError);
     }
 
-    // Generate filename
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const extension = format === 'audio' ? 'mp3' : 'mp4';
-    const filename = `${videoId}_${timestamp}.${extension}`;
-    const filepath = path.join(downloadsDir, filename);
-
-    // Construct yt-dlp command
-    let cmd;
-    if (format === 'audio') {
-      cmd = `C:/Users/sudip/AppData/Local/Microsoft/WindowsApps/python3.12.exe -m yt_dlp -f "${formatSelector}" --extract-audio --audio-format mp3 --audio-quality 0 -o "${filepath.replace('.mp3', '.%(ext)s')}" "${url}"`;
-    } else {
-      cmd = `C:/Users/sudip/AppData/Local/Microsoft/WindowsApps/python3.12.exe -m yt_dlp -f "${formatSelector}" -o "${filepath.replace('.mp4', '.%(ext)s')}" "${url}"`;
+    if (!isDownloadableUrl(url)) {
+      return sendError(res, 400, 'invalid_request', 'Playlists and channels must be downloaded one entry at a time');
     }
-
-    console.log(`Executing: ${cmd}`);
-
-    // Execute download
-    const child = exec(cmd, { timeout: 300000 }, (error, stdout, stderr) => {
-      if (error) {
-        console.error('Download error:', stderr);
-        return res.status(500).json({
-          success: false,
-          message: 'Download failed',
-          error: stderr
-        });
+    const signInMessage = signInError(shared.parseMediaUrl(url));
+    if (signInMessage) {
+      return sendError(res, 403, 'login_required', signInMessage);
+    }
+    if (workQueue.isFull()) {
+      const { message, retryAfter } = serverBusy(workQueue.estimatedWait());
+      return sendTooManyRequests(res, retryAfter, message);
+    }
+    if (req.tokenLabel) auth.record(req.tokenLabel, 'downloads');
+
+    // Clients that accept text/event-stream get live progress events,
+    // everyone else gets a single JSON response once yt-dlp exits
+    const stream = wantsEventStream(req) ? openEventStream(res) : null;
+    const sendResult = (statusCode, schema, body) => {
+      if (stream) {
+        stream.send(body.success ? 'complete' : 'error', conform(res, schema, body));
+        stream.close();
+      } else if (!res.headersSent) {
+        sendJson(res, schema, body, statusCode);
       }
+    };
 
-      // Find the actual downloaded file
-      const files = fs.readdirSync(downloadsDir);
-      const downloadedFile = files.find(file => file.startsWith(videoId));
+    if (stream) stream.send('progress', { phase: 'extracting', percent: 0 });
 
-      if (!downloadedFile) {
-        return res.status(500).json({
-          success: false,
-          message: 'Downloaded file not found'
-        });
-      }
+    // Stop yt-dlp if the client disconnects before the download finishes
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
 
-      const downloadUrl = `${req.protocol}://${req.get('host')}/downloads/${downloadedFile}`;
+    try {
+      const result = await runDownload(request, (progress) => {
+        if (stream) stream.send('progress', progress);
+      }, controller.signal);
+      const { filename, subtitleFiles, itemFiles, chosenFormat, sha256, expiresAt } = result;
 
-      res.json({
+      sendResult(200, shared.downloadResultResponseSchema, {
         success: true,
         message: 'Download completed successfully',
-        downloadUrl,
-        filename: downloadedFile
+        downloadUrl: buildDownloadUrl(req, filename, expiresAt),
+        filename,
+        subtitleFiles,
+        itemFiles,
+        links: buildLinks(req, result),
+        chosenFormat,
+        sha256,
+        expiresAt: new Date(expiresAt).toISOString()
       });
-    });
-
-    // Handle timeout
-    child.on('close', (code) => {
-      if (code !== 0 && !res.headersSent) {
-        res.status(500).json({
-          success: false,
-          message: `Download process exited with code ${code}`
-        });
-      }
-    });
+    } catch (error) {
+      sendResult(500, shared.errorResponseSchema, errorBody(error.code || 'internal', error.message, error.details));
+    }
 
   } catch (error) {
     console.error('Server error:', error);
     if (!res.headersSent) {
-      res.status(500).json({
-        success: false,
-        message: 'Internal server error'
-      });
+      sendError(res, 500, 'internal');
     }
   }
 });
 
-// Clean up old files (optional)
+// Download jobs
+const serializeJob = (req, job) => ({
+  id: job.id,
+  state: job.state,
+  request: job.request,
+  progress: job.progress,
+  result: job.result && {
+    filename: job.result.filename,
+    downloadUrl: buildDownloadUrl(req, job.result.filename, job.result.expiresAt),
+    subtitleFiles: job.result.subtitleFiles,
+    itemFiles: job.result.itemFiles,
+    links: buildLinks(req, job.result),
+    chosenFormat: job.result.chosenFormat,
+    sha256: job.result.sha256,
+    expiresAt: new Date(job.result.expiresAt).toISOString()
+  },
+  error: job.error,
+  errorCode: job.errorCode,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  finishedAt: job.finishedAt
+});
+
+// Create a download job and return immediately with its ID
+app.post('/api/jobs', limitRate, (req, res) => {
+  const { request, error } = parseDownloadRequest(req.body);
+  if (error) {
+    return sendError(res, 400, 'invalid_request', error);
+  }
+
+  const { url, format, quality, formatId } = request;
+  if (!isDownloadableUrl(url)) {
+    return sendError(res, 400, 'unsupported_url', 'Invalid or missing URL');
+  }
+  const signInMessage = signInError(shared.parseMediaUrl(url));
+  if (signInMessage) {
+    return sendError(res, 403, 'login_required', signInMessage);
+  }
+
+  const optionsError = validateDownloadOptions(request) || validateSupported(request);
+  if (optionsError) {
+    return sendError(res, 400, 'invalid_request', optionsError);
+  }
+
+  if (jobQueue.isFull()) {
+    const { message, retryAfter } = serverBusy(jobQueue.estimatedWait());
+    return sendTooManyRequests(res, retryAfter, message);
+  }
+
+  const job = jobQueue.create(request, { owner: req.tokenLabel });
+  if (req.tokenLabel) auth.record(req.tokenLabel, 'downloads');
+  console.log(`Queued job ${job.id}${req.tokenLabel ? ` for ${req.tokenLabel}` : ''}: ${url} (${format}, ${formatId || quality})`);
+
+  sendJson(res, shared.jobResponseSchema, {
+    success: true,
+    job: serializeJob(req, job)
+  }, 202);
+});
+
+// With access tokens, everyone only sees the jobs created with their own token
+const isOwnJob = (req, job) => job.owner === req.tokenLabel;
+
+// List recent jobs, newest first
+app.get('/api/jobs', (req, res) => {
+  sendJson(res, shared.jobsResponseSchema, {
+    success: true,
+    jobs: jobQueue.list().filter(job => isOwnJob(req, job)).map(job => serializeJob(req, job))
+  });
+});
+
+// Cancel a queued or running job, killing yt-dlp and removing partial files
+app.delete('/api/jobs/:id', (req, res) => {
+  const found = jobQueue.get(req.params.id);
+  const job = found && isOwnJob(req, found) ? jobQueue.cancel(found.id) : null;
+
+  if (!job) {
+    return sendError(res, 404, 'not_found', 'Job not found');
+  }
+  if (job.state !== 'cancelled') {
+    return sendError(res, 409, 'invalid_request', `The job has already ${job.state === 'done' ? 'finished' : job.state}`);
+  }
+
+  sendJson(res, shared.jobResponseSchema, {
+    success: true,
+    job: serializeJob(req, job)
+  });
+});
+
+// Get the state of a single job
+app.get('/api/jobs/:id', (req, res) => {
+  const job = jobQueue.get(req.params.id);
+
+  if (!job || !isOwnJob(req, job)) {
+    return sendError(res, 404, 'not_found', 'Job not found');
+  }
+
+  // Clients that accept text/event-stream get the job again after every
+  // change, until it has finished
+  if (wantsEventStream(req)) {
+    const stream = openEventStream(res);
+    const send = (changed) => {
+      stream.send('job', conform(res, shared.jobResponseSchema, { success: true, job: serializeJob(req, changed) }));
+      if (FINISHED_STATES.includes(changed.state)) stream.close();
+    };
+    const unsubscribe = jobQueue.subscribe(job.id, send);
+    res.on('close', unsubscribe);
+    send(job);
+    return;
+  }
+
+  sendJson(res, shared.jobResponseSchema, {
+    success: true,
+    job: serializeJob(req, job)
+  });
+});
+
+// What the caller's access token has been used for since the server started
+app.get('/api/usage', (req, res) => {
+  if (!req.tokenLabel) {
+    return sendError(res, 404, 'not_found', 'This server does not use access tokens');
+  }
+
+  sendJson(res, shared.usageResponseSchema, {
+    success: true,
+    usage: auth.usageOf(req.tokenLabel)
+  });
+});
+
+// Remove expired files now instead of waiting for the next sweep
 app.post('/api/cleanup', (req, res) => {
   try {
-    const files = fs.readdirSync(downloadsDir);
-    const now = Date.now();
-    let deleted = 0;
-
-    files.forEach(file => {
-      const filePath = path.join(downloadsDir, file);
-      const stats = fs.statSync(filePath);
-      const fileAge = now - stats.mtime.getTime();
-      
-      // Delete files older than 1 hour
-      if (fileAge > 3600000) {
-        fs.unlinkSync(filePath);
-        deleted++;
-      }
-    });
+    const deleted = storage.sweep();
 
-    res.json({
+    sendJson(res, shared.messageResponseSchema, {
       success: true,
       message: `Cleaned up ${deleted} old files`
     });
   } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Cleanup failed'
-    });
+    sendError(res, 500, 'internal', 'Cleanup failed');
   }
 });
 
-// Start server
-app.listen(PORT, async () => {
+// Start server once the shared modules are loaded. Tests require this file
+// and listen themselves.
+const start = () => sharedReady.then(() => app.listen(PORT, async () => {
   console.log(`🚀 YTubeSaver Backend running on port ${PORT}`);
   console.log(`📁 Downloads directory: ${downloadsDir}`);
+
+  // Expired files are removed in the background
+  const sweep = () => {
+    try {
+      const deleted = storage.sweep();
+      if (deleted > 0) console.log(`🧹 Removed ${deleted} expired downloads`);
+    } catch (error) {
+      console.error('Cleanup error:', error);
+    }
+  };
+  sweep();
+  setInterval(sweep, config.storage.sweepInterval).unref();
+  console.log(auth.enabled() ? '🔑 Access tokens are required' : '🔓 No access tokens configured, the API is open to allowed origins');
+  console.log(`🧩 Extractor: ${config.extractor}${config.extractor === 'yt-dlp' ? ` (${config.ytDlp.path})` : ''}`);
   
-  // Check if yt-dlp is installed
-  const ytDlpAvailable = await checkYtDlp();
-  if (!ytDlpAvailable) {
+  // Check if yt-dlp and ffmpeg are installed
+  const { extractor: ytDlp, ffmpeg } = await tools.check();
+  if (!ytDlp.available) {
+    console.log('yt-dlp not found. Please install it:');
+    console.log('1. Download from: https://github.com/yt-dlp/yt-dlp/releases');
+    console.log('2. Or install via pip: pip install yt-dlp');
+    console.log('3. Or install via conda: conda install -c conda-forge yt-dlp');
     console.log('⚠️  WARNING: yt-dlp is not installed. Please install it for the backend to work properly.');
   } else {
+    console.log(`✅ yt-dlp version: ${ytDlp.version}`);
     console.log('✅ yt-dlp is available and ready');
   }
+  if (!ffmpeg.available) {
+    console.log('⚠️  WARNING: ffmpeg is not installed. MP3 audio, video above 720p, clips, SRT subtitles and metadata will be unavailable.');
+  } else {
+    console.log(`✅ ffmpeg version: ${ffmpeg.version}`);
+  }
   
   console.log('🌐 CORS enabled for:', ['http://localhost:3000', 'https://laudarisd.github.io']);
-});
+}));
+
+if (require.main === module) start();
 
 module.exports = app;
@@ -0,0 +1,187 @@
+// Runs the API against the recorded fixtures in backend/fixtures, without
+// yt-dlp, ffmpeg or network access. See "Testing the API" in BACKEND_API.md.
+
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytsaver-test-'));
+Object.assign(process.env, {
+  EXTRACTOR: 'fake',
+  FAKE_STEP_DELAY_MS: '20',
+  STORAGE_PATH: storageDir,
+  DOWNLOAD_SECRET: 'test-secret',
+});
+
+const app = require('./server');
+const { ready } = require('./lib/shared');
+
+const VIDEO_URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+const FAKE_FILE_SIZE = 256 * 1024;
+
+let server;
+let baseUrl;
+
+const api = async (method, route, body, headers = {}) => {
+  const response = await fetch(`${baseUrl}/api${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body && JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const createJob = async (request = {}) => {
+  const { status, body } = await api('POST', '/jobs', { url: VIDEO_URL, format: 'video', quality: '720p', ...request });
+  assert.equal(status, 202);
+  return body.job;
+};
+
+// Every event of a job's event stream, read until the server closes it
+const followJob = async (id) => {
+  const response = await fetch(`${baseUrl}/api/jobs/${id}`, { headers: { Accept: 'text/event-stream' } });
+  assert.match(response.headers.get('content-type'), /^text\/event-stream/);
+
+  return (await response.text())
+    .split('\n\n')
+    .filter(block => block.startsWith('event:'))
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+};
+
+before(async () => {
+  await ready;
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('POST /api/video-info', () => {
+  test('answers from the recorded fixture', async () => {
+    const { status, body } = await api('POST', '/video-info', { url: VIDEO_URL });
+
+    assert.equal(status, 200);
+    assert.equal(body.videoInfo.id, 'dQw4w9WgXcQ');
+    assert.equal(body.videoInfo.platform, 'youtube');
+    assert.ok(body.videoInfo.formats.length > 0);
+  });
+
+  test('reports recorded failures with their error code', async () => {
+    const { status, body } = await api('POST', '/video-info', { url: 'https://www.youtube.com/watch?v=privateVid1' });
+
+    assert.equal(status >= 400, true);
+    assert.equal(body.success, false);
+    assert.equal(body.code, 'private');
+  });
+
+  test('rejects unsupported URLs', async () => {
+    const { status, body } = await api('POST', '/video-info', { url: 'https://example.com/video' });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, 'unsupported_url');
+  });
+});
+
+describe('download jobs', () => {
+  let finished;
+
+  test('stream progress until the job is done', async () => {
+    const job = await createJob();
+    const events = await followJob(job.id);
+    const states = events.map(({ data }) => data.job.state);
+
+    assert.ok(events.every(({ event }) => event === 'job'));
+    assert.ok(events.some(({ data }) => data.job.progress && data.job.progress.phase === 'downloading' && data.job.progress.percent < 100));
+    assert.equal(states[states.length - 1], 'done');
+    assert.equal(states.indexOf('done'), states.length - 1);
+
+    finished = events[events.length - 1].data.job;
+    assert.equal(finished.result.links[0].filename, finished.result.filename);
+    assert.match(finished.result.sha256, /^[0-9a-f]{64}$/);
+  });
+
+  test('list the job and report it on its own', async () => {
+    const { body: list } = await api('GET', '/jobs');
+    assert.ok(list.jobs.some(job => job.id === finished.id));
+
+    const { status, body } = await api('GET', `/jobs/${finished.id}`);
+    assert.equal(status, 200);
+    assert.equal(body.job.state, 'done');
+  });
+
+  test('cancel a running job, once', async () => {
+    const job = await createJob({ quality: '480p' });
+
+    const cancelled = await api('DELETE', `/jobs/${job.id}`);
+    assert.equal(cancelled.status, 200);
+    assert.equal(cancelled.body.job.state, 'cancelled');
+
+    const again = await api('DELETE', `/jobs/${job.id}`);
+    assert.equal(again.status, 200);
+    assert.equal(again.body.job.state, 'cancelled');
+
+    const events = await followJob(job.id);
+    assert.deepEqual(events.map(({ data }) => data.job.state), ['cancelled']);
+  });
+
+  test('refuse to cancel a finished job', async () => {
+    const { status, body } = await api('DELETE', `/jobs/${finished.id}`);
+
+    assert.equal(status, 409);
+    assert.equal(body.code, 'invalid_request');
+  });
+
+  test('answer 404 for unknown jobs', async () => {
+    assert.equal((await api('GET', '/jobs/missing')).status, 404);
+    assert.equal((await api('DELETE', '/jobs/missing')).status, 404);
+  });
+
+  describe('signed download links', () => {
+    test('serve the whole file', async () => {
+      const response = await fetch(finished.result.downloadUrl);
+      const body = Buffer.from(await response.arrayBuffer());
+
+      assert.equal(response.status, 200);
+      assert.equal(body.length, FAKE_FILE_SIZE);
+      assert.equal(crypto.createHash('sha256').update(body).digest('hex'), finished.result.sha256);
+      assert.match(response.headers.get('content-disposition'), /^attachment; /);
+    });
+
+    test('resume with a range', async () => {
+      const response = await fetch(finished.result.downloadUrl, { headers: { Range: 'bytes=1000-1999' } });
+      const body = Buffer.from(await response.arrayBuffer());
+
+      assert.equal(response.status, 206);
+      assert.equal(response.headers.get('content-range'), `bytes 1000-1999/${FAKE_FILE_SIZE}`);
+      assert.equal(body.length, 1000);
+    });
+
+    test('refuse tampered links', async () => {
+      const tampered = new URL(finished.result.downloadUrl);
+      tampered.searchParams.set('signature', '0'.repeat(64));
+      const response = await fetch(tampered);
+
+      assert.equal(response.status, 403);
+      assert.equal((await response.json()).code, 'invalid_request');
+    });
+
+    test('refuse links reused for another file', async () => {
+      const other = new URL(finished.result.downloadUrl);
+      other.pathname = '/downloads/other.mp4';
+      const response = await fetch(other);
+
+      assert.equal(response.status, 403);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 // Enhanced Service Worker for YTubeSaver PWA
-const CACHE_NAME = 'ytube-saver-v1';
+const CACHE_NAME = 'ytube-saver-v2';
 const urlsToCache = [
   '/',
   '/static/js/bundle.js',
@@ -21,6 +21,13 @@ self.addEventListener('install', (event) => {
 
 // Fetch event - serve from cache when offline
 self.addEventListener('fetch', (event) => {
+  // API responses describe live state such as job progress and the server's
+  // capabilities, so they always come from the network
+  if (event.request.url.includes('/api/')) {
+    event.respondWith(handleApiRequest(event.request));
+    return;
+  }
+
   event.respondWith(
     caches.match(event.request)
       .then((response) => {
@@ -29,36 +36,17 @@ self.addEventListener('fetch', (event) => {
           return response;
         }
         
-        // For API calls, add custom headers and error handling
-        if (event.request.url.includes('/api/')) {
-          return handleApiRequest(event.request);
-        }
-        
         return fetch(event.request);
       }
     )
   );
 });
 
-// Custom API request handler with retry logic
+// Custom API request handler with an offline fallback
 async function handleApiRequest(request) {
   try {
-    const response = await fetch(request);
-    
-    // If successful, cache the response for offline use
-    if (response.ok) {
-      const cache = await caches.open(CACHE_NAME);
-      cache.put(request, response.clone());
-    }
-    
-    return response;
+    return await fetch(request);
   } catch (error) {
-    // If network fails, try to serve from cache
-    const cachedResponse = await caches.match(request);
-    if (cachedResponse) {
-      return cachedResponse;
-    }
-    
     // Return offline fallback response
     return new Response(
       JSON.stringify({
@@ -1,6 +1,9 @@
 import React from 'react';
 import './App.css';
 import DownloaderForm from './components/DownloaderForm';
+import { PLATFORM_REGISTRY } from './shared/platforms.mjs';
+
+const platforms = Object.values(PLATFORM_REGISTRY);
 
 function App() {
   return (
@@ -11,10 +14,9 @@ function App() {
           <span>YTubeSaver</span>
         </div>
         <div className="header-badges">
-          <span className="platform-badge">🎥 YouTube Videos</span>
-          <span className="platform-badge">� YouTube Shorts</span>
-          <span className="platform-badge">�📸 Instagram Posts</span>
-          <span className="platform-badge">🎞️ Instagram Reels</span>
+          {platforms.map(platform => (
+            <span key={platform.name} className="platform-badge">{platform.icon} {platform.name}</span>
+          ))}
         </div>
       </header>
 
@@ -24,10 +26,10 @@ function App() {
             🚀 Universal Video Downloader
           </h1>
           <p className="hero-subtitle">
-            Download videos and audio from YouTube and Instagram
+            Download videos and audio from YouTube, Instagram and more
             <br />
             <span style={{ color: '#4ecdc4', fontWeight: 'bold' }}>
-              ✅ YouTube Videos • ✅ YouTube Shorts • ✅ Instagram Posts • ✅ Instagram Reels
+              {platforms.map(platform => `✅ ${platform.name}`).join(' • ')}
             </span>
             <br />
             {/* Works on PC and Android • Fast • Secure • Free */}
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+
+interface AccessTokenPromptProps {
+  /** Whether a token was stored and the server turned it down */
+  rejected: boolean;
+  onSave: (token: string) => void;
+  disabled?: boolean;
+}
+
+const AccessTokenPrompt: React.FC<AccessTokenPromptProps> = ({ rejected, onSave, disabled }) => {
+  const [token, setToken] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (token.trim()) onSave(token);
+  };
+
+  return (
+    <form className="access-token-prompt" onSubmit={handleSubmit}>
+      <div>
+        {rejected
+          ? 'The download server did not accept your access token. It may have been revoked.'
+          : 'This download server only works with an access token.'}
+      </div>
+      <div className="access-token-row">
+        <input
+          type="password"
+          className="url-input"
+          placeholder="Paste the access token from your server admin"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          autoComplete="off"
+          disabled={disabled}
+        />
+        <button type="submit" className="banner-button" disabled={disabled || !token.trim()}>
+          🔑 Save token
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AccessTokenPrompt;
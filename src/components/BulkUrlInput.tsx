@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { QueueEntry, EnqueueResult } from '../hooks/useDownloadQueue';
+
+interface BulkUrlInputProps {
+  onAdd: (entries: QueueEntry[]) => EnqueueResult;
+  disabled?: boolean;
+}
+
+// Lines starting with # are treated as comments so link lists can be annotated
+const parseUrlList = (text: string): QueueEntry[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(url => ({ url }));
+};
+
+const BulkUrlInput: React.FC<BulkUrlInputProps> = ({ onAdd, disabled }) => {
+  const [text, setText] = useState('');
+  const [summary, setSummary] = useState<EnqueueResult | null>(null);
+
+  const addUrls = (urlText: string) => {
+    const result = onAdd(parseUrlList(urlText));
+    setSummary(result);
+    // Keep the lines that could not be queued so they can be fixed
+    setText(result.invalid.join('\n'));
+  };
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => addUrls(String(reader.result || ''));
+    reader.readAsText(file);
+    // Allow importing the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bulk-input">
+      <textarea
+        className="bulk-textarea"
+        placeholder={'Paste one video URL per line...'}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        rows={6}
+      />
+      <div className="bulk-actions">
+        <label className={`bulk-import ${disabled ? 'disabled' : ''}`}>
+          📄 Import .txt
+          <input
+            type="file"
+            accept=".txt,text/plain"
+            onChange={handleFileImport}
+            disabled={disabled}
+          />
+        </label>
+        <button
+          className="format-btn active"
+          onClick={() => addUrls(text)}
+          disabled={disabled || !text.trim()}
+        >
+          ➕ Add to Queue
+        </button>
+      </div>
+      {summary && (
+        <div className="bulk-summary">
+          ✅ {summary.added} added
+          {summary.duplicates > 0 && <> • 🔁 {summary.duplicates} duplicates skipped</>}
+          {summary.invalid.length > 0 && <> • ❌ {summary.invalid.length} not supported (left in the box above)</>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkUrlInput;
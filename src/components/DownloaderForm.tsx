@@ -1,56 +1,287 @@
-import React, { useState, useEffect } from 'react';
-import { DownloadService, VideoInfo, DownloadRequest } from '../services/downloadService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { DownloadService, DownloadError, ErrorCode, Capabilities, VideoInfo, PlaylistInfo, DownloadRequest, DownloadResponse, DownloadProgress, TransferProgress, DownloadLink, SaveTarget, DownloadPhase, DownloadFormat, SubtitleFormat, MetadataOptions } from '../services/downloadService';
+import { parseMediaUrl } from '../shared/mediaUrl.mjs';
+import { PLATFORM_REGISTRY, findBadge, needsSignIn } from '../shared/platforms.mjs';
+import MediaItemPicker from './MediaItemPicker';
+import PlaylistPicker from './PlaylistPicker';
+import BulkUrlInput from './BulkUrlInput';
+import QueuePanel from './QueuePanel';
+import QualityPicker, { isPresetAvailable } from './QualityPicker';
+import SubtitlePicker from './SubtitlePicker';
+import HistoryPanel from './HistoryPanel';
+import AccessTokenPrompt from './AccessTokenPrompt';
+import SettingsPanel from './SettingsPanel';
+import { HistoryService, HistoryEntry } from '../services/historyService';
+import { Settings } from '../services/settingsService';
+import { FormatUtils } from '../utils/formats';
+import { VIDEO_CODECS, CONTAINERS, VIDEO_QUALITIES, AUDIO_QUALITIES, VideoCodec, Container, presetHeight } from '../shared/formatSelector.mjs';
+import { DOWNLOAD_FORMATS, SUBTITLE_FORMATS } from '../shared/api.mjs';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS, checkFilenameTemplate, expandFilenameTemplate } from '../shared/filenameTemplate.mjs';
+import { useDownloadQueue, QueueEntry } from '../hooks/useDownloadQueue';
+import { useCapabilities } from '../hooks/useCapabilities';
+import { useSettings } from '../hooks/useSettings';
 
 interface DownloadOptions {
-  format: 'video' | 'audio';
+  format: DownloadFormat;
   quality: string;
+  /** Exact format picked from the loaded video's format list */
+  formatId?: string;
+  videoCodec?: VideoCodec;
+  container: Container;
+  /** Subtitle languages picked from the loaded video's tracks */
+  subtitleLanguages: string[];
+  subtitleFormat: SubtitleFormat;
+  metadata: MetadataOptions;
+  /** Empty uses the server's template */
+  filenameTemplate: string;
 }
 
+// Options for a new download, from the saved settings
+const defaultOptions = (settings: Settings, format: DownloadFormat = settings.format): DownloadOptions => ({
+  format,
+  quality: format === 'audio' ? settings.audioQuality : settings.videoQuality,
+  container: settings.container,
+  subtitleLanguages: [],
+  // Only video downloads can carry embedded subtitles
+  subtitleFormat: format !== 'video' && settings.subtitleFormat === 'embed' ? 'srt' : settings.subtitleFormat,
+  metadata: settings.metadata,
+  filenameTemplate: settings.filenameTemplate
+});
+
+// Drops options the connected backend does not support
+const supportedOptions = (options: DownloadOptions, capabilities: Capabilities | null): DownloadOptions => {
+  if (!capabilities) return options;
+  const { formats, containers, videoCodecs, subtitleFormats, features } = capabilities;
+  return {
+    ...options,
+    format: formats.includes(options.format) ? options.format : 'video',
+    formatId: formats.includes(options.format) ? options.formatId : undefined,
+    quality: options.format === 'video' && !features.merge && (presetHeight(options.quality) || 0) > 720 ? '720p' : options.quality,
+    videoCodec: options.videoCodec && videoCodecs.includes(options.videoCodec) ? options.videoCodec : undefined,
+    container: containers.includes(options.container) ? options.container : containers[0],
+    subtitleFormat: subtitleFormats.includes(options.subtitleFormat) ? options.subtitleFormat : subtitleFormats[0],
+    metadata: features.metadata ? options.metadata : {}
+  };
+};
+
+// Saved subtitle languages the video has tracks for
+const matchingLanguages = (languages: string[], info: VideoInfo): string[] =>
+  languages.filter(language => info.subtitles.some(track => track.language === language));
+
+const codecLabels: Record<VideoCodec, string> = {
+  avc1: 'H.264 (most compatible)',
+  vp9: 'VP9',
+  av1: 'AV1 (smallest files)'
+};
+
+const formatLabels: Record<DownloadFormat, string> = {
+  video: 'Video',
+  audio: 'Audio',
+  subtitles: 'Subtitles'
+};
+
+const phaseLabels: Record<DownloadPhase, string> = {
+  'queued': '⏳ Waiting for a free slot on the server',
+  'extracting': '🔍 Extracting video data',
+  'downloading': '⬇️ Downloading',
+  'merging': '🔗 Merging video and audio',
+  'converting': '🔄 Converting',
+  'post-processing': '🛠️ Finishing up'
+};
+
+const platformBadges = Object.values(PLATFORM_REGISTRY).flatMap(platform => platform.badges);
+
+// What the user can do about each failure
+const errorGuidance: Partial<Record<ErrorCode, string>> = {
+  private: 'Only the uploader and people they invited can watch it. Ask for a public or unlisted link.',
+  age_restricted: 'Age-restricted videos need a signed-in account, which the server does not use.',
+  geo_blocked: 'The server is in a country where this video is blocked. Try a server in another region.',
+  removed: 'Check the link, or look for another upload of the same video.',
+  live_not_supported: 'Wait until the stream or premiere has ended, then download the recording.',
+  login_required: 'The platform wants a signed-in account for this video. Try again later or choose another video.',
+  rate_limited: 'Wait a few minutes before trying again.',
+  unsupported_url: 'Paste a link to a single video, post, track or playlist on one of the sites listed above.',
+  extractor_unavailable: 'Ask the server admin to install or update yt-dlp.',
+  timeout: 'Try a lower quality or a shorter clip.',
+  limit_exceeded: 'Try a lower quality, audio only or a shorter clip.',
+  invalid_request: 'Reload the page and try again.',
+  unauthorized: 'Enter the access token from your server admin in the banner above.',
+  not_found: 'Try different options, e.g. another subtitle language.',
+  network: 'Check that the download server is running and that you are online.',
+  expired: 'Start the download again.',
+  version_mismatch: 'Reload the page to get the latest version of the app.',
+  transfer_failed: 'Check that this device has enough free space, then download again.',
+  internal: 'Try again. If it keeps failing, check the server logs.',
+  unknown: 'Try again. If it keeps failing, try another video to see if the problem is this one.'
+};
+
+// Warn this long before the server deletes a finished file
+const EXPIRY_WARNING_MINUTES = 10;
+
 const DownloaderForm: React.FC = () => {
+  const [mode, setMode] = useState<'single' | 'bulk' | 'history' | 'settings'>('single');
   const [url, setUrl] = useState('');
-  const [options, setOptions] = useState<DownloadOptions>({
-    format: 'video',
-    quality: '1080p'
-  });
+  const { settings } = useSettings();
+  const [options, setOptions] = useState<DownloadOptions>(() => defaultOptions(settings));
   const [isLoading, setIsLoading] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState(0);
+  const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
+  // Copying the finished file to this device, after the backend's download
+  const [transferProgress, setTransferProgress] = useState<TransferProgress | null>(null);
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [playlistInfo, setPlaylistInfo] = useState<PlaylistInfo | null>(null);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([]);
+  const [selectedItems, setSelectedItems] = useState<number[]>([]);
+  // Clip times as typed, in h:mm:ss; empty means the start or end of the video
+  const [clip, setClip] = useState({ start: '', end: '' });
   const [status, setStatus] = useState<{
     type: 'success' | 'error' | 'info' | 'warning' | null;
     message: string;
+    /** What the user can do about an error */
+    hint?: string;
   }>({ type: null, message: '' });
+  // Link to the last finished file, which the server deletes at expiresAt
+  const [serverCopy, setServerCopy] = useState<{ url: string; expiresAt: string } | null>(null);
+  // Files of the last download the browser did not save by itself
+  const [unsavedLinks, setUnsavedLinks] = useState<DownloadLink[]>([]);
+  const [now, setNow] = useState(() => Date.now());
 
-  const videoQualities = ['2160p (4K)', '1440p', '1080p', '720p', '480p', '360p', '240p'];
-  const audioQualities = ['320kbps', '256kbps', '192kbps', '128kbps', '96kbps', '64kbps'];
+  const queue = useDownloadQueue(settings.concurrency);
+  const { setConcurrency } = queue;
+  // WebM files cannot hold cover art
+  const coverArtSupported = options.format === 'audio' || options.container !== 'webm';
+  const resumeStarted = useRef(false);
+  const downloadAbort = useRef<AbortController | null>(null);
+  // Settings as they were when the settings tab was opened
+  const settingsOnOpen = useRef<Settings | null>(null);
 
-  const [supportedPlatforms] = useState([
-    { name: 'YouTube Videos', pattern: /youtube\.com\/watch/, icon: '🎥' },
-    { name: 'YouTube Shorts', pattern: /youtube\.com\/shorts/, icon: '📱' },
-    { name: 'YouTube (Short URLs)', pattern: /youtu\.be/, icon: '�' },
-    { name: 'Instagram Posts', pattern: /instagram\.com\/p\//, icon: '📸' },
-    { name: 'Instagram Reels', pattern: /instagram\.com\/reel\//, icon: '🎞️' },
-    { name: 'Instagram Stories', pattern: /instagram\.com\/stories\//, icon: '📱' }
-  ]);
+  // Every option is offered until the backend has said what it supports
+  const { capabilities, error: backendError, isLoading: checkingBackend, refresh: refreshCapabilities } = useCapabilities();
+  const supportedFormats = capabilities ? capabilities.formats : DOWNLOAD_FORMATS;
+  const supportedContainers = capabilities ? capabilities.containers : CONTAINERS;
+  const supportedCodecs = capabilities ? capabilities.videoCodecs : VIDEO_CODECS;
+  const supportedSubtitleFormats = capabilities ? capabilities.subtitleFormats : SUBTITLE_FORMATS;
+  const clipsSupported = !capabilities || capabilities.features.clips;
+  const metadataSupported = !capabilities || capabilities.features.metadata;
+  // Above 720p YouTube only has separate video and audio streams, which need merging
+  const offeredVideoQualities = !capabilities || capabilities.features.merge
+    ? VIDEO_QUALITIES
+    : VIDEO_QUALITIES.filter(quality => (presetHeight(quality) || 0) <= 720);
+  const separateSubtitleFormat: SubtitleFormat = supportedSubtitleFormats.includes('srt') ? 'srt' : 'vtt';
+  const maxDuration = capabilities?.limits.maxDurationSeconds;
+  const urlPlatform = parseMediaUrl(url)?.platform;
+  const audioOnlyPlatform = urlPlatform && PLATFORM_REGISTRY[urlPlatform].quirks.audioOnly
+    ? PLATFORM_REGISTRY[urlPlatform]
+    : undefined;
 
   // Auto-detect platform when URL changes
   useEffect(() => {
-    const detectPlatform = (url: string) => {
-      return supportedPlatforms.find(platform => platform.pattern.test(url));
-    };
-
     if (url.trim()) {
-      const platform = detectPlatform(url);
-      if (platform) {
+      const parsed = parseMediaUrl(url);
+      const badge = parsed && findBadge(parsed);
+      if (parsed && badge && capabilities && needsSignIn(parsed) && !capabilities.signedIn.includes(parsed.platform)) {
+        setStatus({
+          type: 'warning',
+          message: `${badge.icon} ${badge.name} need a signed-in account, and this server has no ${PLATFORM_REGISTRY[parsed.platform].name} cookies`
+        });
+      } else if (badge) {
         setStatus({ 
           type: 'info', 
-          message: `${platform.icon} ${platform.name} URL detected` 
+          message: `${badge.icon} ${badge.name} URL detected` 
         });
       }
     } else {
       setVideoInfo(null);
+      setPlaylistInfo(null);
       setStatus({ type: null, message: '' });
     }
-  }, [url, supportedPlatforms]);
+  }, [url, capabilities]);
+
+  // Keeps the expiry warning for the server copy up to date
+  useEffect(() => {
+    if (!serverCopy) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [serverCopy]);
+
+  const showDownloadResult = useCallback((response: DownloadResponse) => {
+    if (response.success) {
+      setServerCopy(response.downloadUrl && response.expiresAt
+        ? { url: response.downloadUrl, expiresAt: response.expiresAt }
+        : null);
+      setUnsavedLinks(response.unsavedLinks || []);
+      setDownloadProgress(prev => ({ ...(prev || { phase: 'downloading' }), percent: 100 }));
+      setStatus({
+        type: 'success',
+        message: response.chosenFormat
+          ? `${response.message}: ${FormatUtils.describeChosenFormat(response.chosenFormat)}`
+          : response.message
+      });
+      
+      // Reset progress after a delay
+      setTimeout(() => {
+        setDownloadProgress(null);
+        setTransferProgress(null);
+      }, 3000);
+      
+      // The download should already be triggered by the service
+      if (response.downloadUrl) {
+        console.log('Download initiated:', response.downloadUrl);
+      }
+    } else if (response.cancelled) {
+      setDownloadProgress(null);
+      setTransferProgress(null);
+      setStatus({ type: 'info', message: 'Download cancelled. Partial files were removed from the server.' });
+    } else {
+      setDownloadProgress(null);
+      setTransferProgress(null);
+      setStatus({ type: 'error', message: response.message, hint: response.code && errorGuidance[response.code] });
+      // Shows the access token banner
+      if (response.code === 'unauthorized') refreshCapabilities();
+    }
+  }, [refreshCapabilities]);
+
+  // Drop options the connected backend turned out not to support
+  useEffect(() => {
+    if (!capabilities) return;
+    setOptions(prev => supportedOptions(prev, capabilities));
+    if (!capabilities.features.clips) setClip({ start: '', end: '' });
+  }, [capabilities]);
+
+  useEffect(() => {
+    setConcurrency(settings.concurrency);
+  }, [settings.concurrency, setConcurrency]);
+
+  // Pick up a download job that was still running when the page was reloaded
+  useEffect(() => {
+    const jobId = DownloadService.getActiveJobId();
+    if (resumeStarted.current || !jobId) return;
+    resumeStarted.current = true;
+
+    setIsLoading(true);
+    setStatus({ type: 'info', message: 'Resuming your previous download...' });
+    const controller = new AbortController();
+    downloadAbort.current = controller;
+
+    DownloadService.resumeDownload(setDownloadProgress, controller.signal, setTransferProgress)
+      .then(async response => {
+        if (!response) return;
+        showDownloadResult(response);
+        // The request is only known to the backend after a reload
+        const job = await DownloadService.getJob(jobId).catch(() => null);
+        if (job) HistoryService.record(job.request, response);
+      })
+      .finally(() => {
+        downloadAbort.current = null;
+        setIsLoading(false);
+      });
+  }, [showDownloadResult]);
+
+  // Steps a video preset down to the best resolution the source actually has
+  const availableQuality = (format: DownloadFormat, quality: string, info: VideoInfo | null): string => {
+    if (format !== 'video' || !info || isPresetAvailable(quality, info.formats)) return quality;
+    return offeredVideoQualities.find(preset => isPresetAvailable(preset, info.formats)) || quality;
+  };
 
   const validateUrl = (url: string): boolean => {
     return DownloadService.isValidUrl(url);
@@ -62,8 +293,46 @@ const DownloaderForm: React.FC = () => {
     
     // Clear previous video info when URL changes
     if (newUrl !== url) {
+      const parsed = parseMediaUrl(newUrl);
       setVideoInfo(null);
+      setPlaylistInfo(null);
+      setOptions(prev => ({
+        ...prev,
+        ...(prev.format === 'subtitles' ? { format: 'video', quality: settings.videoQuality } : {}),
+        // Sites such as SoundCloud only have audio
+        ...(parsed && PLATFORM_REGISTRY[parsed.platform].quirks.audioOnly && prev.format !== 'audio'
+          ? { format: 'audio', quality: settings.audioQuality }
+          : {}),
+        formatId: undefined,
+        subtitleLanguages: []
+      }));
+      // Links such as youtu.be/ID?t=30s start the clip at that time
+      const startTime = parsed && 'startTime' in parsed ? parsed.startTime : undefined;
+      setClip({ start: startTime ? DownloadService.formatDuration(startTime) : '', end: '' });
+    }
+  };
+
+  // Parses the clip inputs and checks them against the video's duration
+  const parseClip = (): { startTime?: number; endTime?: number; error?: string } => {
+    // Subtitles are always fetched for the whole video
+    if (options.format === 'subtitles') return {};
+
+    const startTime = clip.start.trim() ? DownloadService.parseDuration(clip.start) : undefined;
+    const endTime = clip.end.trim() ? DownloadService.parseDuration(clip.end) : undefined;
+    const duration = videoInfo?.durationSeconds;
+
+    if (startTime === null) return { error: 'Start time must be in h:mm:ss format' };
+    if (endTime === null) return { error: 'End time must be in h:mm:ss format' };
+    if (duration && startTime !== undefined && startTime >= duration) {
+      return { error: `Start time must be before the end of the video (${DownloadService.formatDuration(duration)})` };
+    }
+    if (duration && endTime !== undefined && endTime > duration) {
+      return { error: `End time can be at most ${DownloadService.formatDuration(duration)}` };
+    }
+    if (endTime !== undefined && endTime <= (startTime || 0)) {
+      return { error: 'End time must be after the start time' };
     }
+    return { startTime: startTime || undefined, endTime };
   };
 
   const fetchVideoInfo = async () => {
@@ -73,7 +342,7 @@ const DownloaderForm: React.FC = () => {
     }
 
     if (!validateUrl(url)) {
-      setStatus({ type: 'error', message: 'Please enter a valid YouTube or Instagram URL' });
+      setStatus({ type: 'error', message: 'Please enter a URL from one of the supported sites' });
       return;
     }
 
@@ -81,14 +350,47 @@ const DownloaderForm: React.FC = () => {
     setStatus({ type: 'info', message: 'Fetching video information...' });
 
     try {
-      const info = await DownloadService.getVideoInfo(url);
-      setVideoInfo(info);
-      setStatus({ type: 'success', message: 'Video information loaded successfully!' });
+      const { info, cached, fetchedAt } = await DownloadService.getVideoInfo(url);
+      const cacheNote = cached && fetchedAt ? ` (cached from ${new Date(fetchedAt).toLocaleTimeString()})` : '';
+      if (DownloadService.isPlaylistInfo(info)) {
+        setVideoInfo(null);
+        setPlaylistInfo(info);
+        // A video opened from a playlist preselects just that video
+        setSelectedEntryIds(info.currentVideoId && info.entries.some(entry => entry.id === info.currentVideoId)
+          ? [info.currentVideoId]
+          : info.entries.map(entry => entry.id));
+        setStatus({ type: 'success', message: `Loaded ${info.entries.length} videos${cacheNote}. Choose the ones to download.` });
+      } else {
+        setPlaylistInfo(null);
+        setVideoInfo(info);
+        setSelectedItems(info.items ? info.items.map(item => item.index) : []);
+        setOptions(prev => ({
+          ...prev,
+          quality: availableQuality(prev.format, prev.quality, info),
+          subtitleLanguages: matchingLanguages(settings.subtitleLanguages, info)
+        }));
+        setStatus({
+          type: 'success',
+          message: info.items
+            ? `Loaded a post with ${info.items.length} items${cacheNote}. Choose the ones to save.`
+            : `Video information loaded successfully${cacheNote}!`
+        });
+      }
     } catch (error: any) {
       console.error('Error fetching video info:', error);
+      const hint = error instanceof DownloadError ? errorGuidance[error.code] : undefined;
+      // Downloading would fail the same way, e.g. for a private video
+      if (error instanceof DownloadError && !error.retryable) {
+        setVideoInfo(null);
+        setPlaylistInfo(null);
+        setStatus({ type: 'error', message: error.message, hint });
+        return;
+      }
+
       setStatus({ 
         type: 'warning', 
-        message: 'Could not fetch video info from server. You can still attempt to download.' 
+        message: 'Could not fetch video info from server. You can still attempt to download.',
+        hint
       });
       
       // Set mock video info for client-side handling
@@ -99,7 +401,9 @@ const DownloaderForm: React.FC = () => {
         duration: 'Unknown',
         uploader: 'Unknown',
         platform: DownloadService.getPlatform(url) || 'youtube',
-        formats: []
+        formats: [],
+        subtitles: [],
+        chapters: []
       });
     } finally {
       setIsLoading(false);
@@ -113,114 +417,357 @@ const DownloaderForm: React.FC = () => {
     }
 
     if (!validateUrl(url)) {
-      setStatus({ type: 'error', message: 'Please enter a valid YouTube or Instagram URL' });
+      setStatus({ type: 'error', message: 'Please enter a URL from one of the supported sites' });
+      return;
+    }
+
+    if (playlistInfo) {
+      downloadPlaylist(playlistInfo);
+      return;
+    }
+
+    // Playlists and channels need their entries listed before anything can be picked
+    const parsed = parseMediaUrl(url);
+    if (parsed && (parsed.kind === 'playlist' || parsed.kind === 'channel')) {
+      return fetchVideoInfo();
+    }
+
+    const { startTime, endTime, error: clipError } = parseClip();
+    if (clipError) {
+      setStatus({ type: 'error', message: clipError });
+      return;
+    }
+
+    if (options.format === 'subtitles' && options.subtitleLanguages.length === 0) {
+      setStatus({ type: 'error', message: 'Select at least one subtitle language' });
+      return;
+    }
+
+    const postItems = videoInfo?.items;
+    if (postItems && selectedItems.length === 0) {
+      setStatus({ type: 'error', message: 'Select at least one item of the post' });
+      return;
+    }
+
+    // Browsers only show the save dialog right after a click, so it is asked
+    // for before the backend starts the download
+    let saveTarget: SaveTarget | null;
+    try {
+      saveTarget = await DownloadService.chooseSaveTarget(suggestedFilename(), expectsSeveralFiles());
+    } catch (error) {
+      setStatus({ type: 'info', message: 'Download cancelled' });
       return;
     }
 
     setIsLoading(true);
+    setUnsavedLinks([]);
     setStatus({ type: 'info', message: 'Preparing download...' });
 
     try {
       const downloadRequest: DownloadRequest = {
         url,
         format: options.format,
-        quality: options.quality
+        quality: options.quality,
+        formatId: options.formatId,
+        videoCodec: options.videoCodec,
+        container: options.container,
+        startTime,
+        endTime,
+        subtitles: options.subtitleLanguages.length > 0
+          ? { languages: options.subtitleLanguages, format: options.subtitleFormat }
+          : undefined,
+        metadata: metadataRequest(),
+        // Without a list every item of the post is saved
+        items: postItems && selectedItems.length < postItems.length ? selectedItems : undefined,
+        filenameTemplate: options.filenameTemplate.trim() || undefined
       };
 
       // Set initial downloading status
-      setDownloadProgress(10);
+      setDownloadProgress({ phase: 'extracting', percent: 0 });
+      setTransferProgress(null);
       setStatus({ type: 'info', message: 'Contacting download servers...' });
+      const controller = new AbortController();
+      downloadAbort.current = controller;
       const response = await DownloadService.downloadVideo(downloadRequest, (progress) => {
         setDownloadProgress(progress);
-      });
+      }, controller.signal, setTransferProgress, { saveTarget });
 
-      if (response.success) {
-        setDownloadProgress(100);
-        setStatus({ type: 'success', message: response.message });
-        
-        // Reset progress after a delay
-        setTimeout(() => setDownloadProgress(0), 3000);
-        
-        // The download should already be triggered by the service
-        if (response.downloadUrl) {
-          console.log('Download initiated:', response.downloadUrl);
-        }
-      } else {
-        setDownloadProgress(0);
-        setStatus({ type: 'error', message: response.message });
-      }
+      showDownloadResult(response);
+      HistoryService.record(downloadRequest, response, { videoInfo });
       
     } catch (error: any) {
       console.error('Download error:', error);
-      setDownloadProgress(0);
+      setDownloadProgress(null);
+      setTransferProgress(null);
       setStatus({ 
         type: 'error', 
-        message: error.message || 'Download failed. Please try again or use the desktop version.' 
+        message: error.message || 'Download failed. Please try again or use the desktop version.',
+        hint: error instanceof DownloadError ? errorGuidance[error.code] : undefined
       });
     } finally {
+      downloadAbort.current = null;
       setIsLoading(false);
     }
   };
 
-  const handleFormatChange = (format: 'video' | 'audio') => {
+  // Name offered in the save dialog; the backend may still pick another extension
+  const suggestedFilename = (): string => {
+    const template = options.filenameTemplate.trim() || capabilities?.filenameTemplate || DEFAULT_FILENAME_TEMPLATE;
+    const name = expandFilenameTemplate(template, {
+      title: videoInfo?.title,
+      uploader: videoInfo?.uploader,
+      id: videoInfo?.id,
+      quality: options.format === 'subtitles' ? undefined : options.quality,
+      platform: videoInfo?.platform
+    });
+    const item = videoInfo?.items?.find(postItem => selectedItems.includes(postItem.index));
+    const extension = options.format === 'audio' ? 'mp3'
+      : options.format === 'subtitles' ? (options.subtitleFormat === 'vtt' ? 'vtt' : 'srt')
+      : item ? item.ext : options.container;
+    return `${name}.${extension}`;
+  };
+
+  // Items of a post and subtitles next to the video are saved as separate files
+  const expectsSeveralFiles = (): boolean => {
+    if (videoInfo?.items && selectedItems.length > 1) return true;
+    if (options.format === 'subtitles') return options.subtitleLanguages.length > 1;
+    return options.subtitleLanguages.length > 0 && options.subtitleFormat !== 'embed';
+  };
+
+  // Queues the selected entries with the current format and quality
+  const downloadPlaylist = (playlist: PlaylistInfo) => {
+    const entries = playlist.entries.filter(entry => selectedEntryIds.includes(entry.id));
+    if (entries.length === 0) {
+      setStatus({ type: 'error', message: 'Select at least one video to download' });
+      return;
+    }
+
+    const result = queue.enqueue(entries.map(entry => ({
+      url: entry.url,
+      title: entry.title,
+      playlistIndex: playlist.entries.indexOf(entry) + 1
+    })), queueOptions());
+    setStatus({
+      type: 'success',
+      message: `Added ${result.added} videos to the download queue` +
+        (result.duplicates > 0 ? ` (${result.duplicates} already queued)` : '')
+    });
+  };
+
+  // Exact format IDs belong to one video, so queued items only get the preset
+  const queueOptions = () => ({
+    format: options.format,
+    quality: options.quality,
+    videoCodec: options.videoCodec,
+    container: options.container,
+    metadata: metadataRequest(),
+    filenameTemplate: options.filenameTemplate.trim() || undefined
+  });
+
+  // Only the options that are switched on, or nothing at all
+  const metadataRequest = (): MetadataOptions | undefined => {
+    const enabled = (Object.keys(options.metadata) as Array<keyof MetadataOptions>)
+      .filter(key => options.metadata[key] && (key !== 'coverArt' || coverArtSupported));
+    if (enabled.length === 0) return undefined;
+    return enabled.reduce<MetadataOptions>((metadata, key) => ({ ...metadata, [key]: true }), {});
+  };
+
+  const toggleMetadata = (key: keyof MetadataOptions) => {
+    setOptions(prev => ({ ...prev, metadata: { ...prev.metadata, [key]: !prev.metadata[key] } }));
+  };
+
+  const addBulkUrls = (entries: QueueEntry[]) => {
+    const result = queue.enqueue(entries, queueOptions());
+    if (result.added > 0) {
+      setStatus({ type: 'success', message: `Added ${result.added} URLs to the download queue` });
+    } else if (result.invalid.length > 0) {
+      setStatus({ type: 'error', message: 'None of the URLs are from supported sites' });
+    }
+    return result;
+  };
+
+  const cancelDownload = () => {
+    if (!downloadAbort.current) return;
+    setStatus({ type: 'info', message: 'Cancelling download...' });
+    downloadAbort.current.abort();
+  };
+
+  const handleFormatChange = (format: DownloadFormat) => {
     setOptions(prev => ({
       ...prev,
       format,
-      quality: format === 'video' ? '1080p' : '192kbps'
+      quality: availableQuality(format, format === 'audio' ? settings.audioQuality : settings.videoQuality, videoInfo),
+      formatId: undefined,
+      // Only video downloads can carry embedded subtitles
+      subtitleFormat: format !== 'video' && prev.subtitleFormat === 'embed' ? separateSubtitleFormat : prev.subtitleFormat
     }));
   };
 
+  const switchMode = (newMode: 'single' | 'bulk' | 'history' | 'settings') => {
+    setMode(newMode);
+    if (newMode === 'settings') settingsOnOpen.current = settings;
+    // Changed defaults replace the options picked so far
+    if (mode === 'settings' && settingsOnOpen.current !== settings) {
+      const defaults = defaultOptions(settings, audioOnlyPlatform ? 'audio' : settings.format);
+      setOptions(supportedOptions({
+        ...defaults,
+        quality: availableQuality(defaults.format, defaults.quality, videoInfo),
+        subtitleLanguages: videoInfo ? matchingLanguages(settings.subtitleLanguages, videoInfo) : []
+      }, capabilities));
+      return;
+    }
+    // Subtitle tracks come from the loaded video, so bulk mode has none to pick
+    if (newMode === 'bulk' && options.format === 'subtitles') handleFormatChange('video');
+  };
+
+  // Queues a history entry again with exactly the settings it was downloaded with
+  const redownload = (entry: HistoryEntry) => {
+    const { url: entryUrl, ...request } = entry.request;
+    const result = queue.enqueue([{ url: entryUrl, title: entry.title }], request);
+    setStatus(result.added > 0
+      ? { type: 'success', message: `Added "${entry.title}" to the download queue` }
+      : { type: 'info', message: `"${entry.title}" is already in the download queue` });
+  };
+
+  const saveAccessToken = (token: string) => {
+    DownloadService.setAccessToken(token);
+    setStatus({ type: null, message: '' });
+    refreshCapabilities();
+  };
+
   const clearForm = () => {
     setUrl('');
+    setClip({ start: '', end: '' });
     setVideoInfo(null);
+    setPlaylistInfo(null);
     setStatus({ type: null, message: '' });
-    setOptions({ format: 'video', quality: '1080p' });
+    setServerCopy(null);
+    setOptions(supportedOptions(defaultOptions(settings), capabilities));
   };
 
+  const clipError = parseClip().error;
+  const templateError = options.filenameTemplate.trim() ? checkFilenameTemplate(options.filenameTemplate) : null;
+  const serverCopyMinutes = serverCopy && Math.floor((new Date(serverCopy.expiresAt).getTime() - now) / 60000);
+  const subtitleTracks = mode === 'single' && videoInfo ? videoInfo.subtitles : [];
+  const chapterCount = mode === 'single' && videoInfo ? videoInfo.chapters.length : undefined;
+
   return (
     <div className="downloader-container">
-      {/* URL Input Section */}
-      <div className="input-section">
-        <label className="input-label">
-          Video URL
-          <span className="platform-support">
-            {supportedPlatforms.map(platform => (
-              <span key={platform.name} className="platform-badge">
-                {platform.icon} {platform.name}
-              </span>
-            ))}
-          </span>
-        </label>
-        <div className="url-input-group">
-          <input
-            type="text"
-            className="url-input"
-            placeholder="Paste YouTube or Instagram URL here..."
-            value={url}
-            onChange={handleUrlChange}
-            disabled={isLoading}
-          />
-          <button 
-            className="info-button"
-            onClick={fetchVideoInfo}
-            disabled={isLoading || !url.trim()}
-            title="Get video information"
-          >
-            {isLoading ? '⏳' : '📋'}
-          </button>
-          <button 
-            className="clear-button"
-            onClick={clearForm}
-            disabled={isLoading}
-            title="Clear form"
-          >
-            🗑️
+      {/* Backend Status */}
+      {backendError?.code === 'unauthorized' ? (
+        <div className="status-message status-error backend-banner">
+          <div className="status-icon">🔒</div>
+          <div className="status-text">
+            <AccessTokenPrompt
+              rejected={!!DownloadService.getAccessToken()}
+              onSave={saveAccessToken}
+              disabled={checkingBackend}
+            />
+          </div>
+        </div>
+      ) : backendError ? (
+        <div className="status-message status-error backend-banner">
+          <div className="status-icon">🔌</div>
+          <div className="status-text">
+            {backendError.code === 'network'
+              ? 'The download server is unreachable. Downloads will fail until it is back.'
+              : `Could not check what the download server supports: ${backendError.message}`}
+            {errorGuidance[backendError.code] && <div className="status-hint">💡 {errorGuidance[backendError.code]}</div>}
+          </div>
+          <button className="banner-button" onClick={refreshCapabilities} disabled={checkingBackend}>
+            {checkingBackend ? '⏳' : '🔄 Retry'}
           </button>
         </div>
+      ) : capabilities?.status === 'degraded' && (
+        <div className="status-message status-warning backend-banner">
+          <div className="status-icon">⚠️</div>
+          <div className="status-text">
+            The download server is running with reduced features:
+            <ul>
+              {capabilities.problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Mode Switch */}
+      <div className="format-buttons mode-switch">
+        <button
+          className={`format-btn ${mode === 'single' ? 'active' : ''}`}
+          onClick={() => switchMode('single')}
+        >
+          🔗 Single URL
+        </button>
+        <button
+          className={`format-btn ${mode === 'bulk' ? 'active' : ''}`}
+          onClick={() => switchMode('bulk')}
+        >
+          📚 Bulk URLs
+        </button>
+        <button
+          className={`format-btn ${mode === 'history' ? 'active' : ''}`}
+          onClick={() => switchMode('history')}
+        >
+          🕘 History
+        </button>
+        <button
+          className={`format-btn ${mode === 'settings' ? 'active' : ''}`}
+          onClick={() => switchMode('settings')}
+        >
+          ⚙️ Settings
+        </button>
       </div>
 
+      {/* URL Input Section */}
+      {mode === 'single' ? (
+        <div className="input-section">
+          <label className="input-label">
+            Video URL
+            <span className="platform-support">
+              {platformBadges.map(badge => (
+                <span key={badge.name} className="platform-badge">
+                  {badge.icon} {badge.name}
+                </span>
+              ))}
+            </span>
+          </label>
+          <div className="url-input-group">
+            <input
+              type="text"
+              className="url-input"
+              placeholder="Paste a video URL here..."
+              value={url}
+              onChange={handleUrlChange}
+              disabled={isLoading}
+            />
+            <button 
+              className="info-button"
+              onClick={fetchVideoInfo}
+              disabled={isLoading || !url.trim()}
+              title="Get video information"
+            >
+              {isLoading ? '⏳' : '📋'}
+            </button>
+            <button 
+              className="clear-button"
+              onClick={clearForm}
+              disabled={isLoading}
+              title="Clear form"
+            >
+              🗑️
+            </button>
+          </div>
+        </div>
+      ) : mode === 'bulk' ? (
+        <BulkUrlInput onAdd={addBulkUrls} disabled={isLoading || !!templateError} />
+      ) : mode === 'history' ? (
+        <HistoryPanel onRedownload={redownload} disabled={isLoading} />
+      ) : (
+        <SettingsPanel />
+      )}
+
       {/* Video Info Preview */}
-      {videoInfo && (
+      {mode === 'single' && videoInfo && (
         <div className="video-preview">
           <div className="video-thumbnail">
             <img 
@@ -231,8 +778,8 @@ const DownloaderForm: React.FC = () => {
               }}
             />
             <div className="platform-badge-overlay">
-              {videoInfo.platform === 'youtube' ? '🎥' : '📸'} 
-              {videoInfo.platform.toUpperCase()}
+              {PLATFORM_REGISTRY[videoInfo.platform].icon} 
+              {PLATFORM_REGISTRY[videoInfo.platform].name.toUpperCase()}
             </div>
           </div>
           <div className="video-details">
@@ -241,72 +788,313 @@ const DownloaderForm: React.FC = () => {
               <span>👤 {videoInfo.uploader}</span>
               <span>⏱️ {videoInfo.duration}</span>
             </div>
+            {!!maxDuration && !!videoInfo.durationSeconds && videoInfo.durationSeconds > maxDuration && (
+              <div className="clip-error">
+                ⛔ Longer than this server allows ({DownloadService.formatDuration(maxDuration)}){clipsSupported && '. Download a clip instead.'}
+              </div>
+            )}
           </div>
         </div>
       )}
 
+      {/* Post Items */}
+      {mode === 'single' && videoInfo?.items && (
+        <MediaItemPicker
+          items={videoInfo.items}
+          selected={selectedItems}
+          onChange={setSelectedItems}
+          disabled={isLoading}
+        />
+      )}
+
+      {/* Playlist Entries */}
+      {mode === 'single' && playlistInfo && (
+        <PlaylistPicker
+          playlist={playlistInfo}
+          selectedIds={selectedEntryIds}
+          onChange={setSelectedEntryIds}
+          disabled={isLoading}
+        />
+      )}
+
       {/* Download Options */}
-      <div className="options-section">
-        <div className="option-group">
-          <div className="option-title">📥 Download Format</div>
-          <div className="format-buttons">
-            <button
-              className={`format-btn ${options.format === 'video' ? 'active' : ''}`}
-              onClick={() => handleFormatChange('video')}
-              disabled={isLoading}
-            >
-              🎬 Video (MP4)
-            </button>
-            <button
-              className={`format-btn ${options.format === 'audio' ? 'active' : ''}`}
-              onClick={() => handleFormatChange('audio')}
+      {(mode === 'single' || mode === 'bulk') && (
+        <div className="options-section">
+          <div className="option-group">
+            <div className="option-title">📥 Download Format</div>
+            <div className="format-buttons">
+              <button
+                className={`format-btn ${options.format === 'video' ? 'active' : ''}`}
+                onClick={() => handleFormatChange('video')}
+                disabled={isLoading || !!audioOnlyPlatform}
+                title={audioOnlyPlatform && `${audioOnlyPlatform.name} only has audio`}
+              >
+                🎬 Video
+              </button>
+              <button
+                className={`format-btn ${options.format === 'audio' ? 'active' : ''}`}
+                onClick={() => handleFormatChange('audio')}
+                disabled={isLoading || !supportedFormats.includes('audio')}
+                title={supportedFormats.includes('audio') ? undefined : 'Not available on this server'}
+              >
+                🎵 Audio (MP3)
+              </button>
+              <button
+                className={`format-btn ${options.format === 'subtitles' ? 'active' : ''}`}
+                onClick={() => handleFormatChange('subtitles')}
+                disabled={isLoading || !subtitleTracks.length || !supportedFormats.includes('subtitles') || !!audioOnlyPlatform}
+                title={!supportedFormats.includes('subtitles')
+                  ? 'Not available on this server'
+                  : subtitleTracks.length ? undefined : 'Load a video with subtitles first'}
+              >
+                📝 Subtitles
+              </button>
+            </div>
+          </div>
+
+          {options.format !== 'subtitles' && (
+            <div className="option-group">
+              <div className="option-title">⚙️ Quality</div>
+              <QualityPicker
+                format={options.format}
+                presets={options.format === 'video' ? offeredVideoQualities : AUDIO_QUALITIES}
+                formats={mode === 'single' && videoInfo ? videoInfo.formats : []}
+                durationSeconds={videoInfo?.durationSeconds}
+                quality={options.quality}
+                formatId={mode === 'single' ? options.formatId : undefined}
+                onChange={(quality, formatId) => setOptions(prev => ({ ...prev, quality, formatId }))}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
+          {subtitleTracks.length > 0 && (
+            <div className="option-group subtitle-options">
+              <div className="option-title">
+                💬 Subtitles {options.format !== 'subtitles' && '(optional)'}
+              </div>
+              <SubtitlePicker
+                tracks={subtitleTracks}
+                languages={options.subtitleLanguages}
+                onLanguagesChange={(subtitleLanguages) => setOptions(prev => ({ ...prev, subtitleLanguages }))}
+                subtitleFormat={options.subtitleFormat}
+                onFormatChange={(subtitleFormat) => setOptions(prev => ({ ...prev, subtitleFormat }))}
+                allowEmbed={options.format === 'video' && options.container !== 'webm'}
+                supportedFormats={supportedSubtitleFormats}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
+          {options.format === 'video' && (
+            <div className="option-group format-preferences">
+              <div className="option-title">🎞️ Codec & Container</div>
+              <div className="format-preference-fields">
+                <select
+                  className="quality-selector"
+                  value={options.videoCodec || ''}
+                  onChange={(e) => setOptions(prev => ({ ...prev, videoCodec: (e.target.value || undefined) as VideoCodec | undefined }))}
+                  disabled={isLoading || !!options.formatId}
+                >
+                  <option value="">Any codec</option>
+                  {supportedCodecs.map(codec => (
+                    <option key={codec} value={codec}>{codecLabels[codec]}</option>
+                  ))}
+                </select>
+                <select
+                  className="quality-selector"
+                  value={options.container}
+                  onChange={(e) => {
+                    const container = e.target.value as Container;
+                    setOptions(prev => ({
+                      ...prev,
+                      container,
+                      subtitleFormat: container === 'webm' && prev.subtitleFormat === 'embed' ? separateSubtitleFormat : prev.subtitleFormat
+                    }));
+                  }}
+                  disabled={isLoading}
+                >
+                  {supportedContainers.map(container => (
+                    <option key={container} value={container}>{container.toUpperCase()}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {mode === 'single' && !playlistInfo && options.format !== 'subtitles' && clipsSupported && (
+            <div className="option-group clip-options">
+              <div className="option-title">✂️ Clip (optional)</div>
+              <div className="clip-fields">
+                <label>
+                  Start
+                  <input
+                    type="text"
+                    className="url-input clip-input"
+                    placeholder="0:00"
+                    value={clip.start}
+                    onChange={(e) => setClip(prev => ({ ...prev, start: e.target.value }))}
+                    disabled={isLoading}
+                  />
+                </label>
+                <label>
+                  End
+                  <input
+                    type="text"
+                    className="url-input clip-input"
+                    placeholder={videoInfo?.durationSeconds ? DownloadService.formatDuration(videoInfo.durationSeconds) : 'End of video'}
+                    value={clip.end}
+                    onChange={(e) => setClip(prev => ({ ...prev, end: e.target.value }))}
+                    disabled={isLoading}
+                  />
+                </label>
+              </div>
+              {clipError && <div className="clip-error">{clipError}</div>}
+            </div>
+          )}
+
+          {options.format !== 'subtitles' && metadataSupported && (
+            <div className="option-group metadata-options">
+              <div className="option-title">🏷️ Embed Metadata</div>
+              <div className="metadata-fields">
+                <label className="metadata-toggle">
+                  <input
+                    type="checkbox"
+                    checked={!!options.metadata.tags}
+                    onChange={() => toggleMetadata('tags')}
+                    disabled={isLoading}
+                  />
+                  Title, artist, date & source URL
+                </label>
+                <label className="metadata-toggle">
+                  <input
+                    type="checkbox"
+                    checked={!!options.metadata.coverArt && coverArtSupported}
+                    onChange={() => toggleMetadata('coverArt')}
+                    disabled={isLoading || !coverArtSupported}
+                  />
+                  Cover art {!coverArtSupported && '(not supported in WebM)'}
+                </label>
+                <label className="metadata-toggle">
+                  <input
+                    type="checkbox"
+                    checked={!!options.metadata.chapters}
+                    onChange={() => toggleMetadata('chapters')}
+                    disabled={isLoading}
+                  />
+                  Chapters {chapterCount !== undefined && `(${chapterCount === 0 ? 'none in this video' : chapterCount})`}
+                </label>
+              </div>
+            </div>
+          )}
+
+          <div className="option-group filename-options">
+            <div className="option-title">📄 File Name</div>
+            <input
+              type="text"
+              className="url-input filename-input"
+              placeholder={capabilities?.filenameTemplate || DEFAULT_FILENAME_TEMPLATE}
+              value={options.filenameTemplate}
+              onChange={(e) => setOptions(prev => ({ ...prev, filenameTemplate: e.target.value }))}
               disabled={isLoading}
-            >
-              🎵 Audio (MP3)
-            </button>
+            />
+            <div className="filename-tokens">
+              {FILENAME_TOKENS.map(token => <code key={token}>{`{${token}}`}</code>)}
+            </div>
+            {templateError && <div className="clip-error">{templateError}</div>}
           </div>
         </div>
+      )}
 
-        <div className="option-group">
-          <div className="option-title">⚙️ Quality</div>
-          <select
-            className="quality-selector"
-            value={options.quality}
-            onChange={(e) => setOptions(prev => ({ ...prev, quality: e.target.value }))}
-            disabled={isLoading}
+      {/* Download Button */}
+      {mode === 'single' && (
+        <>
+          <button
+            className={`download-button ${isLoading ? 'loading' : ''}`}
+            onClick={handleDownload}
+            disabled={isLoading || !url.trim() || (!!playlistInfo && selectedEntryIds.length === 0) || (!playlistInfo && !!clipError) || !!templateError}
           >
-            {(options.format === 'video' ? videoQualities : audioQualities).map(quality => (
-              <option key={quality} value={quality}>
-                {quality}
-              </option>
-            ))}
-          </select>
-        </div>
-      </div>
+            {isLoading && <div className="loading-spinner"></div>}
+            {isLoading
+              ? 'Processing...'
+              : playlistInfo
+                ? `📥 Download ${selectedEntryIds.length} Selected`
+                : `📥 Download ${formatLabels[options.format]}`}
+          </button>
 
-      {/* Download Button */}
-      <button
-        className={`download-button ${isLoading ? 'loading' : ''}`}
-        onClick={handleDownload}
-        disabled={isLoading || !url.trim()}
-      >
-        {isLoading && <div className="loading-spinner"></div>}
-        {isLoading ? 'Processing...' : `📥 Download ${options.format === 'video' ? 'Video' : 'Audio'}`}
-      </button>
-
-      {/* Download Progress Bar */}
-      {downloadProgress > 0 && (
-        <div className="progress-container">
-          <div className="progress-bar">
-            <div 
-              className="progress-fill" 
-              style={{ width: `${downloadProgress}%` }}
-            ></div>
-          </div>
-          <div className="progress-text">{downloadProgress}%</div>
-        </div>
+          {isLoading && downloadProgress && (
+            <button
+              className="cancel-button"
+              onClick={cancelDownload}
+              title="Stop this download"
+            >
+              ⏹️ Cancel Download
+            </button>
+          )}
+
+          {/* Download Progress Bar */}
+          {downloadProgress && (
+            <div className="progress-container">
+              <div className="progress-bar">
+                <div 
+                  className="progress-fill" 
+                  style={{ width: `${downloadProgress.percent}%` }}
+                ></div>
+              </div>
+              <div className="progress-text">{downloadProgress.percent.toFixed(1)}%</div>
+              <div className="progress-details">
+                <span>{phaseLabels[downloadProgress.phase]}</span>
+                {downloadProgress.phase === 'queued' && !!downloadProgress.queuePosition && (
+                  <span>#{downloadProgress.queuePosition} in line</span>
+                )}
+                {downloadProgress.phase === 'queued' && !!downloadProgress.estimatedWaitSeconds && (
+                  <span>⏱️ about {DownloadService.formatDuration(downloadProgress.estimatedWaitSeconds)} to wait</span>
+                )}
+                {downloadProgress.phase === 'downloading' && !!downloadProgress.totalBytes && (
+                  <span>
+                    {DownloadService.formatFileSize(downloadProgress.downloadedBytes)} / {DownloadService.formatFileSize(downloadProgress.totalBytes)}
+                  </span>
+                )}
+                {downloadProgress.phase === 'downloading' && !!downloadProgress.speed && (
+                  <span>🚀 {DownloadService.formatFileSize(downloadProgress.speed)}/s</span>
+                )}
+                {downloadProgress.phase === 'downloading' && !!downloadProgress.eta && (
+                  <span>⏱️ {DownloadService.formatDuration(downloadProgress.eta)} left</span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {transferProgress && (
+            <div className="progress-container transfer-progress">
+              <div className="progress-bar">
+                <div
+                  className="progress-fill"
+                  style={{ width: `${transferProgress.percent}%` }}
+                ></div>
+              </div>
+              <div className="progress-text">{transferProgress.percent.toFixed(1)}%</div>
+              <div className="progress-details">
+                <span title={transferProgress.filename}>📲 Saving to this device</span>
+                <span>
+                  {DownloadService.formatFileSize(transferProgress.receivedBytes)}
+                  {!!transferProgress.totalBytes && ` / ${DownloadService.formatFileSize(transferProgress.totalBytes)}`}
+                </span>
+                {!!transferProgress.speed && (
+                  <span>🚀 {DownloadService.formatFileSize(transferProgress.speed)}/s</span>
+                )}
+                {transferProgress.retries > 0 && (
+                  <span>🔁 Resumed {transferProgress.retries}×</span>
+                )}
+              </div>
+            </div>
+          )}
+        </>
       )}
 
+      {/* Download Queue */}
+      <QueuePanel queue={queue} />
+
       {/* Status Message */}
       {status.type && (
         <div className={`status-message status-${status.type}`}>
@@ -316,7 +1104,47 @@ const DownloaderForm: React.FC = () => {
             {status.type === 'warning' && '⚠️'}
             {status.type === 'info' && 'ℹ️'}
           </div>
-          <div className="status-text">{status.message}</div>
+          <div className="status-text">
+            {status.message}
+            {status.hint && <div className="status-hint">💡 {status.hint}</div>}
+          </div>
+        </div>
+      )}
+
+      {/* Files that need a click to be saved */}
+      {unsavedLinks.length > 0 && (
+        <div className="unsaved-links">
+          💾 Your browser saves one file at a time. Click to save the others:
+          <ul>
+            {unsavedLinks.map(link => (
+              <li key={link.url}>
+                <a
+                  href={link.url}
+                  download={link.filename}
+                  onClick={() => setUnsavedLinks(prev => prev.filter(unsaved => unsaved !== link))}
+                >
+                  {link.filename}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Server Copy */}
+      {serverCopy && serverCopyMinutes !== null && (
+        <div className={`server-copy ${serverCopyMinutes < EXPIRY_WARNING_MINUTES ? 'expiring' : ''}`}>
+          {serverCopyMinutes < 0 ? (
+            '⌛ The server copy has expired. Download again to get a new link.'
+          ) : serverCopyMinutes < EXPIRY_WARNING_MINUTES ? (
+            <>
+              ⚠️ The <a href={serverCopy.url}>server copy</a> is deleted in {serverCopyMinutes < 1 ? 'less than a minute' : `${serverCopyMinutes} min`}. Save it again now if you need another copy.
+            </>
+          ) : (
+            <>
+              🔗 The <a href={serverCopy.url}>server copy</a> stays available until {new Date(serverCopy.expiresAt).toLocaleTimeString()}.
+            </>
+          )}
         </div>
       )}
 
@@ -327,6 +1155,7 @@ const DownloaderForm: React.FC = () => {
           <ul>
             <li>✅ YouTube video & audio downloads</li>
             <li>✅ Instagram content support</li>
+            <li>✅ TikTok, Vimeo, X, Reddit, Facebook and SoundCloud</li>
             <li>✅ Multiple quality options</li>
             <li>✅ Mobile-friendly design</li>
             <li>✅ No registration required</li>
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { DownloadFormat, DownloadRequest } from '../services/downloadService';
+import { HistoryEntry, HistoryOutcome } from '../services/historyService';
+import { Platform } from '../shared/mediaUrl.mjs';
+import { PLATFORM_REGISTRY, PLATFORMS } from '../shared/platforms.mjs';
+import { useDownloadHistory } from '../hooks/useDownloadHistory';
+import { FormatUtils } from '../utils/formats';
+
+interface HistoryPanelProps {
+  onRedownload: (entry: HistoryEntry) => void;
+  disabled?: boolean;
+}
+
+const outcomeIcons: Record<HistoryOutcome, string> = {
+  done: '✅',
+  failed: '❌',
+  cancelled: '⏹️'
+};
+
+const formatLabels: Record<DownloadFormat, string> = {
+  video: '🎬 Video',
+  audio: '🎵 Audio',
+  subtitles: '📝 Subtitles'
+};
+
+// "1080p (VP9, MKV)", "format 137" or "en, de (SRT)"
+const describeRequest = (request: DownloadRequest): string => {
+  if (request.format === 'subtitles') {
+    return `${request.subtitles?.languages.join(', ')} (${request.subtitles?.format.toUpperCase()})`;
+  }
+  const preferences = [request.videoCodec, request.format === 'video' ? request.container : undefined]
+    .filter(Boolean)
+    .map(value => value!.toUpperCase());
+  const quality = request.formatId ? `format ${request.formatId}` : request.quality;
+  return preferences.length > 0 ? `${quality} (${preferences.join(', ')})` : quality;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onRedownload, disabled }) => {
+  const { entries, isLoading, error, remove, clear } = useDownloadHistory();
+  const [search, setSearch] = useState('');
+  const [platform, setPlatform] = useState<Platform | 'all'>('all');
+  const [format, setFormat] = useState<DownloadFormat | 'all'>('all');
+
+  const query = search.trim().toLowerCase();
+  const visibleEntries = entries.filter(entry =>
+    (platform === 'all' || entry.platform === platform)
+    && (format === 'all' || entry.request.format === format)
+    && (!query || [entry.title, entry.request.url, entry.videoInfo?.uploader, entry.filename]
+      .some(value => value?.toLowerCase().includes(query))));
+
+  const clearHistory = () => {
+    if (window.confirm('Delete the whole download history? Downloaded files are not affected.')) {
+      clear();
+    }
+  };
+
+  return (
+    <div className="history-panel">
+      <div className="history-controls">
+        <input
+          type="search"
+          className="url-input history-search"
+          placeholder="Search title, uploader, URL or file name..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <select className="queue-select history-filter" value={platform} onChange={(e) => setPlatform(e.target.value as Platform | 'all')}>
+          <option value="all">All platforms</option>
+          {PLATFORMS.map(value => (
+            <option key={value} value={value}>{PLATFORM_REGISTRY[value].name}</option>
+          ))}
+        </select>
+        <select className="queue-select history-filter" value={format} onChange={(e) => setFormat(e.target.value as DownloadFormat | 'all')}>
+          <option value="all">All formats</option>
+          {(Object.keys(formatLabels) as DownloadFormat[]).map(value => (
+            <option key={value} value={value}>{formatLabels[value]}</option>
+          ))}
+        </select>
+        <button className="queue-btn" onClick={clearHistory} disabled={entries.length === 0}>
+          🗑️ Clear history
+        </button>
+      </div>
+
+      {error && <div className="status-message status-error">{error}</div>}
+
+      {!isLoading && !error && visibleEntries.length === 0 && (
+        <div className="history-empty">
+          {entries.length === 0 ? 'Nothing downloaded yet.' : 'No downloads match your filters.'}
+        </div>
+      )}
+
+      <ul className="history-entries">
+        {visibleEntries.map(entry => (
+          <li key={entry.id} className={`history-entry ${entry.outcome}`}>
+            <img
+              src={entry.videoInfo?.thumbnail || '/logo192.svg'}
+              alt=""
+              onError={(e) => {
+                (e.target as HTMLImageElement).src = '/logo192.svg';
+              }}
+            />
+            <div className="history-details">
+              <div className="history-title" title={entry.request.url}>
+                {outcomeIcons[entry.outcome]} {entry.title}
+              </div>
+              <div className="video-meta">
+                <span>🕘 {new Date(entry.timestamp).toLocaleString()}</span>
+                {entry.platform && <span>{PLATFORM_REGISTRY[entry.platform].name}</span>}
+                <span>{formatLabels[entry.request.format]} • {describeRequest(entry.request)}</span>
+                {entry.chosenFormat && <span>🎞️ {FormatUtils.describeChosenFormat(entry.chosenFormat)}</span>}
+              </div>
+              {entry.filename && <div className="history-filename">{entry.filename}</div>}
+              {entry.message && <div className="queue-item-error">{entry.message}</div>}
+            </div>
+            <div className="history-actions">
+              <button
+                className="queue-btn"
+                onClick={() => onRedownload(entry)}
+                disabled={disabled}
+                title="Download again with the same settings"
+              >
+                🔁
+              </button>
+              <button
+                className="queue-btn"
+                onClick={() => entry.id !== undefined && remove(entry.id)}
+                title="Remove from history"
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryPanel;
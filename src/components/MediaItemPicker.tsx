@@ -0,0 +1,78 @@
+import React from 'react';
+import { MediaItem } from '../services/downloadService';
+
+interface MediaItemPickerProps {
+  items: MediaItem[];
+  /** 1-based item indexes, in post order */
+  selected: number[];
+  onChange: (selected: number[]) => void;
+  disabled?: boolean;
+}
+
+const MediaItemPicker: React.FC<MediaItemPickerProps> = ({ items, selected, onChange, disabled }) => {
+  const allSelected = items.length > 0 && selected.length === items.length;
+  const imageCount = items.filter(item => item.kind === 'image').length;
+
+  const toggleAll = () => {
+    onChange(allSelected ? [] : items.map(item => item.index));
+  };
+
+  const toggleItem = (index: number) => {
+    onChange(selected.includes(index)
+      ? selected.filter(picked => picked !== index)
+      : items.filter(item => item.index === index || selected.includes(item.index)).map(item => item.index));
+  };
+
+  return (
+    <div className="media-item-picker">
+      <div className="playlist-header">
+        <div className="video-meta">
+          <span>🖼️ {imageCount} {imageCount === 1 ? 'image' : 'images'}</span>
+          <span>🎬 {items.length - imageCount} {items.length - imageCount === 1 ? 'video' : 'videos'}</span>
+        </div>
+        <label className="playlist-select-all">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            disabled={disabled}
+          />
+          Save all ({selected.length}/{items.length})
+        </label>
+      </div>
+
+      <ul className="media-items">
+        {items.map(item => (
+          <li key={item.index} className={`media-item ${selected.includes(item.index) ? 'selected' : ''}`}>
+            <label>
+              <input
+                type="checkbox"
+                checked={selected.includes(item.index)}
+                onChange={() => toggleItem(item.index)}
+                disabled={disabled}
+              />
+              <img
+                src={item.thumbnail || '/logo192.svg'}
+                alt={`Item ${item.index}`}
+                onError={(e) => {
+                  (e.target as HTMLImageElement).src = '/logo192.svg';
+                }}
+              />
+              <span className="media-item-kind">
+                {item.kind === 'image' ? '🖼️' : '🎬'} {item.index}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {imageCount > 0 && (
+        <div className="media-item-note">
+          🖼️ Images are saved as they are, such as JPG, whatever format is picked below.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaItemPicker;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { PlaylistInfo } from '../services/downloadService';
+
+interface PlaylistPickerProps {
+  playlist: PlaylistInfo;
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  disabled?: boolean;
+}
+
+const PlaylistPicker: React.FC<PlaylistPickerProps> = ({ playlist, selectedIds, onChange, disabled }) => {
+  const allSelected = playlist.entries.length > 0 && selectedIds.length === playlist.entries.length;
+
+  const toggleAll = () => {
+    onChange(allSelected ? [] : playlist.entries.map(entry => entry.id));
+  };
+
+  const toggleEntry = (id: string) => {
+    onChange(selectedIds.includes(id)
+      ? selectedIds.filter(selectedId => selectedId !== id)
+      // Keep the playlist order so items are queued top to bottom
+      : playlist.entries.filter(entry => entry.id === id || selectedIds.includes(entry.id)).map(entry => entry.id));
+  };
+
+  return (
+    <div className="playlist-picker">
+      <div className="playlist-header">
+        <div>
+          <h3 className="video-title">
+            {playlist.kind === 'channel' ? '📺' : '📃'} {playlist.title}
+          </h3>
+          <div className="video-meta">
+            <span>👤 {playlist.uploader}</span>
+            <span>🎬 {playlist.entries.length} videos</span>
+          </div>
+        </div>
+        <label className="playlist-select-all">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            disabled={disabled || playlist.entries.length === 0}
+          />
+          Select all ({selectedIds.length}/{playlist.entries.length})
+        </label>
+      </div>
+
+      <ul className="playlist-entries">
+        {playlist.entries.map((entry, index) => (
+          <li
+            key={entry.id}
+            className={`playlist-entry ${entry.id === playlist.currentVideoId ? 'current' : ''}`}
+          >
+            <label>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(entry.id)}
+                onChange={() => toggleEntry(entry.id)}
+                disabled={disabled}
+              />
+              <span className="playlist-index">{index + 1}</span>
+              <img
+                src={entry.thumbnail || '/logo192.svg'}
+                alt=""
+                onError={(e) => {
+                  (e.target as HTMLImageElement).src = '/logo192.svg';
+                }}
+              />
+              <span className="playlist-entry-title">{entry.title}</span>
+              <span className="playlist-entry-duration">{entry.duration}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PlaylistPicker;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { VideoFormat } from '../services/downloadService';
+import { FormatUtils } from '../utils/formats';
+import { presetHeight } from '../shared/formatSelector.mjs';
+
+interface QualityPickerProps {
+  format: 'video' | 'audio';
+  presets: string[];
+  /** Formats reported for the loaded video; empty until info is fetched */
+  formats: VideoFormat[];
+  durationSeconds?: number;
+  quality: string;
+  formatId?: string;
+  onChange: (quality: string, formatId?: string) => void;
+  disabled?: boolean;
+}
+
+const PRESET_PREFIX = 'preset:';
+const FORMAT_PREFIX = 'format:';
+
+/**
+ * Returns whether a preset can be satisfied by the source. Presets above the
+ * highest available resolution would silently fall back to a lower one.
+ */
+export const isPresetAvailable = (preset: string, formats: VideoFormat[]): boolean => {
+  const height = presetHeight(preset);
+  const maxHeight = FormatUtils.maxHeight(formats);
+  return height === null || maxHeight === 0 || height <= maxHeight;
+};
+
+const QualityPicker: React.FC<QualityPickerProps> = ({
+  format,
+  presets,
+  formats,
+  durationSeconds,
+  quality,
+  formatId,
+  onChange,
+  disabled
+}) => {
+  const groups = format === 'video'
+    ? FormatUtils.videoGroups(formats, durationSeconds)
+    : FormatUtils.audioGroups(formats, durationSeconds);
+
+  const handleChange = (value: string) => {
+    if (value.startsWith(FORMAT_PREFIX)) {
+      onChange(quality, value.slice(FORMAT_PREFIX.length));
+    } else {
+      onChange(value.slice(PRESET_PREFIX.length));
+    }
+  };
+
+  return (
+    <select
+      className="quality-selector"
+      value={formatId ? `${FORMAT_PREFIX}${formatId}` : `${PRESET_PREFIX}${quality}`}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={disabled}
+    >
+      <optgroup label={format === 'video' ? 'Best available up to' : 'Best available'}>
+        {presets.map(preset => (
+          <option
+            key={preset}
+            value={`${PRESET_PREFIX}${preset}`}
+            disabled={format === 'video' && !isPresetAvailable(preset, formats)}
+          >
+            {preset}
+          </option>
+        ))}
+      </optgroup>
+      {groups.map(group => (
+        <optgroup key={group.label} label={group.label}>
+          {group.choices.map(choice => (
+            <option key={choice.formatId} value={`${FORMAT_PREFIX}${choice.formatId}`}>
+              {choice.label} · {FormatUtils.formatSize(choice)}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
+export default QualityPicker;
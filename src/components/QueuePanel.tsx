@@ -0,0 +1,117 @@
+import React from 'react';
+import { DownloadQueue, QueueItemStatus } from '../hooks/useDownloadQueue';
+import { DownloadFormat } from '../services/downloadService';
+import { CONCURRENCY_OPTIONS, SettingsService } from '../services/settingsService';
+
+interface QueuePanelProps {
+  queue: DownloadQueue;
+}
+
+const statusIcons: Record<QueueItemStatus, string> = {
+  pending: '⏳',
+  downloading: '⬇️',
+  done: '✅',
+  failed: '❌',
+  cancelled: '⏹️'
+};
+
+const formatIcons: Record<DownloadFormat, string> = {
+  video: '🎬',
+  audio: '🎵',
+  subtitles: '📝'
+};
+
+// Only browsers with the File System Access API can write into a folder
+const canPickFolder = 'showDirectoryPicker' in window;
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ queue }) => {
+  const { items } = queue;
+  if (items.length === 0) return null;
+
+  const count = (status: QueueItemStatus) => items.filter(item => item.status === status).length;
+
+  return (
+    <div className="queue-panel">
+      <div className="queue-header">
+        <div className="option-title">
+          📋 Download Queue
+          <span className="queue-counts">
+            {count('done')}/{items.length} done
+            {count('failed') > 0 && ` • ${count('failed')} failed`}
+          </span>
+        </div>
+        <div className="queue-controls">
+          <label>
+            Parallel downloads
+            <select
+              className="queue-select"
+              value={queue.concurrency}
+              onChange={(e) => SettingsService.update({ concurrency: Number(e.target.value) })}
+            >
+              {CONCURRENCY_OPTIONS.map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+          {canPickFolder && (
+            <button
+              className="queue-btn"
+              onClick={queue.chooseSaveFolder}
+              title="Save queued downloads straight to a folder, resuming and checking every file"
+            >
+              📁 {queue.hasSaveFolder ? 'Change folder' : 'Save to folder'}
+            </button>
+          )}
+          <button className="queue-btn" onClick={queue.clearFinished} title="Remove finished items">
+            🧹 Clear finished
+          </button>
+        </div>
+      </div>
+
+      <ul className="queue-items">
+        {items.map((item, index) => (
+          <li key={item.key} className={`queue-item queue-${item.status}`}>
+            <span className="queue-status" title={item.status}>{statusIcons[item.status]}</span>
+            <div className="queue-item-body">
+              <div className="queue-item-title" title={item.request.url}>{item.title}</div>
+              <div className="queue-item-meta">
+                {formatIcons[item.request.format]} {item.request.format === 'subtitles'
+                  ? item.request.subtitles?.languages.join(', ')
+                  : item.request.quality}
+                {item.status === 'downloading' && item.progress?.phase === 'queued' && !!item.progress.queuePosition && (
+                  <span> • #{item.progress.queuePosition} in line on the server</span>
+                )}
+                {item.error && <span className="queue-item-error"> • {item.error}</span>}
+              </div>
+              {item.unsavedLinks && (
+                <div className="queue-item-links">
+                  💾 {item.unsavedLinks.map(link => (
+                    <a key={link.url} href={link.url} download={link.filename}>{link.filename}</a>
+                  ))}
+                </div>
+              )}
+              {item.status === 'downloading' && item.progress && (
+                <div className="progress-bar">
+                  <div className="progress-fill" style={{ width: `${item.progress.percent}%` }}></div>
+                </div>
+              )}
+            </div>
+            <div className="queue-item-actions">
+              <button className="queue-btn" onClick={() => queue.move(item.key, -1)} disabled={index === 0} title="Move up">⬆️</button>
+              <button className="queue-btn" onClick={() => queue.move(item.key, 1)} disabled={index === items.length - 1} title="Move down">⬇️</button>
+              {(item.status === 'failed' || item.status === 'cancelled') && (
+                <button className="queue-btn" onClick={() => queue.retry(item.key)} title="Retry">🔁</button>
+              )}
+              {(item.status === 'pending' || item.status === 'downloading') && (
+                <button className="queue-btn" onClick={() => queue.cancel(item.key)} title="Cancel">⏹️</button>
+              )}
+              <button className="queue-btn" onClick={() => queue.remove(item.key)} title="Remove from queue">✕</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QueuePanel;
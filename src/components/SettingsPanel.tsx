@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { DownloadService, MetadataOptions, SubtitleFormat } from '../services/downloadService';
+import { CONCURRENCY_OPTIONS, SettingsService } from '../services/settingsService';
+import { AUDIO_QUALITIES, CONTAINERS, Container, VIDEO_QUALITIES } from '../shared/formatSelector.mjs';
+import { SUBTITLE_FORMATS } from '../shared/api.mjs';
+import { DEFAULT_FILENAME_TEMPLATE, checkFilenameTemplate } from '../shared/filenameTemplate.mjs';
+import { useSettings } from '../hooks/useSettings';
+
+const subtitleFormatLabels: Record<SubtitleFormat, string> = {
+  srt: 'SRT file',
+  vtt: 'WebVTT file',
+  embed: 'Embed in video'
+};
+
+const metadataLabels: Record<keyof MetadataOptions, string> = {
+  tags: 'Title, artist, date & source URL',
+  coverArt: 'Cover art',
+  chapters: 'Chapter markers'
+};
+
+// Language codes such as "en" or "pt-BR", as the backend accepts them
+const SUBTITLE_LANGUAGE = /^[a-zA-Z0-9_-]{1,20}$/;
+
+const parseLanguages = (value: string): string[] => Array.from(new Set(value
+  .split(/[\s,]+/)
+  .filter(language => SUBTITLE_LANGUAGE.test(language))));
+
+const SettingsPanel: React.FC = () => {
+  const { settings, update, reset } = useSettings();
+  // Backend fields only take effect when saved, so a half-typed URL is never used
+  const [backendUrl, setBackendUrl] = useState(settings.backendUrl);
+  const [accessToken, setAccessToken] = useState(() => DownloadService.getAccessToken() || '');
+  const [languages, setLanguages] = useState(settings.subtitleLanguages.join(', '));
+  const [filenameTemplate, setFilenameTemplate] = useState(settings.filenameTemplate);
+  const [connection, setConnection] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const normalizedUrl = SettingsService.normalizeBackendUrl(backendUrl);
+  const templateError = filenameTemplate.trim() ? checkFilenameTemplate(filenameTemplate) : null;
+  const backendChanged = normalizedUrl !== settings.backendUrl || accessToken.trim() !== (DownloadService.getAccessToken() || '');
+
+  const testConnection = async () => {
+    if (normalizedUrl === null) {
+      setConnection({ type: 'error', message: 'Enter an http:// or https:// URL' });
+      return;
+    }
+
+    setTesting(true);
+    setConnection({ type: 'info', message: 'Connecting...' });
+    try {
+      const health = await DownloadService.checkConnection(normalizedUrl || DownloadService.DEFAULT_BACKEND_URL, accessToken.trim() || null);
+      setConnection({ type: 'success', message: `Connected: ${health.message} (API version ${health.apiVersion})` });
+    } catch (error: any) {
+      setConnection({ type: 'error', message: error.message || 'Could not connect' });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const saveBackend = () => {
+    if (normalizedUrl === null) {
+      setConnection({ type: 'error', message: 'Enter an http:// or https:// URL' });
+      return;
+    }
+    DownloadService.setAccessToken(accessToken);
+    update({ backendUrl: normalizedUrl });
+    setBackendUrl(normalizedUrl);
+    setConnection({ type: 'success', message: 'Saved. New downloads use this server.' });
+  };
+
+  const toggleMetadata = (key: keyof MetadataOptions) => {
+    update({ metadata: { ...settings.metadata, [key]: !settings.metadata[key] } });
+  };
+
+  const resetDefaults = () => {
+    if (window.confirm('Go back to the default download settings? The backend server is kept.')) {
+      const defaults = reset();
+      setLanguages(defaults.subtitleLanguages.join(', '));
+      setFilenameTemplate(defaults.filenameTemplate);
+    }
+  };
+
+  return (
+    <div className="settings-panel">
+      <div className="option-group">
+        <div className="option-title">🔌 Download Server</div>
+        <div className="settings-fields">
+          <label className="settings-field settings-wide">
+            Backend URL
+            <input
+              type="url"
+              className="url-input"
+              placeholder={DownloadService.DEFAULT_BACKEND_URL}
+              value={backendUrl}
+              onChange={(e) => setBackendUrl(e.target.value)}
+            />
+          </label>
+          <label className="settings-field settings-wide">
+            Access token (only for servers that require one)
+            <input
+              type="password"
+              className="url-input"
+              value={accessToken}
+              onChange={(e) => setAccessToken(e.target.value)}
+              autoComplete="off"
+            />
+          </label>
+        </div>
+        <div className="settings-actions">
+          <button className="queue-btn" onClick={testConnection} disabled={testing}>
+            {testing ? '⏳ Testing...' : '🩺 Test connection'}
+          </button>
+          <button className="queue-btn" onClick={saveBackend} disabled={!backendChanged}>
+            💾 Save server
+          </button>
+        </div>
+        {connection && (
+          <div className={`settings-connection ${connection.type}`}>{connection.message}</div>
+        )}
+      </div>
+
+      <div className="option-group">
+        <div className="option-title">⚙️ Download Defaults</div>
+        <div className="settings-fields">
+          <label className="settings-field">
+            Format
+            <select
+              className="quality-selector"
+              value={settings.format}
+              onChange={(e) => update({ format: e.target.value as 'video' | 'audio' })}
+            >
+              <option value="video">🎬 Video</option>
+              <option value="audio">🎵 Audio (MP3)</option>
+            </select>
+          </label>
+          <label className="settings-field">
+            Container
+            <select
+              className="quality-selector"
+              value={settings.container}
+              onChange={(e) => update({ container: e.target.value as Container })}
+            >
+              {CONTAINERS.map(container => (
+                <option key={container} value={container}>{container.toUpperCase()}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            Video quality
+            <select
+              className="quality-selector"
+              value={settings.videoQuality}
+              onChange={(e) => update({ videoQuality: e.target.value })}
+            >
+              {VIDEO_QUALITIES.map(quality => (
+                <option key={quality} value={quality}>{quality}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            Audio quality
+            <select
+              className="quality-selector"
+              value={settings.audioQuality}
+              onChange={(e) => update({ audioQuality: e.target.value })}
+            >
+              {AUDIO_QUALITIES.map(quality => (
+                <option key={quality} value={quality}>{quality}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            Subtitle languages
+            <input
+              type="text"
+              className="url-input"
+              placeholder="e.g. en, de"
+              value={languages}
+              onChange={(e) => setLanguages(e.target.value)}
+              onBlur={() => {
+                const parsed = parseLanguages(languages);
+                setLanguages(parsed.join(', '));
+                update({ subtitleLanguages: parsed });
+              }}
+            />
+          </label>
+          <label className="settings-field">
+            Subtitle format
+            <select
+              className="quality-selector"
+              value={settings.subtitleFormat}
+              onChange={(e) => update({ subtitleFormat: e.target.value as SubtitleFormat })}
+            >
+              {SUBTITLE_FORMATS.map(format => (
+                <option key={format} value={format}>{subtitleFormatLabels[format]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field settings-wide">
+            File name template (empty uses the server's)
+            <input
+              type="text"
+              className="url-input"
+              placeholder={DEFAULT_FILENAME_TEMPLATE}
+              value={filenameTemplate}
+              onChange={(e) => setFilenameTemplate(e.target.value)}
+              onBlur={() => {
+                if (!templateError) update({ filenameTemplate: filenameTemplate.trim() });
+              }}
+            />
+            {templateError && <span className="clip-error">{templateError}</span>}
+          </label>
+          <label className="settings-field">
+            Parallel downloads
+            <select
+              className="quality-selector"
+              value={settings.concurrency}
+              onChange={(e) => update({ concurrency: Number(e.target.value) })}
+            >
+              {CONCURRENCY_OPTIONS.map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="metadata-fields settings-metadata">
+          {(Object.keys(metadataLabels) as (keyof MetadataOptions)[]).map(key => (
+            <label key={key} className="metadata-toggle">
+              <input
+                type="checkbox"
+                checked={!!settings.metadata[key]}
+                onChange={() => toggleMetadata(key)}
+              />
+              {metadataLabels[key]}
+            </label>
+          ))}
+        </div>
+
+        <div className="settings-note">
+          Subtitles in these languages are picked when a video has them. Options the server does not support are skipped.
+        </div>
+        <div className="settings-actions">
+          <button className="queue-btn" onClick={resetDefaults}>↩️ Reset defaults</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
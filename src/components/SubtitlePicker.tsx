@@ -0,0 +1,93 @@
+import React from 'react';
+import { SubtitleTrack, SubtitleFormat } from '../services/downloadService';
+
+interface SubtitlePickerProps {
+  tracks: SubtitleTrack[];
+  languages: string[];
+  onLanguagesChange: (languages: string[]) => void;
+  subtitleFormat: SubtitleFormat;
+  onFormatChange: (format: SubtitleFormat) => void;
+  /** Embedding is only possible for MP4 and MKV video downloads */
+  allowEmbed: boolean;
+  /** Formats the connected backend can produce */
+  supportedFormats?: SubtitleFormat[];
+  disabled?: boolean;
+}
+
+const formatLabels: Record<SubtitleFormat, string> = {
+  srt: 'SRT file',
+  vtt: 'WebVTT file',
+  embed: 'Embed in video'
+};
+
+const SubtitlePicker: React.FC<SubtitlePickerProps> = ({
+  tracks,
+  languages,
+  onLanguagesChange,
+  subtitleFormat,
+  onFormatChange,
+  allowEmbed,
+  supportedFormats,
+  disabled
+}) => {
+  const manualTracks = tracks.filter(track => !track.automatic);
+  // Auto-generated captions are only offered for languages without a manual track
+  const automaticTracks = tracks.filter(track => track.automatic
+    && !manualTracks.some(manual => manual.language === track.language));
+
+  const toggleLanguage = (language: string) => {
+    onLanguagesChange(languages.includes(language)
+      ? languages.filter(selected => selected !== language)
+      : [...languages, language]);
+  };
+
+  const renderTrack = (track: SubtitleTrack) => (
+    <label key={`${track.automatic ? 'auto' : 'manual'}:${track.language}`} className="subtitle-track">
+      <input
+        type="checkbox"
+        checked={languages.includes(track.language)}
+        onChange={() => toggleLanguage(track.language)}
+        disabled={disabled}
+      />
+      {track.name} <span className="subtitle-language">{track.language}</span>
+    </label>
+  );
+
+  return (
+    <div className="subtitle-picker">
+      <select
+        className="quality-selector"
+        value={subtitleFormat}
+        onChange={(e) => onFormatChange(e.target.value as SubtitleFormat)}
+        disabled={disabled}
+      >
+        {(Object.keys(formatLabels) as SubtitleFormat[]).map(format => (
+          <option
+            key={format}
+            value={format}
+            disabled={(format === 'embed' && !allowEmbed) || (!!supportedFormats && !supportedFormats.includes(format))}
+          >
+            {formatLabels[format]}
+          </option>
+        ))}
+      </select>
+
+      {manualTracks.length > 0 && (
+        <div className="subtitle-tracks">
+          {manualTracks.map(renderTrack)}
+        </div>
+      )}
+
+      {automaticTracks.length > 0 && (
+        <details className="subtitle-automatic">
+          <summary>🤖 Auto-generated captions ({automaticTracks.length})</summary>
+          <div className="subtitle-tracks">
+            {automaticTracks.map(renderTrack)}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default SubtitlePicker;
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DownloadService, DownloadError, Capabilities } from '../services/downloadService';
+import { SettingsService } from '../services/settingsService';
+
+const REFRESH_INTERVAL = 60000;
+
+/**
+ * Capabilities of the connected backend, refreshed every minute so the
+ * degraded and unreachable banners clear once the server is fixed. The last
+ * known capabilities are kept while the backend is unreachable, but not when
+ * another backend is picked in the settings.
+ */
+export const useCapabilities = () => {
+  const [capabilities, setCapabilities] = useState<Capabilities | null>(null);
+  const [error, setError] = useState<DownloadError | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setCapabilities(await DownloadService.getCapabilities(signal));
+      setError(null);
+    } catch (loadError: any) {
+      if (signal?.aborted) return;
+      console.error('❌ Could not load backend capabilities:', loadError);
+      setError(loadError instanceof DownloadError ? loadError : new DownloadError('unknown', loadError.message));
+    } finally {
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    const timer = setInterval(() => load(controller.signal), REFRESH_INTERVAL);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [load]);
+
+  useEffect(() => {
+    let backendUrl = DownloadService.getBackendUrl();
+    return SettingsService.subscribe(() => {
+      if (DownloadService.getBackendUrl() === backendUrl) return;
+      backendUrl = DownloadService.getBackendUrl();
+      setCapabilities(null);
+      setIsLoading(true);
+      load();
+    });
+  }, [load]);
+
+  const refresh = useCallback(() => {
+    setIsLoading(true);
+    return load();
+  }, [load]);
+
+  return {
+    capabilities,
+    /** Set when the last check failed, e.g. with code 'network' when the backend is down */
+    error,
+    isLoading,
+    refresh
+  };
+};
+
+export default useCapabilities;
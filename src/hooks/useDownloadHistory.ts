@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HistoryService, HistoryEntry } from '../services/historyService';
+
+/**
+ * Download history from IndexedDB, reloaded whenever an entry is added or removed
+ */
+export const useDownloadHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setEntries(await HistoryService.list());
+      setError(null);
+    } catch (loadError: any) {
+      console.error('❌ Could not load download history:', loadError);
+      setError(loadError.message || 'Could not load download history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return HistoryService.subscribe(load);
+  }, [load]);
+
+  const remove = useCallback((id: number) => HistoryService.remove(id), []);
+  const clear = useCallback(() => HistoryService.clear(), []);
+
+  return {
+    entries,
+    isLoading,
+    error,
+    remove,
+    clear
+  };
+};
+
+export default useDownloadHistory;
@@ -0,0 +1,181 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { DownloadService, DownloadRequest, DownloadProgress, DownloadLink, SaveTarget } from '../services/downloadService';
+import { HistoryService } from '../services/historyService';
+import { parseMediaUrl } from '../shared/mediaUrl.mjs';
+
+export type QueueItemStatus = 'pending' | 'downloading' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueItem {
+  /** Platform and media ID, used to drop duplicate URLs */
+  key: string;
+  title: string;
+  request: DownloadRequest;
+  status: QueueItemStatus;
+  progress?: DownloadProgress;
+  error?: string;
+  /** Files the browser did not save by itself, see DownloadResponse */
+  unsavedLinks?: DownloadLink[];
+}
+
+export interface QueueEntry {
+  url: string;
+  title?: string;
+  /** Position in the playlist the entry was picked from */
+  playlistIndex?: number;
+}
+
+export interface EnqueueResult {
+  added: number;
+  duplicates: number;
+  invalid: string[];
+}
+
+/**
+ * Client-side download queue. Pending items are started in order, at most
+ * `concurrency` at a time, each through its own backend job.
+ */
+export const useDownloadQueue = (initialConcurrency = 2) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [concurrency, setConcurrency] = useState(initialConcurrency);
+  const controllers = useRef(new Map<string, AbortController>());
+  // Folder the user picked for queued downloads; without one the browser saves them
+  const [saveFolder, setSaveFolder] = useState<SaveTarget | null>(null);
+  const saveFolderRef = useRef<SaveTarget | null>(null);
+
+  const updateItem = useCallback((key: string, changes: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item));
+  }, []);
+
+  const runItem = useCallback(async (item: QueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.key, controller);
+
+    const response = await DownloadService.downloadVideo(item.request, (progress) => {
+      updateItem(item.key, { progress });
+    }, controller.signal, undefined, { persist: false, saveTarget: saveFolderRef.current });
+
+    controllers.current.delete(item.key);
+    HistoryService.record(item.request, response, { title: item.title });
+    if (response.cancelled) return;
+
+    updateItem(item.key, response.success
+      ? { status: 'done', error: undefined, unsavedLinks: response.unsavedLinks }
+      : { status: 'failed', error: response.message });
+  }, [updateItem]);
+
+  // Start pending items whenever a slot frees up
+  useEffect(() => {
+    const running = items.filter(item => item.status === 'downloading').length;
+    const next = items.filter(item => item.status === 'pending').slice(0, Math.max(concurrency - running, 0));
+    if (next.length === 0) return;
+
+    const startKeys = next.map(item => item.key);
+    setItems(prev => prev.map(item => startKeys.includes(item.key)
+      ? { ...item, status: 'downloading', progress: { phase: 'extracting', percent: 0 }, error: undefined }
+      : item));
+    next.forEach(runItem);
+  }, [items, concurrency, runItem]);
+
+  // Cancel whatever is still running when the queue goes away
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach(controller => controller.abort());
+  }, []);
+
+  /**
+   * Validate and add URLs to the end of the queue, skipping media that is already queued
+   */
+  const enqueue = useCallback((entries: QueueEntry[], options: Omit<DownloadRequest, 'url'>): EnqueueResult => {
+    const result: EnqueueResult = { added: 0, duplicates: 0, invalid: [] };
+    const knownKeys = new Set(items.map(item => item.key));
+    const newItems: QueueItem[] = [];
+
+    entries.forEach(({ url, title, playlistIndex }) => {
+      const parsed = parseMediaUrl(url);
+      if (!parsed || parsed.kind === 'playlist' || parsed.kind === 'channel') {
+        result.invalid.push(url);
+        return;
+      }
+
+      const key = `${parsed.platform}:${parsed.id}`;
+      if (knownKeys.has(key)) {
+        result.duplicates++;
+        return;
+      }
+
+      knownKeys.add(key);
+      newItems.push({
+        key,
+        title: title || parsed.normalizedUrl,
+        request: { ...options, url: parsed.normalizedUrl, ...(playlistIndex ? { playlistIndex } : {}) },
+        status: 'pending'
+      });
+    });
+
+    result.added = newItems.length;
+    if (newItems.length > 0) setItems(prev => [...prev, ...newItems]);
+    return result;
+  }, [items]);
+
+  /**
+   * Ask for a folder to save queued downloads to. Has to be called from a
+   * click handler; resolves with false if the user dismisses the picker or the
+   * browser cannot write to folders.
+   */
+  const chooseSaveFolder = useCallback(async (): Promise<boolean> => {
+    const folder = await DownloadService.chooseSaveTarget('', true).catch(() => null);
+    if (!folder) return false;
+    saveFolderRef.current = folder;
+    setSaveFolder(folder);
+    return true;
+  }, []);
+
+  const remove = useCallback((key: string) => {
+    controllers.current.get(key)?.abort();
+    setItems(prev => prev.filter(item => item.key !== key));
+  }, []);
+
+  const cancel = useCallback((key: string) => {
+    controllers.current.get(key)?.abort();
+    updateItem(key, { status: 'cancelled', progress: undefined });
+  }, [updateItem]);
+
+  const retry = useCallback((key: string) => {
+    updateItem(key, { status: 'pending', progress: undefined, error: undefined });
+  }, [updateItem]);
+
+  const move = useCallback((key: string, offset: number) => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.key === key);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+      const reordered = [...prev];
+      const [item] = reordered.splice(index, 1);
+      reordered.splice(target, 0, item);
+      return reordered;
+    });
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status === 'pending' || item.status === 'downloading'));
+  }, []);
+
+  return {
+    items,
+    concurrency,
+    setConcurrency,
+    enqueue,
+    hasSaveFolder: saveFolder !== null,
+    chooseSaveFolder,
+    remove,
+    cancel,
+    retry,
+    move,
+    clearFinished
+  };
+};
+
+export type DownloadQueue = ReturnType<typeof useDownloadQueue>;
+
+export default useDownloadQueue;
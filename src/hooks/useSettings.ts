@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SettingsService, Settings } from '../services/settingsService';
+
+/**
+ * Saved settings, updated whenever they change anywhere in the app
+ */
+export const useSettings = () => {
+  const [settings, setSettings] = useState<Settings>(() => SettingsService.get());
+
+  useEffect(() => SettingsService.subscribe(() => setSettings(SettingsService.get())), []);
+
+  const update = useCallback((changes: Partial<Settings>) => SettingsService.update(changes), []);
+  const reset = useCallback(() => SettingsService.reset(), []);
+
+  return {
+    settings,
+    update,
+    reset
+  };
+};
+
+export default useSettings;
@@ -0,0 +1,69 @@
+import { DownloadService, DownloadJob, DownloadRequest } from './downloadService';
+
+const ACTIVE_JOB_KEY = 'ytubesaver.activeJob';
+
+const request: DownloadRequest = { url: 'https://youtu.be/dQw4w9WgXcQ', quality: '720p', format: 'video' };
+
+const job = (id: string): DownloadJob => ({
+  id,
+  state: 'done',
+  request,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+describe('DownloadService.downloadVideo', () => {
+  let savedWhileRunning: string | null;
+
+  beforeEach(() => {
+    localStorage.clear();
+    savedWhileRunning = null;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(DownloadService, 'createJob').mockResolvedValue(job('queued-job'));
+    jest.spyOn(DownloadService, 'waitForJob').mockImplementation(async (jobId) => {
+      savedWhileRunning = localStorage.getItem(ACTIVE_JOB_KEY);
+      return job(jobId);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('remembers the job until it is saved', async () => {
+    const response = await DownloadService.downloadVideo(request);
+
+    expect(response.success).toBe(true);
+    expect(savedWhileRunning).toBe('queued-job');
+    expect(localStorage.getItem(ACTIVE_JOB_KEY)).toBeNull();
+  });
+
+  test('leaves the remembered job alone for queued downloads', async () => {
+    localStorage.setItem(ACTIVE_JOB_KEY, 'single-job');
+
+    const response = await DownloadService.downloadVideo(request, undefined, undefined, undefined, { persist: false });
+
+    expect(response.success).toBe(true);
+    expect(savedWhileRunning).toBe('single-job');
+    expect(localStorage.getItem(ACTIVE_JOB_KEY)).toBe('single-job');
+  });
+
+  test('starts only the first file without a place in the save target and returns the others', async () => {
+    const links = ['video.mp4', 'video.en.srt', 'video.de.srt'].map(filename => ({ filename, url: `https://example.com/downloads/${filename}` }));
+    jest.spyOn(DownloadService, 'waitForJob').mockResolvedValue({
+      ...job('queued-job'),
+      result: { filename: 'video.mp4', downloadUrl: links[0].url, links, expiresAt: '2026-01-01T01:00:00.000Z' }
+    });
+    const clicked: string[] = [];
+    jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      clicked.push(this.download);
+    });
+    const saveTarget = { open: jest.fn().mockResolvedValue(null) };
+
+    const response = await DownloadService.downloadVideo(request, undefined, undefined, undefined, { saveTarget });
+
+    expect(saveTarget.open).toHaveBeenCalledTimes(3);
+    expect(clicked).toEqual(['video.mp4']);
+    expect(response.unsavedLinks).toEqual(links.slice(1));
+  });
+});
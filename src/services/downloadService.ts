@@ -1,64 +1,186 @@
-export interface VideoInfo {
-  id: string;
-  title: string;
-  thumbnail: string;
-  duration: string;
-  uploader: string;
-  platform: 'youtube' | 'instagram';
-  formats: VideoFormat[];
+import { parseMediaUrl, Platform } from '../shared/mediaUrl.mjs';
+import { parse, Schema } from '../shared/schema.mjs';
+import {
+  API_VERSION,
+  API_VERSION_HEADER,
+  DownloadJob,
+  DownloadLink,
+  DownloadProgress,
+  DownloadRequest,
+  ChosenFormat,
+  VideoInfo,
+  PlaylistInfo,
+  JobResponse,
+  JobsResponse,
+  VideoInfoResponse,
+  Capabilities,
+  CapabilitiesResponse,
+  HealthResponse,
+  capabilitiesResponseSchema,
+  healthResponseSchema,
+  jobResponseSchema,
+  jobsResponseSchema,
+  videoInfoResponseSchema
+} from '../shared/api.mjs';
+import { DownloadError, ErrorCode } from '../shared/errors.mjs';
+import { createInfoCache, InfoCache } from '../shared/infoCache.mjs';
+import { Sha256 } from '../utils/sha256';
+import { SettingsService } from './settingsService';
+
+export { DownloadError } from '../shared/errors.mjs';
+export type { ErrorCode } from '../shared/errors.mjs';
+
+// Request and response types live in src/shared/api.mjs, shared with the backend
+export type {
+  VideoInfo,
+  VideoFormat,
+  SubtitleTrack,
+  Chapter,
+  DownloadLink,
+  MediaItem,
+  MediaItemKind,
+  PlaylistEntry,
+  PlaylistInfo,
+  DownloadFormat,
+  SubtitleFormat,
+  SubtitleOptions,
+  MetadataOptions,
+  DownloadRequest,
+  ChosenFormat,
+  DownloadPhase,
+  DownloadProgress,
+  JobState,
+  DownloadJob,
+  Capabilities,
+  ServerFeatures,
+  ServerLimits,
+  ToolStatus
+} from '../shared/api.mjs';
+
+/**
+ * Progress of copying a finished file from the backend to the device,
+ * separate from the backend's own download
+ */
+export interface TransferProgress {
+  filename: string;
+  percent: number;
+  receivedBytes: number;
+  totalBytes?: number;
+  /** Bytes per second */
+  speed?: number;
+  /** How often the transfer was resumed after the connection dropped */
+  retries: number;
+}
+
+export interface DownloadOptions {
+  /**
+   * Remember the job so resumeDownload can pick it up after a page reload;
+   * defaults to true. Queued downloads leave it off, as only one job is kept.
+   */
+  persist?: boolean;
+  /** Where to write the files, from chooseSaveTarget */
+  saveTarget?: SaveTarget | null;
+}
+
+export interface TransferOptions {
+  /** Expected hex SHA-256; falls back to the Repr-Digest response header */
+  sha256?: string;
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+/** Where a transfer writes its bytes */
+export interface TransferSink {
+  write(chunk: Uint8Array): Promise<void>;
+  /** Drop everything written so far, when the file has to be fetched from the start again */
+  reset(): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
 }
 
-export interface VideoFormat {
-  format_id: string;
-  ext: string;
-  quality: string;
-  filesize?: number;
-  url: string;
-  format_note?: string;
+/** A file or folder the user picked to save a download to */
+export interface SaveTarget {
+  /** Opens `filename` for writing, or null if the target has no room for another file */
+  open(filename: string): Promise<TransferSink | null>;
 }
 
-export interface DownloadRequest {
-  url: string;
-  format: 'video' | 'audio';
-  quality: string;
+/** Video or playlist information and whether it was cached */
+export interface VideoInfoLookup {
+  info: VideoInfo | PlaylistInfo;
+  /** True when this app or the backend answered from its cache */
+  cached: boolean;
+  /** ISO timestamp of when the backend extracted the information */
+  fetchedAt?: string;
 }
 
 export interface DownloadResponse {
   success: boolean;
   message: string;
   downloadUrl?: string;
+  /** ISO timestamp after which downloadUrl stops working */
+  expiresAt?: string;
   videoInfo?: VideoInfo;
+  /** Name of the file on the backend */
+  filename?: string;
+  chosenFormat?: ChosenFormat;
+  /** True when the download was stopped through its AbortSignal */
+  cancelled?: boolean;
+  /** Why the download failed */
+  code?: ErrorCode;
+  /** Whether trying the same download again may succeed */
+  retryable?: boolean;
+  /**
+   * Files that were not saved: browsers only start one download without a
+   * click, so each of these needs the user to click its link
+   */
+  unsavedLinks?: DownloadLink[];
 }
 
 export class DownloadService {
-  private static readonly BACKEND_URL = process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001/api';
+  /** Used until a backend URL is set in the settings */
+  static readonly DEFAULT_BACKEND_URL = process.env.REACT_APP_BACKEND_URL || 'http://localhost:3001/api';
+  private static readonly ACTIVE_JOB_KEY = 'ytubesaver.activeJob';
+  private static readonly ACCESS_TOKEN_KEY = 'ytubesaver.accessToken';
+  private static readonly JOB_POLL_INTERVAL = 1000;
+  /** Consecutive failed attempts without new data before a transfer gives up */
+  private static readonly MAX_TRANSFER_RETRIES = 5;
+  private static readonly TRANSFER_RETRY_DELAY = 1000;
+  private static readonly TRANSFER_PROGRESS_INTERVAL = 250;
+  private static readonly INFO_CACHE_KEY = 'ytubesaver.videoInfo';
+  /** Same as the backend's default INFO_CACHE_TTL_MS */
+  private static readonly INFO_CACHE_TTL = 600000;
+  private static readonly INFO_CACHE_SIZE = 20;
+  /** Times a request turned away with 429 is sent again before giving up */
+  private static readonly MAX_RATE_LIMIT_RETRIES = 5;
+  /** Longest wait between those attempts, whatever Retry-After says */
+  private static readonly MAX_RETRY_AFTER = 60000;
+  private static infoCache: InfoCache<VideoInfoResponse> | null = null;
   
   /**
-   * Get video information from URL
+   * Get video information from URL. Playlist and channel URLs resolve to a PlaylistInfo.
+   * Answers are kept for the browser session, so looking up the same video
+   * again does not wait for the backend.
    */
-  static async getVideoInfo(url: string): Promise<VideoInfo> {
+  static async getVideoInfo(url: string): Promise<VideoInfoLookup> {
     try {
       console.log('🔍 Getting video info from backend:', url);
-      
-      const response = await fetch(`${this.BACKEND_URL}/video-info`, {
+
+      // Different links to the same video or list share an entry, separately for every backend
+      const key = `${this.getBackendUrl()} ${parseMediaUrl(url)?.normalizedUrl || url}`;
+      const { value: data, cached } = await this.getInfoCache().load(key, () => this.request<VideoInfoResponse>('/video-info', videoInfoResponseSchema, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ url }),
-      });
+      }));
+      if (!cached) this.saveInfoCache();
 
-      if (!response.ok) {
-        throw new Error(`Backend API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to get video info');
-      }
-
-      return data.data;
+      return {
+        // The schema guarantees exactly one of the two
+        info: data.playlistInfo || data.videoInfo!,
+        cached: cached || !!data.cached,
+        fetchedAt: data.fetchedAt
+      };
     } catch (error) {
       console.error('❌ Error getting video info:', error);
       throw error;
@@ -66,170 +188,671 @@ export class DownloadService {
   }
 
   /**
-   * Download video using backend API
+   * Download video using a backend job, polling it for progress.
+   * Aborting the signal cancels the job on the backend as well.
+   * onTransferProgress reports saving the finished file to the device.
    */
-  static async downloadVideo(request: DownloadRequest, onProgress?: (progress: number) => void): Promise<DownloadResponse> {
+  static async downloadVideo(request: DownloadRequest, onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal, onTransferProgress?: (progress: TransferProgress) => void, options: DownloadOptions = {}): Promise<DownloadResponse> {
     try {
       console.log('⬇️ Starting download via backend:', request);
       
-      // Simulate progress
-      let progress = 0;
-      const progressInterval = setInterval(() => {
-        if (progress < 90 && onProgress) {
-          progress += Math.random() * 15;
-          onProgress(Math.min(progress, 90));
-        }
-      }, 1000);
-      
-      const response = await fetch(`${this.BACKEND_URL}/download`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-      });
+      const job = await this.createJob(request, signal);
+      // Remember the job so a page refresh can pick it up again
+      if (options.persist !== false) {
+        localStorage.setItem(this.ACTIVE_JOB_KEY, job.id);
+      }
 
-      clearInterval(progressInterval);
+      return await this.completeJob(job.id, onProgress, signal, onTransferProgress, options.saveTarget);
+    } catch (error) {
+      return this.failedResponse(error, signal);
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`Backend API error: ${response.status}`);
-      }
+  /**
+   * ID of a job that was started but not yet saved, e.g. before a page reload
+   */
+  static getActiveJobId(): string | null {
+    return localStorage.getItem(this.ACTIVE_JOB_KEY);
+  }
 
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Download failed');
-      }
+  /**
+   * Resume the job started before the last page reload, if there is one
+   */
+  static async resumeDownload(onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal, onTransferProgress?: (progress: TransferProgress) => void): Promise<DownloadResponse | null> {
+    const jobId = this.getActiveJobId();
+    if (!jobId) return null;
 
-      onProgress?.(100);
+    try {
+      console.log('🔁 Resuming download job:', jobId);
+      return await this.completeJob(jobId, onProgress, signal, onTransferProgress);
+    } catch (error) {
+      return this.failedResponse(error, signal);
+    }
+  }
 
-      // For backend downloads, we get a file path that we can download
-      if (data.filePath) {
-        const filename = data.filename || `download.${request.format === 'audio' ? 'mp3' : 'mp4'}`;
-        await this.downloadFromBackend(data.filePath, filename);
+  /**
+   * Wait for a job to finish and save its files, into saveTarget as far as it
+   * has room. Cancels the job if the signal is aborted while waiting.
+   */
+  private static async completeJob(jobId: string, onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal, onTransferProgress?: (progress: TransferProgress) => void, saveTarget?: SaveTarget | null): Promise<DownloadResponse> {
+    try {
+      const job = await this.waitForJob(jobId, onProgress, signal);
+      onProgress?.({ phase: job.progress?.phase || 'downloading', percent: 100 });
+
+      const itemFiles = job.result?.itemFiles || [];
+      const unsavedLinks: DownloadLink[] = [];
+      if (job.result) {
+        // Every picked item of a post and every subtitle file is a separate link
+        const { filename, links, sha256 } = job.result;
+        for (const link of links) {
+          const sink = saveTarget ? await saveTarget.open(link.filename) : null;
+          if (!sink) {
+            unsavedLinks.push(link);
+            continue;
+          }
+          await this.downloadFromBackend(link.url, link.filename, sink, signal, {
+            sha256: link.filename === filename ? sha256 : undefined,
+            onProgress: onTransferProgress
+          });
+        }
       }
 
+      // The browser starts the first download by itself, the others need a click
+      const [firstUnsaved, ...otherUnsaved] = unsavedLinks;
+      if (firstUnsaved) this.openDownloadLink(firstUnsaved.url, firstUnsaved.filename);
+
       return {
         success: true,
-        message: 'Download completed successfully',
-        downloadUrl: data.filePath,
-        videoInfo: data.videoInfo
+        message: itemFiles.length > 1 ? `Saved ${itemFiles.length} items` : 'Download completed successfully',
+        downloadUrl: job.result?.downloadUrl,
+        expiresAt: job.result?.expiresAt,
+        filename: job.result?.filename,
+        chosenFormat: job.result?.chosenFormat,
+        unsavedLinks: otherUnsaved.length > 0 ? otherUnsaved : undefined
       };
-      
     } catch (error) {
-      console.error('❌ Download error:', error);
+      if (signal?.aborted) {
+        // The signal is already aborted, so this request must not use it
+        await this.cancelJob(jobId).catch(cancelError => {
+          console.error('❌ Could not cancel job on backend:', cancelError);
+        });
+      }
+      throw error;
+    } finally {
+      // Only the job that was remembered is forgotten
+      if (this.getActiveJobId() === jobId) {
+        localStorage.removeItem(this.ACTIVE_JOB_KEY);
+      }
+    }
+  }
+
+  private static failedResponse(error: unknown, signal?: AbortSignal): DownloadResponse {
+    if (signal?.aborted) {
+      console.log('⏹️ Download cancelled');
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'Download failed'
+        cancelled: true,
+        message: 'Download cancelled'
       };
     }
+
+    console.error('❌ Download error:', error);
+    const downloadError = error instanceof DownloadError
+      ? error
+      : new DownloadError('unknown', error instanceof Error ? error.message : undefined);
+    return {
+      success: false,
+      message: downloadError.message,
+      code: downloadError.code,
+      retryable: downloadError.retryable
+    };
   }
 
   /**
-   * Download file from backend
+   * Create a download job on the backend
    */
-  static async downloadFromBackend(filePath: string, filename: string): Promise<void> {
+  static async createJob(request: DownloadRequest, signal?: AbortSignal): Promise<DownloadJob> {
+    const data = await this.request<JobResponse>('/jobs', jobResponseSchema, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+    return data.job;
+  }
+
+  /**
+   * Get the current state of a download job
+   */
+  static async getJob(jobId: string, signal?: AbortSignal): Promise<DownloadJob> {
+    const data = await this.request<JobResponse>(`/jobs/${encodeURIComponent(jobId)}`, jobResponseSchema, { signal });
+    return data.job;
+  }
+
+  /**
+   * Cancel a queued or running job. The backend kills yt-dlp and removes partial files.
+   */
+  static async cancelJob(jobId: string): Promise<DownloadJob> {
+    const data = await this.request<JobResponse>(`/jobs/${encodeURIComponent(jobId)}`, jobResponseSchema, {
+      method: 'DELETE',
+    });
+    return data.job;
+  }
+
+  /**
+   * List recent download jobs, newest first
+   */
+  static async listJobs(): Promise<DownloadJob[]> {
+    const data = await this.request<JobsResponse>('/jobs', jobsResponseSchema);
+    return data.jobs;
+  }
+
+  /**
+   * What the connected backend can download: installed tools, output formats,
+   * limits and features. Throws a DownloadError with code 'network' if the
+   * backend cannot be reached.
+   */
+  static async getCapabilities(signal?: AbortSignal): Promise<Capabilities> {
+    const data = await this.request<CapabilitiesResponse>('/capabilities', capabilitiesResponseSchema, { signal });
+    return data.capabilities;
+  }
+
+  /**
+   * Backend API base URL from the settings, read on every request so the
+   * same build can be pointed at different servers
+   */
+  static getBackendUrl(): string {
+    return SettingsService.get().backendUrl || this.DEFAULT_BACKEND_URL;
+  }
+
+  /**
+   * Check that a backend answers /health with a matching API version, e.g.
+   * before switching to it. Sends accessToken instead of the stored one if given.
+   */
+  static async checkConnection(backendUrl: string, accessToken?: string | null): Promise<HealthResponse> {
+    const token = accessToken === undefined ? this.getAccessToken() : accessToken;
+    let response: Response;
     try {
-      const downloadUrl = `${this.BACKEND_URL.replace('/api', '')}/downloads/${filePath}`;
-      
-      // Try using File System Access API if available (modern browsers)
-      if ('showSaveFilePicker' in window) {
-        try {
-          const fileHandle = await (window as any).showSaveFilePicker({
-            suggestedName: filename,
-            types: [{
-              description: 'Media files',
-              accept: {
-                'video/*': ['.mp4', '.webm', '.mkv'],
-                'audio/*': ['.mp3', '.m4a', '.webm']
-              }
-            }]
-          });
+      response = await fetch(`${backendUrl}/health`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    } catch (error) {
+      throw new DownloadError('network', undefined, { details: String(error) });
+    }
+    this.checkApiVersion(response);
 
-          const response = await fetch(downloadUrl);
-          if (!response.ok) throw new Error('Download failed');
-          
-          const writableStream = await fileHandle.createWritable();
-          await response.body?.pipeTo(writableStream);
-          
-          console.log('✅ File saved successfully using File System Access API');
-          return;
-        } catch (fsError) {
-          console.log('File System Access API not available or cancelled, falling back to regular download');
-        }
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new DownloadError(data?.code || 'unknown', data?.message || `Backend API error: ${response.status}`);
+    }
+    return parse<HealthResponse>(healthResponseSchema, data, 'response from /health');
+  }
+
+  /**
+   * Access token for backends that require one, kept on this device
+   */
+  static getAccessToken(): string | null {
+    return localStorage.getItem(this.ACCESS_TOKEN_KEY);
+  }
+
+  /**
+   * Store the access token sent with every backend request; an empty token removes it
+   */
+  static setAccessToken(token: string | null): void {
+    const trimmed = token?.trim();
+    if (trimmed) {
+      localStorage.setItem(this.ACCESS_TOKEN_KEY, trimmed);
+    } else {
+      localStorage.removeItem(this.ACCESS_TOKEN_KEY);
+    }
+  }
+
+  /**
+   * The video info cache, restored from sessionStorage on first use
+   */
+  private static getInfoCache(): InfoCache<VideoInfoResponse> {
+    if (!this.infoCache) {
+      let entries = [];
+      try {
+        entries = JSON.parse(sessionStorage.getItem(this.INFO_CACHE_KEY) || '[]');
+      } catch (error) {
+        console.warn('Ignoring unreadable video info cache:', error);
       }
+      this.infoCache = createInfoCache<VideoInfoResponse>({ ttl: this.INFO_CACHE_TTL, maxEntries: this.INFO_CACHE_SIZE, entries });
+    }
+    return this.infoCache;
+  }
 
-      // Fallback to regular download
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = filename;
-      link.style.display = 'none';
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      console.log('✅ Download initiated using regular method');
-      
+  private static saveInfoCache(): void {
+    try {
+      sessionStorage.setItem(this.INFO_CACHE_KEY, JSON.stringify(this.getInfoCache().entries()));
     } catch (error) {
+      // Full storage only means the next visit fetches again
+      console.warn('Could not save video info cache:', error);
+    }
+  }
+
+  /**
+   * Call the backend and check its answer against the API contract shared
+   * with the server. Error responses are thrown as a DownloadError.
+   * Requests the server turns away with 429 are sent again once its
+   * Retry-After has passed.
+   */
+  private static async request<T>(path: string, schema: Schema, init?: RequestInit): Promise<T> {
+    const headers = new Headers(init?.headers);
+    const token = this.getAccessToken();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let response: Response;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        response = await fetch(`${this.getBackendUrl()}${path}`, { ...init, headers });
+      } catch (error) {
+        if (init?.signal?.aborted) throw error;
+        throw new DownloadError('network', undefined, { details: String(error) });
+      }
+      if (response.status !== 429 || attempt >= this.MAX_RATE_LIMIT_RETRIES) break;
+
+      const wait = this.retryAfter(response, attempt);
+      console.log(`⏳ Backend is busy, retrying ${path} in ${Math.round(wait / 1000)}s`);
+      await this.delay(wait, init?.signal || undefined);
+    }
+    this.checkApiVersion(response);
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.success) {
+      // The service worker answers with a bare message while offline
+      throw new DownloadError(data?.code || (data?.offline ? 'network' : 'unknown'), data?.message || `Backend API error: ${response.status}`, {
+        retryable: data?.retryable,
+        details: data?.error
+      });
+    }
+    return parse<T>(schema, data, `response from ${path}`);
+  }
+
+  /**
+   * Milliseconds to wait before sending a request turned away with 429 again.
+   * Retry-After is either seconds or a date; without it the wait doubles
+   * with every attempt.
+   */
+  private static retryAfter(response: Response, attempt: number): number {
+    const header = response.headers.get('Retry-After');
+    let wait = 1000 * 2 ** attempt;
+    if (header && /^\d+$/.test(header.trim())) {
+      wait = Number(header) * 1000;
+    } else if (header && !Number.isNaN(Date.parse(header))) {
+      wait = Date.parse(header) - Date.now();
+    }
+    return Math.min(Math.max(wait, 0), this.MAX_RETRY_AFTER);
+  }
+
+  /**
+   * A PWA running from an old cache can outlive an API change on the server
+   */
+  private static checkApiVersion(response: Response): void {
+    const serverVersion = response.headers.get(API_VERSION_HEADER);
+    if (serverVersion && Number(serverVersion) !== API_VERSION) {
+      throw new DownloadError('version_mismatch', `This app (API version ${API_VERSION}) does not match the server (API version ${serverVersion}). Please reload the page to update.`);
+    }
+  }
+
+  /**
+   * Wait for a job to be done, following its progress over Server-Sent Events.
+   * Polls instead if the stream cannot be opened or ends early. Rejects if the
+   * job fails, is cancelled or expires, or if the signal is aborted.
+   */
+  static async waitForJob(jobId: string, onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal): Promise<DownloadJob> {
+    const streamed = await this.followJob(jobId, onProgress, signal);
+    if (streamed && this.isFinished(streamed)) return streamed;
+
+    while (true) {
+      const job = await this.getJob(jobId, signal);
+
+      if (job.progress) onProgress?.(job.progress);
+      if (this.isFinished(job)) return job;
+
+      await this.delay(this.JOB_POLL_INTERVAL, signal);
+    }
+  }
+
+  /**
+   * True once a job is done; throws for jobs that failed, were cancelled or expired
+   */
+  private static isFinished(job: DownloadJob): boolean {
+    if (job.state === 'failed') throw new DownloadError(job.errorCode || 'unknown', job.error);
+    if (job.state === 'cancelled') throw new DownloadError('cancelled');
+    if (job.state === 'expired') throw new DownloadError('expired');
+    return job.state === 'done';
+  }
+
+  /**
+   * Follow a job's event stream until the backend closes it. Returns the last
+   * state received, or null if the stream could not be opened.
+   */
+  private static async followJob(jobId: string, onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal): Promise<DownloadJob | null> {
+    const headers = new Headers({ Accept: 'text/event-stream' });
+    const token = this.getAccessToken();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let last: DownloadJob | null = null;
+    try {
+      const response = await fetch(`${this.getBackendUrl()}/jobs/${encodeURIComponent(jobId)}`, { headers, signal });
+      if (!response.ok || !response.headers.get('Content-Type')?.includes('text/event-stream')) return null;
+      this.checkApiVersion(response);
+
+      await this.readEventStream(response, (event, data) => {
+        if (event !== 'job') return;
+        const { job } = parse<JobResponse>(jobResponseSchema, data, 'job event');
+        if (job.progress) onProgress?.(job.progress);
+        last = job;
+      });
+    } catch (error) {
+      if (signal?.aborted || error instanceof DownloadError) throw error;
+      console.warn('⚠️ Job event stream failed, polling instead:', error);
+    }
+    return last;
+  }
+
+  /**
+   * Read a text/event-stream response body, calling onEvent for every event
+   */
+  private static async readEventStream(response: Response, onEvent: (event: string, data: unknown) => void): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const dispatch = (block: string) => {
+      let event = 'message';
+      const dataLines: string[] = [];
+      block.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+      });
+      if (dataLines.length === 0) return;
+      onEvent(event, JSON.parse(dataLines.join('\n')));
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+      blocks.forEach(dispatch);
+    }
+
+    if (buffer.trim()) dispatch(buffer);
+  }
+
+  private static delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Save a file from the backend into a file the user picked, using a signed
+   * link from a download result. Interrupted transfers resume from the last
+   * received byte, and the result is checked against the expected size and
+   * SHA-256 before it is kept.
+   */
+  private static async downloadFromBackend(downloadUrl: string, filename: string, sink: TransferSink, signal?: AbortSignal, options: TransferOptions = {}): Promise<void> {
+    try {
+      await this.transfer(downloadUrl, filename, sink, options, signal);
+      await sink.close();
+      console.log(`✅ Saved ${filename}`);
+    } catch (error) {
+      await sink.abort().catch(() => {});
       console.error('❌ Error downloading file:', error);
-      throw error;
+      if (error instanceof DownloadError || signal?.aborted) throw error;
+      throw new DownloadError('transfer_failed', undefined, { details: String(error) });
+    }
+  }
+
+  private static async transfer(url: string, filename: string, sink: TransferSink, options: TransferOptions, signal?: AbortSignal): Promise<void> {
+    let hash = new Sha256();
+    let receivedBytes = 0;
+    let totalBytes: number | undefined;
+    let expectedSha256 = options.sha256;
+    // ETag, or Last-Modified as a fallback, of the file being resumed
+    let validator: string | undefined;
+    let retries = 0;
+    let failures = 0;
+    let lastReport = { time: Date.now(), bytes: 0 };
+
+    const report = (force: boolean) => {
+      const now = Date.now();
+      if (!options.onProgress || (!force && now - lastReport.time < this.TRANSFER_PROGRESS_INTERVAL)) return;
+
+      const elapsed = (now - lastReport.time) / 1000;
+      options.onProgress({
+        filename,
+        percent: totalBytes ? Math.min(100, (receivedBytes / totalBytes) * 100) : 0,
+        receivedBytes,
+        totalBytes,
+        speed: elapsed > 0 ? Math.max(0, receivedBytes - lastReport.bytes) / elapsed : undefined,
+        retries
+      });
+      lastReport = { time: now, bytes: receivedBytes };
+    };
+
+    const restart = async () => {
+      await sink.reset();
+      hash = new Sha256();
+      receivedBytes = 0;
+      totalBytes = undefined;
+      validator = undefined;
+    };
+
+    while (true) {
+      const resuming = receivedBytes > 0;
+      const attemptStart = receivedBytes;
+
+      try {
+        const headers: Record<string, string> = {};
+        if (resuming) {
+          headers.Range = `bytes=${receivedBytes}-`;
+          // The server answers with the whole file instead if it has changed since
+          if (validator) headers['If-Range'] = validator;
+        }
+
+        const response = await fetch(url, { headers, signal });
+        if (response.status === 410) {
+          throw new DownloadError('expired', 'The file is no longer on the server, please download it again', { retryable: false });
+        }
+        if (!response.ok) {
+          throw new DownloadError('transfer_failed', `File transfer failed with status ${response.status}`, { retryable: response.status >= 500 });
+        }
+
+        if (response.status === 206) {
+          const range = /^bytes (\d+)-\d+\/(\d+)$/.exec(response.headers.get('Content-Range') || '');
+          if (!range || parseInt(range[1], 10) !== receivedBytes) {
+            throw new DownloadError('transfer_failed', 'Server resumed the file transfer at the wrong position', { retryable: false });
+          }
+          totalBytes = parseInt(range[2], 10);
+        } else {
+          if (resuming) {
+            console.log(`🔁 ${filename} changed or cannot be resumed, starting over`);
+            await restart();
+          }
+          const contentLength = response.headers.get('Content-Length');
+          totalBytes = contentLength ? parseInt(contentLength, 10) : undefined;
+          validator = response.headers.get('ETag') || response.headers.get('Last-Modified') || undefined;
+          expectedSha256 = expectedSha256 || this.parseReprDigest(response.headers.get('Repr-Digest'));
+        }
+
+        if (!response.body) throw new DownloadError('transfer_failed', 'File transfer is not supported by this browser', { retryable: false });
+        const reader = response.body.getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await sink.write(value);
+          hash.update(value);
+          receivedBytes += value.length;
+          report(false);
+        }
+
+        // Proxies sometimes end a response early without an error
+        if (totalBytes !== undefined && receivedBytes < totalBytes) {
+          throw new DownloadError('network', `Connection closed after ${receivedBytes} of ${totalBytes} bytes`);
+        }
+        break;
+      } catch (error) {
+        if (receivedBytes > attemptStart) failures = 0;
+        failures++;
+
+        if (signal?.aborted || (error instanceof DownloadError && !error.retryable) || failures > this.MAX_TRANSFER_RETRIES) {
+          throw error;
+        }
+
+        console.log(`🔁 Transfer of ${filename} interrupted at ${receivedBytes} bytes, retrying:`, error);
+        retries++;
+        report(true);
+        await this.delay(this.TRANSFER_RETRY_DELAY * failures, signal);
+      }
+    }
+
+    report(true);
+
+    if (totalBytes !== undefined && receivedBytes !== totalBytes) {
+      throw new DownloadError('transfer_failed', `Received ${receivedBytes} bytes of ${filename}, expected ${totalBytes}`);
+    }
+    if (expectedSha256 && hash.digest() !== expectedSha256) {
+      throw new DownloadError('transfer_failed', `${filename} was corrupted during the transfer (checksum mismatch)`);
     }
   }
 
+  /**
+   * Hex SHA-256 from an RFC 9530 header such as "sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:"
+   */
+  private static parseReprDigest(header: string | null): string | undefined {
+    const match = /sha-256=:([A-Za-z0-9+/=]+):/.exec(header || '');
+    if (!match) return undefined;
+
+    let hex = '';
+    const binary = atob(match[1]);
+    for (let i = 0; i < binary.length; i++) {
+      hex += ('0' + binary.charCodeAt(i).toString(16)).slice(-2);
+    }
+    return hex;
+  }
+
+  /**
+   * Ask where to save a download, using the File System Access API: a file
+   * named like suggestedName, or a folder when the download has several files.
+   * Browsers only show the picker right after a click, so call this from the
+   * click handler before anything slow. Returns null if the browser cannot
+   * write files itself; the download is then left to the browser, without
+   * resuming or checks. Rejects with an AbortError if the user dismisses it.
+   */
+  static async chooseSaveTarget(suggestedName: string, severalFiles = false): Promise<SaveTarget | null> {
+    const picker = window as any;
+    try {
+      if (severalFiles) {
+        if (!picker.showDirectoryPicker) return null;
+        const directory = await picker.showDirectoryPicker({ id: 'downloads', mode: 'readwrite', startIn: 'downloads' });
+        return {
+          open: async (filename) => this.writableSink(await directory.getFileHandle(filename, { create: true }))
+        };
+      }
+
+      if (!picker.showSaveFilePicker) return null;
+      const fileHandle = await picker.showSaveFilePicker({
+        suggestedName,
+        startIn: 'downloads',
+        types: [{
+          description: 'Media files',
+          accept: {
+            'video/*': ['.mp4', '.webm', '.mkv'],
+            'audio/*': ['.mp3', '.m4a', '.webm'],
+            'text/plain': ['.srt', '.vtt']
+          }
+        }]
+      });
+      // A single file only has room for the first file of the download
+      let used = false;
+      return {
+        open: async () => {
+          if (used) return null;
+          used = true;
+          return this.writableSink(fileHandle);
+        }
+      };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      console.warn('⚠️ Could not ask where to save the download, leaving it to the browser:', error);
+      return null;
+    }
+  }
+
+  private static async writableSink(fileHandle: any): Promise<TransferSink> {
+    const writable = await fileHandle.createWritable();
+    return {
+      write: (chunk) => writable.write(chunk),
+      // Truncating also moves the write position back to the start
+      reset: () => writable.truncate(0),
+      close: () => writable.close(),
+      abort: () => writable.abort()
+    };
+  }
+
+  /**
+   * Hand a link to the browser's own download manager, which streams the file
+   * to disk. The backend names it through Content-Disposition, as the
+   * download attribute is ignored for links to another origin.
+   */
+  private static openDownloadLink(url: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.rel = 'noopener';
+    link.style.display = 'none';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    console.log(`✅ Handed ${filename} to the browser`);
+  }
+
+  static isPlaylistInfo(info: VideoInfo | PlaylistInfo): info is PlaylistInfo {
+    return 'entries' in info;
+  }
+
   /**
    * Validate if URL is supported
    */
   static isValidUrl(url: string): boolean {
-    const patterns = [
-      // YouTube patterns
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-      /(?:https?:\/\/)?youtu\.be\/([a-zA-Z0-9_-]{11})/,
-      /(?:https?:\/\/)?(?:m\.)?youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-      
-      // Instagram patterns
-      /(?:https?:\/\/)?(?:www\.)?instagram\.com\/(p|reel|tv)\/([a-zA-Z0-9_-]+)/,
-    ];
-    
-    return patterns.some(pattern => pattern.test(url));
+    return parseMediaUrl(url) !== null;
   }
 
   /**
    * Extract video ID from URL
    */
   static extractVideoId(url: string): string | null {
-    // YouTube ID extraction
-    const ytPatterns = [
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-      /(?:https?:\/\/)?youtu\.be\/([a-zA-Z0-9_-]{11})/,
-      /(?:https?:\/\/)?(?:m\.)?youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-    ];
-    
-    for (const pattern of ytPatterns) {
-      const match = url.match(pattern);
-      if (match) return match[1];
-    }
-    
-    // Instagram ID extraction
-    const igMatch = url.match(/(?:https?:\/\/)?(?:www\.)?instagram\.com\/(p|reel|tv)\/([a-zA-Z0-9_-]+)/);
-    if (igMatch) return igMatch[2];
-    
-    return null;
+    return parseMediaUrl(url)?.id ?? null;
   }
 
   /**
    * Get platform from URL
    */
-  static getPlatform(url: string): 'youtube' | 'instagram' | null {
-    if (url.includes('youtube.com') || url.includes('youtu.be')) {
-      return 'youtube';
-    }
-    if (url.includes('instagram.com')) {
-      return 'instagram';
-    }
-    return null;
+  static getPlatform(url: string): Platform | null {
+    return parseMediaUrl(url)?.platform ?? null;
   }
 
   /**
@@ -266,4 +889,17 @@ export class DownloadService {
     }
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   }
+
+  /**
+   * Parse a time in the format produced by formatDuration ("ss", "m:ss" or "h:mm:ss")
+   */
+  static parseDuration(value: string): number | null {
+    const parts = value.trim().split(':');
+    if (parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+    const numbers = parts.map(part => parseInt(part, 10));
+    // Only the leading field may exceed 59
+    if (numbers.slice(1).some(part => part > 59)) return null;
+    return numbers.reduce((total, part) => total * 60 + part, 0);
+  }
 }
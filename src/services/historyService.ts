@@ -0,0 +1,130 @@
+import { DownloadRequest, DownloadResponse, VideoInfo, ChosenFormat } from './downloadService';
+import { parseMediaUrl, Platform } from '../shared/mediaUrl.mjs';
+
+export type HistoryOutcome = 'done' | 'failed' | 'cancelled';
+
+/** VideoInfo without the format list, whose stream URLs expire within hours */
+export type HistoryVideoInfo = Omit<VideoInfo, 'formats'>;
+
+export interface HistoryEntry {
+  /** Assigned by IndexedDB */
+  id?: number;
+  /** ISO timestamp of when the download finished */
+  timestamp: string;
+  title: string;
+  platform?: Platform;
+  request: DownloadRequest;
+  videoInfo?: HistoryVideoInfo;
+  outcome: HistoryOutcome;
+  message?: string;
+  filename?: string;
+  chosenFormat?: ChosenFormat;
+}
+
+export class HistoryService {
+  private static readonly DB_NAME = 'ytubesaver';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE = 'downloads';
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static listeners = new Set<() => void>();
+
+  /**
+   * Store the outcome of a finished, failed or cancelled download
+   */
+  static async record(request: DownloadRequest, response: DownloadResponse, details: { videoInfo?: VideoInfo | null; title?: string } = {}): Promise<void> {
+    const { videoInfo, title } = details;
+    const historyInfo = videoInfo && videoInfo.id !== 'unknown' ? this.withoutFormats(videoInfo) : undefined;
+
+    const entry: HistoryEntry = {
+      timestamp: new Date().toISOString(),
+      title: historyInfo?.title || title || request.url,
+      platform: historyInfo?.platform || parseMediaUrl(request.url)?.platform,
+      request,
+      videoInfo: historyInfo,
+      outcome: response.success ? 'done' : response.cancelled ? 'cancelled' : 'failed',
+      message: response.success ? undefined : response.message,
+      filename: response.filename,
+      chosenFormat: response.chosenFormat
+    };
+
+    try {
+      await this.transaction('readwrite', store => store.add(entry));
+      this.notify();
+    } catch (error) {
+      // History is a convenience; a full or blocked database must not break downloads
+      console.error('❌ Could not save download history:', error);
+    }
+  }
+
+  /**
+   * All entries, newest first
+   */
+  static async list(): Promise<HistoryEntry[]> {
+    const entries = await this.transaction<HistoryEntry[]>('readonly', store => store.getAll());
+    return entries.reverse();
+  }
+
+  static async remove(id: number): Promise<void> {
+    await this.transaction('readwrite', store => store.delete(id));
+    this.notify();
+  }
+
+  static async clear(): Promise<void> {
+    await this.transaction('readwrite', store => store.clear());
+    this.notify();
+  }
+
+  /**
+   * Call `listener` whenever entries are added or removed. Returns an unsubscribe function.
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private static withoutFormats(videoInfo: VideoInfo): HistoryVideoInfo {
+    const { formats, ...rest } = videoInfo;
+    return rest;
+  }
+
+  private static openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        request.onupgradeneeded = () => {
+          // Auto-incremented keys keep entries in insertion order
+          request.result.createObjectStore(this.STORE, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry, e.g. after the user unblocks storage
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async transaction<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDb();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(this.STORE, mode).objectStore(this.STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export default HistoryService;
@@ -0,0 +1,134 @@
+import { array, boolean, check, object, oneOf, optional, string, Schema, Shape } from '../shared/schema.mjs';
+import { MetadataOptions, SUBTITLE_FORMATS, SubtitleFormat } from '../shared/api.mjs';
+import { AUDIO_QUALITIES, CONTAINERS, Container, VIDEO_QUALITIES } from '../shared/formatSelector.mjs';
+
+/** Parallel downloads the queue can run */
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 5];
+
+/** Defaults for new downloads and the backend to use, kept on this device */
+export interface Settings {
+  /** Backend API base URL, e.g. https://ytubesaver.example.com/api; empty uses the one the app was built with */
+  backendUrl: string;
+  /** Subtitles-only downloads need a loaded video, so they cannot be the default */
+  format: 'video' | 'audio';
+  videoQuality: string;
+  audioQuality: string;
+  container: Container;
+  /** Picked automatically when a loaded video has subtitles in these languages */
+  subtitleLanguages: string[];
+  subtitleFormat: SubtitleFormat;
+  metadata: MetadataOptions;
+  /** Names saved files, see src/shared/filenameTemplate.mjs; empty uses the server's template */
+  filenameTemplate: string;
+  /** Parallel downloads in the queue */
+  concurrency: number;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  backendUrl: '',
+  format: 'video',
+  videoQuality: '1080p',
+  audioQuality: '192kbps',
+  container: 'mp4',
+  subtitleLanguages: [],
+  subtitleFormat: 'srt',
+  metadata: {},
+  filenameTemplate: '',
+  concurrency: 2
+};
+
+const settingsShape: Shape<Settings> = {
+  backendUrl: string(),
+  format: oneOf(['video', 'audio']),
+  videoQuality: oneOf(VIDEO_QUALITIES),
+  audioQuality: oneOf(AUDIO_QUALITIES),
+  container: oneOf(CONTAINERS),
+  subtitleLanguages: array(string()),
+  subtitleFormat: oneOf(SUBTITLE_FORMATS),
+  metadata: object({ tags: optional(boolean()), coverArt: optional(boolean()), chapters: optional(boolean()) }),
+  filenameTemplate: string(),
+  concurrency: oneOf(CONCURRENCY_OPTIONS)
+};
+
+export class SettingsService {
+  private static readonly STORAGE_KEY = 'ytubesaver.settings';
+  private static settings: Settings | null = null;
+  private static listeners = new Set<() => void>();
+
+  /**
+   * Current settings. Stored values that are no longer valid, e.g. after an
+   * app update dropped a quality preset, fall back to their defaults.
+   */
+  static get(): Settings {
+    if (!this.settings) this.settings = this.load();
+    return this.settings;
+  }
+
+  /**
+   * Change some settings and store them on this device
+   */
+  static update(changes: Partial<Settings>): Settings {
+    this.settings = { ...this.get(), ...changes };
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      // The settings still apply until the page is reloaded
+      console.error('❌ Could not save settings:', error);
+    }
+    this.notify();
+    return this.settings;
+  }
+
+  /**
+   * Go back to the defaults, keeping the backend URL
+   */
+  static reset(): Settings {
+    return this.update({ ...DEFAULT_SETTINGS, backendUrl: this.get().backendUrl });
+  }
+
+  /**
+   * Call `listener` whenever settings change. Returns an unsubscribe function.
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Backend URLs are stored without a trailing slash; anything that is not
+   * an http(s) URL is rejected
+   */
+  static normalizeBackendUrl(value: string): string | null {
+    const trimmed = value.trim().replace(/\/+$/, '');
+    if (!trimmed) return '';
+    try {
+      const { protocol } = new URL(trimmed);
+      return protocol === 'http:' || protocol === 'https:' ? trimmed : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static load(): Settings {
+    let stored: Record<string, unknown> = {};
+    try {
+      stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}') || {};
+    } catch (error) {
+      console.warn('Ignoring unreadable settings:', error);
+    }
+
+    const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+    (Object.keys(settingsShape) as (keyof Settings)[]).forEach(key => {
+      if (stored[key] === undefined) return;
+      const { value, errors } = check(settingsShape[key] as Schema, stored[key]);
+      if (errors.length === 0) settings[key] = value;
+    });
+    return settings as unknown as Settings;
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
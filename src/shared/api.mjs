@@ -0,0 +1,677 @@
+// @ts-check
+// Request and response types of the backend API, shared by backend/server.js
+// and DownloadService, with schemas that both sides validate against at runtime.
+//
+// Bump API_VERSION whenever a change would break an older client, such as a
+// PWA still running from its cache. The server sends it in the X-API-Version
+// header so the client can tell the user to reload.
+
+import { array, boolean, number, object, oneOf, optional, string } from './schema.mjs';
+import { VIDEO_CODECS, CONTAINERS } from './formatSelector.mjs';
+import { ERROR_CODES } from './errors.mjs';
+import { PLATFORMS } from './platforms.mjs';
+
+export const API_VERSION = 1;
+export const API_VERSION_HEADER = 'X-API-Version';
+
+/**
+ * @typedef {import('./schema.mjs').Schema} Schema
+ * @typedef {import('./platforms.mjs').Platform} Platform
+ * @typedef {import('./formatSelector.mjs').VideoCodec} VideoCodec
+ * @typedef {import('./formatSelector.mjs').Container} Container
+ * @typedef {import('./errors.mjs').ErrorCode} ErrorCode
+ */
+
+/**
+ * @template T
+ * @typedef {import('./schema.mjs').Shape<T>} Shape
+ */
+
+/**
+ * @typedef {'video' | 'audio' | 'subtitles'} DownloadFormat
+ * @typedef {'srt' | 'vtt' | 'embed'} SubtitleFormat Separate SRT or VTT files, or subtitles embedded in an MP4/MKV video
+ * @typedef {'queued' | 'extracting' | 'downloading' | 'merging' | 'converting' | 'post-processing'} DownloadPhase
+ * @typedef {'queued' | 'running' | 'post-processing' | 'done' | 'failed' | 'cancelled' | 'expired'} JobState
+ * @typedef {'video' | 'image'} MediaItemKind
+ */
+
+export { PLATFORMS };
+
+/** @type {DownloadFormat[]} */
+export const DOWNLOAD_FORMATS = ['video', 'audio', 'subtitles'];
+
+/** @type {SubtitleFormat[]} */
+export const SUBTITLE_FORMATS = ['srt', 'vtt', 'embed'];
+
+/** @type {DownloadPhase[]} */
+export const DOWNLOAD_PHASES = ['queued', 'extracting', 'downloading', 'merging', 'converting', 'post-processing'];
+
+/** @type {JobState[]} */
+export const JOB_STATES = ['queued', 'running', 'post-processing', 'done', 'failed', 'cancelled', 'expired'];
+
+/** @type {MediaItemKind[]} */
+export const MEDIA_ITEM_KINDS = ['video', 'image'];
+
+/**
+ * @typedef {Object} VideoFormat
+ * @property {string} format_id
+ * @property {string} ext
+ * @property {string} quality
+ * @property {number} [filesize]
+ * @property {number} [filesize_approx]
+ * @property {string} [url]
+ * @property {string} [format_note]
+ * @property {number} [height]
+ * @property {number} [fps]
+ * @property {string} [vcodec] Codec name as reported by yt-dlp; 'none' marks a missing stream
+ * @property {string} [acodec]
+ * @property {number} [tbr] Total bitrate in kbit/s
+ * @property {number} [abr] Audio bitrate in kbit/s
+ */
+
+/**
+ * @typedef {Object} SubtitleTrack
+ * @property {string} language Language code such as "en" or "pt-BR"
+ * @property {string} name
+ * @property {boolean} automatic True for auto-generated captions
+ */
+
+/**
+ * @typedef {Object} Chapter
+ * @property {string} title
+ * @property {number} startTime Offset in seconds
+ * @property {number} endTime Offset in seconds
+ */
+
+/**
+ * One image or video of a post that holds several, such as an Instagram
+ * carousel or a user's current stories
+ * @typedef {Object} MediaItem
+ * @property {number} index Position in the post, starting at 1
+ * @property {MediaItemKind} kind
+ * @property {string} id
+ * @property {string} thumbnail
+ * @property {string} ext File extension the item is saved with; images keep their own format
+ * @property {string} [url] Direct link to the image, for image items
+ * @property {number} [width]
+ * @property {number} [height]
+ * @property {number} [durationSeconds] Video items only
+ */
+
+/**
+ * @typedef {Object} VideoInfo
+ * @property {string} id
+ * @property {string} title
+ * @property {string} thumbnail
+ * @property {string} duration
+ * @property {number} [durationSeconds] Duration in seconds, when the source reports one
+ * @property {string} uploader
+ * @property {Platform} platform
+ * @property {VideoFormat[]} formats
+ * @property {SubtitleTrack[]} subtitles Manual subtitles followed by auto-generated captions
+ * @property {Chapter[]} chapters
+ * @property {MediaItem[]} [items] Set for posts with several items or a single image;
+ *   the other fields then describe the first video item
+ */
+
+/**
+ * @typedef {Object} PlaylistEntry
+ * @property {string} id
+ * @property {string} url
+ * @property {string} title
+ * @property {string} duration
+ * @property {string} thumbnail
+ */
+
+/**
+ * @typedef {Object} PlaylistInfo
+ * @property {string} id
+ * @property {'playlist' | 'channel'} kind
+ * @property {string} title
+ * @property {string} uploader
+ * @property {string} thumbnail
+ * @property {Platform} platform
+ * @property {string} [currentVideoId] Set when the URL pointed at one video inside the playlist
+ * @property {PlaylistEntry[]} entries
+ */
+
+/**
+ * @typedef {Object} SubtitleOptions
+ * @property {string[]} languages
+ * @property {SubtitleFormat} format
+ */
+
+/**
+ * What to write into the downloaded file; everything is off unless set
+ * @typedef {Object} MetadataOptions
+ * @property {boolean} [tags] Title, uploader, upload date, description and source URL
+ * @property {boolean} [coverArt] The video thumbnail as cover art
+ * @property {boolean} [chapters] Chapter markers, when the source has them
+ */
+
+/**
+ * Body of POST /api/download and POST /api/jobs
+ * @typedef {Object} DownloadRequest
+ * @property {string} url
+ * @property {DownloadFormat} format 'subtitles' downloads only the caption files
+ * @property {string} quality
+ * @property {string} [formatId] Exact yt-dlp format ID; takes precedence over `quality`
+ * @property {VideoCodec} [videoCodec] Preferred video codec; other codecs are used when it is not available
+ * @property {Container} [container] Output container for video downloads, mp4 by default
+ * @property {number} [startTime] Clip start in seconds; only that section is downloaded
+ * @property {number} [endTime] Clip end in seconds
+ * @property {SubtitleOptions} [subtitles]
+ * @property {MetadataOptions} [metadata]
+ * @property {number[]} [items] MediaItem indexes to save from a post with several items; all of them by default
+ * @property {string} [filenameTemplate] Name for the saved file, such as "{uploader} - {title}"; see
+ *   src/shared/filenameTemplate.mjs. The server's template is used by default.
+ * @property {number} [playlistIndex] Position in the playlist the video was picked from, for {playlist_index}
+ */
+
+/**
+ * The format yt-dlp actually downloaded
+ * @typedef {Object} ChosenFormat
+ * @property {string} formatId Combined ID such as "137+140" for merged downloads
+ * @property {string} [formatNote]
+ * @property {string} ext
+ * @property {number} [width]
+ * @property {number} [height]
+ * @property {number} [fps]
+ * @property {string} [vcodec]
+ * @property {string} [acodec]
+ */
+
+/**
+ * @typedef {Object} DownloadProgress
+ * @property {DownloadPhase} phase
+ * @property {number} percent
+ * @property {number} [downloadedBytes]
+ * @property {number} [totalBytes]
+ * @property {number} [speed] Bytes per second
+ * @property {number} [eta] Estimated seconds remaining for the current phase
+ * @property {number} [queuePosition] Place in line during the "queued" phase, starting at 1
+ * @property {number} [estimatedWaitSeconds] Guess of when a queued download starts, once the server has timed a few
+ */
+
+/**
+ * Signed link to one file on the server, valid until the result's expiresAt
+ * @typedef {Object} DownloadLink
+ * @property {string} filename
+ * @property {string} url
+ */
+
+/**
+ * @typedef {Object} DownloadResult
+ * @property {string} filename
+ * @property {string} downloadUrl Signed link to `filename`
+ * @property {string[]} [subtitleFiles] Separate subtitle files written next to the download
+ * @property {string[]} [itemFiles] One file per saved item of a post with several, in order; `filename` is the first
+ * @property {DownloadLink[]} links Every file of the download, `filename` first
+ * @property {ChosenFormat} [chosenFormat]
+ * @property {string} [sha256] Hex SHA-256 of the downloaded file
+ * @property {string} expiresAt ISO timestamp after which the files are deleted and the links stop working
+ */
+
+/**
+ * @typedef {Object} DownloadJob
+ * @property {string} id
+ * @property {JobState} state
+ * @property {DownloadRequest} request
+ * @property {DownloadProgress} [progress]
+ * @property {DownloadResult} [result]
+ * @property {string} [error]
+ * @property {ErrorCode} [errorCode] Set together with error
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string} [finishedAt]
+ */
+
+/**
+ * @typedef {Object} ErrorResponse
+ * @property {false} success
+ * @property {ErrorCode} code
+ * @property {string} message
+ * @property {boolean} retryable Whether sending the same request again may succeed
+ * @property {string} [error] Details such as yt-dlp's stderr
+ */
+
+/**
+ * @typedef {Object} MessageResponse
+ * @property {true} success
+ * @property {string} message
+ */
+
+/**
+ * @typedef {Object} VideoInfoResponse
+ * @property {true} success
+ * @property {VideoInfo} [videoInfo]
+ * @property {PlaylistInfo} [playlistInfo] Sent instead of videoInfo for playlist and channel URLs
+ * @property {boolean} [cached] Whether the server answered from its cache
+ * @property {string} [fetchedAt] ISO timestamp of when the information was extracted
+ */
+
+/**
+ * Result of POST /api/download
+ * @typedef {Object} DownloadResultResponse
+ * @property {true} success
+ * @property {string} message
+ * @property {string} downloadUrl
+ * @property {string} filename
+ * @property {string[]} [subtitleFiles]
+ * @property {string[]} [itemFiles]
+ * @property {DownloadLink[]} links
+ * @property {ChosenFormat} [chosenFormat]
+ * @property {string} [sha256]
+ * @property {string} expiresAt
+ */
+
+/**
+ * @typedef {Object} JobResponse
+ * @property {true} success
+ * @property {DownloadJob} job
+ */
+
+/**
+ * @typedef {Object} JobsResponse
+ * @property {true} success
+ * @property {DownloadJob[]} jobs
+ */
+
+/**
+ * @typedef {Object} HealthResponse
+ * @property {string} status
+ * @property {string} message
+ * @property {string} timestamp
+ * @property {number} apiVersion
+ */
+
+/**
+ * @typedef {Object} ToolStatus
+ * @property {boolean} available
+ * @property {string} [version]
+ */
+
+/**
+ * @typedef {Object} ServerLimits
+ * @property {number} [maxDurationSeconds] Longest video that can be downloaded; unset means no limit
+ * @property {number} [maxFileSizeBytes] Largest file that can be downloaded; unset means no limit
+ * @property {number} maxPlaylistEntries
+ * @property {number} maxSubtitleLanguages
+ * @property {number} maxConcurrentJobs
+ * @property {number} maxExtractorProcesses yt-dlp processes the server runs at once; more requests wait in line
+ * @property {number} maxQueueLength Requests that can wait in line before new ones get a 429
+ * @property {number} rateLimitMax Requests a client can send to video info, download and job creation per window
+ * @property {number} rateLimitWindowSeconds
+ * @property {number} downloadTimeoutSeconds
+ * @property {number} fileRetentionSeconds How long finished files can be fetched
+ */
+
+/**
+ * Everything except playlists and plain subtitles needs ffmpeg
+ * @typedef {Object} ServerFeatures
+ * @property {boolean} merge Merging separate video and audio streams, needed above 720p
+ * @property {boolean} clips
+ * @property {boolean} subtitleConversion Subtitles as SRT; VTT needs no conversion
+ * @property {boolean} embedSubtitles
+ * @property {boolean} metadata Tags, cover art and chapters
+ * @property {boolean} playlists
+ */
+
+/**
+ * @typedef {Object} Capabilities
+ * @property {number} apiVersion
+ * @property {'ok' | 'degraded'} status
+ * @property {string[]} problems Why the server is degraded, for people
+ * @property {ToolStatus} extractor yt-dlp
+ * @property {ToolStatus} ffmpeg
+ * @property {Platform[]} platforms
+ * @property {Platform[]} signedIn Platforms the server has an account's cookies for, needed for
+ *   content such as Instagram stories
+ * @property {DownloadFormat[]} formats
+ * @property {Container[]} containers
+ * @property {VideoCodec[]} videoCodecs
+ * @property {SubtitleFormat[]} subtitleFormats
+ * @property {ServerLimits} limits
+ * @property {ServerFeatures} features
+ * @property {string} filenameTemplate Used for downloads that do not set one
+ */
+
+/**
+ * @typedef {Object} CapabilitiesResponse
+ * @property {true} success
+ * @property {Capabilities} capabilities
+ */
+
+/**
+ * What one access token has been used for since the server started
+ * @typedef {Object} TokenUsage
+ * @property {string} label Usually the name of the person the token was given to
+ * @property {number} requests API requests
+ * @property {number} downloads Downloads and jobs started
+ * @property {number} files Files fetched through download links
+ * @property {string} [lastUsedAt] ISO timestamp
+ */
+
+/**
+ * @typedef {Object} UsageResponse
+ * @property {true} success
+ * @property {TokenUsage} usage
+ */
+
+const succeeded = oneOf([true]);
+
+/** @type {Shape<VideoFormat>} */
+const videoFormatShape = {
+  format_id: string(),
+  ext: string(),
+  quality: string(),
+  filesize: optional(number()),
+  filesize_approx: optional(number()),
+  url: optional(string()),
+  format_note: optional(string()),
+  height: optional(number()),
+  fps: optional(number()),
+  vcodec: optional(string()),
+  acodec: optional(string()),
+  tbr: optional(number()),
+  abr: optional(number()),
+};
+
+/** @type {Shape<SubtitleTrack>} */
+const subtitleTrackShape = {
+  language: string(),
+  name: string(),
+  automatic: boolean(),
+};
+
+/** @type {Shape<Chapter>} */
+const chapterShape = {
+  title: string(),
+  startTime: number(),
+  endTime: number(),
+};
+
+/** @type {Shape<MediaItem>} */
+const mediaItemShape = {
+  index: number(),
+  kind: oneOf(MEDIA_ITEM_KINDS),
+  id: string(),
+  thumbnail: string(),
+  ext: string(),
+  url: optional(string()),
+  width: optional(number()),
+  height: optional(number()),
+  durationSeconds: optional(number()),
+};
+
+/** @type {Shape<VideoInfo>} */
+const videoInfoShape = {
+  id: string(),
+  title: string(),
+  thumbnail: string(),
+  duration: string(),
+  durationSeconds: optional(number()),
+  uploader: string(),
+  platform: oneOf(PLATFORMS),
+  formats: array(object(videoFormatShape)),
+  subtitles: array(object(subtitleTrackShape)),
+  chapters: array(object(chapterShape)),
+  items: optional(array(object(mediaItemShape))),
+};
+
+/** @type {Shape<PlaylistEntry>} */
+const playlistEntryShape = {
+  id: string(),
+  url: string(),
+  title: string(),
+  duration: string(),
+  thumbnail: string(),
+};
+
+/** @type {Shape<PlaylistInfo>} */
+const playlistInfoShape = {
+  id: string(),
+  kind: oneOf(['playlist', 'channel']),
+  title: string(),
+  uploader: string(),
+  thumbnail: string(),
+  platform: oneOf(PLATFORMS),
+  currentVideoId: optional(string()),
+  entries: array(object(playlistEntryShape)),
+};
+
+/** @type {Shape<SubtitleOptions>} */
+const subtitleOptionsShape = {
+  languages: array(string()),
+  format: oneOf(SUBTITLE_FORMATS),
+};
+
+/** @type {Shape<MetadataOptions>} */
+const metadataOptionsShape = {
+  tags: optional(boolean()),
+  coverArt: optional(boolean()),
+  chapters: optional(boolean()),
+};
+
+/** @type {Shape<DownloadRequest>} */
+const downloadRequestShape = {
+  url: string(),
+  format: oneOf(DOWNLOAD_FORMATS),
+  quality: string(),
+  formatId: optional(string()),
+  videoCodec: optional(oneOf(VIDEO_CODECS)),
+  container: optional(oneOf(CONTAINERS)),
+  startTime: optional(number()),
+  endTime: optional(number()),
+  subtitles: optional(object(subtitleOptionsShape)),
+  metadata: optional(object(metadataOptionsShape)),
+  items: optional(array(number())),
+  filenameTemplate: optional(string()),
+  playlistIndex: optional(number()),
+};
+
+/** @type {Shape<ChosenFormat>} */
+const chosenFormatShape = {
+  formatId: string(),
+  formatNote: optional(string()),
+  ext: string(),
+  width: optional(number()),
+  height: optional(number()),
+  fps: optional(number()),
+  vcodec: optional(string()),
+  acodec: optional(string()),
+};
+
+/** @type {Shape<DownloadLink>} */
+const downloadLinkShape = {
+  filename: string(),
+  url: string(),
+};
+
+/** @type {Shape<DownloadProgress>} */
+const downloadProgressShape = {
+  phase: oneOf(DOWNLOAD_PHASES),
+  percent: number(),
+  downloadedBytes: optional(number()),
+  totalBytes: optional(number()),
+  speed: optional(number()),
+  eta: optional(number()),
+  queuePosition: optional(number()),
+  estimatedWaitSeconds: optional(number()),
+};
+
+/** @type {Shape<DownloadResult>} */
+const downloadResultShape = {
+  filename: string(),
+  downloadUrl: string(),
+  subtitleFiles: optional(array(string())),
+  itemFiles: optional(array(string())),
+  links: array(object(downloadLinkShape)),
+  chosenFormat: optional(object(chosenFormatShape)),
+  sha256: optional(string()),
+  expiresAt: string(),
+};
+
+/** @type {Shape<DownloadJob>} */
+const downloadJobShape = {
+  id: string(),
+  state: oneOf(JOB_STATES),
+  request: object(downloadRequestShape),
+  progress: optional(object(downloadProgressShape)),
+  result: optional(object(downloadResultShape)),
+  error: optional(string()),
+  errorCode: optional(oneOf(ERROR_CODES)),
+  createdAt: string(),
+  updatedAt: string(),
+  finishedAt: optional(string()),
+};
+
+/** @type {Shape<ErrorResponse>} */
+const errorResponseShape = {
+  success: oneOf([false]),
+  code: oneOf(ERROR_CODES),
+  message: string(),
+  retryable: boolean(),
+  error: optional(string()),
+};
+
+/** @type {Shape<MessageResponse>} */
+const messageResponseShape = {
+  success: succeeded,
+  message: string(),
+};
+
+/** @type {Shape<VideoInfoResponse>} */
+const videoInfoResponseShape = {
+  success: succeeded,
+  videoInfo: optional(object(videoInfoShape)),
+  playlistInfo: optional(object(playlistInfoShape)),
+  cached: optional(boolean()),
+  fetchedAt: optional(string()),
+};
+
+/** @type {Shape<DownloadResultResponse>} */
+const downloadResultResponseShape = {
+  success: succeeded,
+  message: string(),
+  downloadUrl: string(),
+  filename: string(),
+  subtitleFiles: optional(array(string())),
+  itemFiles: optional(array(string())),
+  links: array(object(downloadLinkShape)),
+  chosenFormat: optional(object(chosenFormatShape)),
+  sha256: optional(string()),
+  expiresAt: string(),
+};
+
+/** @type {Shape<JobResponse>} */
+const jobResponseShape = {
+  success: succeeded,
+  job: object(downloadJobShape),
+};
+
+/** @type {Shape<JobsResponse>} */
+const jobsResponseShape = {
+  success: succeeded,
+  jobs: array(object(downloadJobShape)),
+};
+
+/** @type {Shape<HealthResponse>} */
+const healthResponseShape = {
+  status: string(),
+  message: string(),
+  timestamp: string(),
+  apiVersion: number(),
+};
+
+/** @type {Shape<ToolStatus>} */
+const toolStatusShape = {
+  available: boolean(),
+  version: optional(string()),
+};
+
+/** @type {Shape<ServerLimits>} */
+const serverLimitsShape = {
+  maxDurationSeconds: optional(number()),
+  maxFileSizeBytes: optional(number()),
+  maxPlaylistEntries: number(),
+  maxSubtitleLanguages: number(),
+  maxConcurrentJobs: number(),
+  maxExtractorProcesses: number(),
+  maxQueueLength: number(),
+  rateLimitMax: number(),
+  rateLimitWindowSeconds: number(),
+  downloadTimeoutSeconds: number(),
+  fileRetentionSeconds: number(),
+};
+
+/** @type {Shape<ServerFeatures>} */
+const serverFeaturesShape = {
+  merge: boolean(),
+  clips: boolean(),
+  subtitleConversion: boolean(),
+  embedSubtitles: boolean(),
+  metadata: boolean(),
+  playlists: boolean(),
+};
+
+/** @type {Shape<Capabilities>} */
+const capabilitiesShape = {
+  apiVersion: number(),
+  status: oneOf(['ok', 'degraded']),
+  problems: array(string()),
+  extractor: object(toolStatusShape),
+  ffmpeg: object(toolStatusShape),
+  platforms: array(oneOf(PLATFORMS)),
+  signedIn: array(oneOf(PLATFORMS)),
+  formats: array(oneOf(DOWNLOAD_FORMATS)),
+  containers: array(oneOf(CONTAINERS)),
+  videoCodecs: array(oneOf(VIDEO_CODECS)),
+  subtitleFormats: array(oneOf(SUBTITLE_FORMATS)),
+  limits: object(serverLimitsShape),
+  features: object(serverFeaturesShape),
+  filenameTemplate: string(),
+};
+
+/** @type {Shape<CapabilitiesResponse>} */
+const capabilitiesResponseShape = {
+  success: succeeded,
+  capabilities: object(capabilitiesShape),
+};
+
+/** @type {Shape<TokenUsage>} */
+const tokenUsageShape = {
+  label: string(),
+  requests: number(),
+  downloads: number(),
+  files: number(),
+  lastUsedAt: optional(string()),
+};
+
+/** @type {Shape<UsageResponse>} */
+const usageResponseShape = {
+  success: succeeded,
+  usage: object(tokenUsageShape),
+};
+
+export const videoInfoSchema = object(videoInfoShape);
+export const playlistInfoSchema = object(playlistInfoShape);
+export const downloadRequestSchema = object(downloadRequestShape);
+export const downloadJobSchema = object(downloadJobShape);
+export const errorResponseSchema = object(errorResponseShape);
+export const messageResponseSchema = object(messageResponseShape);
+export const downloadResultResponseSchema = object(downloadResultResponseShape);
+export const jobResponseSchema = object(jobResponseShape);
+export const jobsResponseSchema = object(jobsResponseShape);
+export const healthResponseSchema = object(healthResponseShape);
+export const capabilitiesResponseSchema = object(capabilitiesResponseShape);
+export const usageResponseSchema = object(usageResponseShape);
+
+/** @type {Schema} */
+export const videoInfoResponseSchema = (value, path, errors) => {
+  const result = object(videoInfoResponseShape)(value, path, errors);
+  if (result && !result.videoInfo === !result.playlistInfo) {
+    errors.push('exactly one of videoInfo and playlistInfo must be set');
+  }
+  return result;
+};
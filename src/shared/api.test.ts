@@ -0,0 +1,218 @@
+import {
+  DownloadJob,
+  DownloadRequest,
+  downloadRequestSchema,
+  errorResponseSchema,
+  jobResponseSchema,
+  jobsResponseSchema,
+  videoInfoResponseSchema,
+  capabilitiesResponseSchema,
+  usageResponseSchema
+} from './api.mjs';
+import { check, parse, SchemaError } from './schema.mjs';
+import { parseMediaUrl } from './mediaUrl.mjs';
+import { toPlaylistInfo, toVideoInfo } from './ytdlpInfo.mjs';
+
+// Contract tests: what the server builds must pass the schemas unchanged, and
+// what the client sends must pass the server's request schema. Anything the
+// schema drops or rejects means one side has drifted.
+
+// JSON has no undefined, and the schemas treat null as absent
+const asSent = (value: unknown) => JSON.parse(JSON.stringify(value), (key, entry) => (entry === null ? undefined : entry));
+
+const expectUnchanged = (schema: Parameters<typeof check>[0], value: unknown) => {
+  const sent = asSent(value);
+  const result = check(schema, sent);
+  expect(result.errors).toEqual([]);
+  expect(result.value).toEqual(sent);
+};
+
+// Trimmed `yt-dlp -j` output, including the nulls yt-dlp uses for unknown values
+const ytDlpVideo = {
+  id: 'dQw4w9WgXcQ',
+  title: 'Never Gonna Give You Up',
+  thumbnail: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg',
+  duration: 213,
+  duration_string: '3:33',
+  uploader: 'Rick Astley',
+  formats: [
+    { format_id: '251', ext: 'webm', format_note: 'medium', filesize: 3437753, filesize_approx: null, url: 'https://example.com/251', height: null, fps: null, vcodec: 'none', acodec: 'opus', tbr: 129.5, abr: 129.5 },
+    { format_id: '137', ext: 'mp4', format_note: '1080p', filesize: null, filesize_approx: 80000000, url: 'https://example.com/137', height: 1080, fps: 25, vcodec: 'avc1.640028', acodec: 'none', tbr: 2500, abr: null },
+  ],
+  subtitles: { en: [{ ext: 'vtt', name: 'English' }], live_chat: [{ ext: 'json' }] },
+  automatic_captions: { de: [{ ext: 'vtt', name: 'German' }] },
+  chapters: [{ title: 'Intro', start_time: 0, end_time: 18 }, { title: null, start_time: 18, end_time: 213 }],
+  // Fields the API does not pass on
+  view_count: 1500000000,
+  tags: ['music'],
+};
+
+const ytDlpPlaylist = {
+  id: 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf',
+  title: 'Favourites',
+  uploader: null,
+  channel: 'Someone',
+  entries: [
+    { id: 'dQw4w9WgXcQ', url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', title: 'Never Gonna Give You Up', duration: 213, thumbnails: [{ url: 'https://i.ytimg.com/small.jpg' }, { url: 'https://i.ytimg.com/large.jpg' }] },
+    { id: 'private', url: null, title: '[Private video]', duration: null, thumbnails: [] },
+    null,
+  ],
+};
+
+// Trimmed `yt-dlp -J` output for an Instagram carousel of a video and an image
+const ytDlpCarousel = {
+  _type: 'playlist',
+  id: 'C1rC4r0uSeL',
+  title: 'Post by someone',
+  uploader: 'someone',
+  entries: [
+    { id: '3301', ext: 'mp4', duration: 12.5, thumbnail: 'https://cdn.example.com/3301.jpg', formats: [{ format_id: '1', ext: 'mp4', height: 1080, vcodec: 'avc1', acodec: 'mp4a' }] },
+    { id: '3302', ext: 'jpg', url: 'https://cdn.example.com/3302.jpg', width: 1080, height: 1350, thumbnail: 'https://cdn.example.com/3302.jpg' },
+  ],
+};
+
+const request: DownloadRequest = {
+  url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+  format: 'video',
+  quality: '1080p',
+  videoCodec: 'vp9',
+  container: 'mkv',
+  startTime: 30,
+  endTime: 90,
+  subtitles: { languages: ['en', 'pt-BR'], format: 'embed' },
+  metadata: { tags: true, chapters: true },
+};
+
+const job: DownloadJob = {
+  id: '4d30049c-2804-4729-9be5-83b557b457ed',
+  state: 'done',
+  request,
+  progress: { phase: 'merging', percent: 100 },
+  result: {
+    filename: 'dQw4w9WgXcQ_1757514600000.mkv',
+    downloadUrl: 'http://localhost:3001/downloads/dQw4w9WgXcQ_1757514600000.mkv?expires=1757518260000&signature=c2lnbmF0dXJl',
+    subtitleFiles: [],
+    links: [{ filename: 'dQw4w9WgXcQ_1757514600000.mkv', url: 'http://localhost:3001/downloads/dQw4w9WgXcQ_1757514600000.mkv?expires=1757518260000&signature=c2lnbmF0dXJl' }],
+    chosenFormat: { formatId: '248+251', ext: 'mkv', width: 1920, height: 1080, fps: 25, vcodec: 'vp9', acodec: 'opus' },
+    sha256: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    expiresAt: '2025-09-10T15:31:00.000Z',
+  },
+  createdAt: '2025-09-10T14:30:00.000Z',
+  updatedAt: '2025-09-10T14:31:00.000Z',
+  finishedAt: '2025-09-10T14:31:00.000Z',
+};
+
+describe('server responses', () => {
+  test('video info built from yt-dlp output', () => {
+    const media = parseMediaUrl('https://youtu.be/dQw4w9WgXcQ')!;
+    const videoInfo = toVideoInfo(ytDlpVideo, media);
+
+    expectUnchanged(videoInfoResponseSchema, { success: true, videoInfo });
+    expect(videoInfo.subtitles).toEqual([
+      { language: 'en', name: 'English', automatic: false },
+      { language: 'de', name: 'German', automatic: true },
+    ]);
+    expect(videoInfo.chapters[1]).toEqual({ title: 'Chapter 2', startTime: 18, endTime: 213 });
+  });
+
+  test('post items built from yt-dlp output', () => {
+    const media = parseMediaUrl('https://www.instagram.com/p/C1rC4r0uSeL/')!;
+    const videoInfo = toVideoInfo(ytDlpCarousel, media);
+
+    expectUnchanged(videoInfoResponseSchema, { success: true, videoInfo });
+    expect(videoInfo).toMatchObject({ id: 'C1rC4r0uSeL', title: 'Post by someone', durationSeconds: 12.5 });
+    expect(videoInfo.items).toEqual([
+      { index: 1, kind: 'video', id: '3301', thumbnail: 'https://cdn.example.com/3301.jpg', ext: 'mp4', durationSeconds: 12.5 },
+      { index: 2, kind: 'image', id: '3302', thumbnail: 'https://cdn.example.com/3302.jpg', ext: 'jpg', url: 'https://cdn.example.com/3302.jpg', width: 1080, height: 1350 },
+    ]);
+    expect(toVideoInfo(ytDlpVideo, parseMediaUrl('https://youtu.be/dQw4w9WgXcQ')!).items).toBeUndefined();
+  });
+
+  test('playlist info built from yt-dlp output', () => {
+    const media = parseMediaUrl('https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf')!;
+    const playlistInfo = toPlaylistInfo(ytDlpPlaylist, media);
+
+    expectUnchanged(videoInfoResponseSchema, { success: true, playlistInfo });
+    expect(playlistInfo.entries.map(entry => entry.duration)).toEqual(['3:33', 'Unknown']);
+    expect(playlistInfo.thumbnail).toBe('https://i.ytimg.com/large.jpg');
+  });
+
+  test('jobs', () => {
+    expectUnchanged(jobResponseSchema, { success: true, job });
+    expectUnchanged(jobsResponseSchema, { success: true, jobs: [job, { ...job, state: 'queued', progress: undefined, result: undefined }] });
+  });
+
+  test('errors', () => {
+    expectUnchanged(errorResponseSchema, { success: false, code: 'removed', message: 'Failed to fetch video information', retryable: false, error: 'ERROR: Video unavailable' });
+    expectUnchanged(jobResponseSchema, { success: true, job: { ...job, state: 'failed', result: undefined, error: 'This video is private', errorCode: 'private' } });
+  });
+
+  test('capabilities', () => {
+    expectUnchanged(capabilitiesResponseSchema, {
+      success: true,
+      capabilities: {
+        apiVersion: 1,
+        status: 'degraded',
+        problems: ['ffmpeg is not installed on the server'],
+        extractor: { available: true, version: '2025.09.05' },
+        ffmpeg: { available: false },
+        platforms: ['youtube', 'instagram'],
+        signedIn: ['instagram'],
+        formats: ['video', 'subtitles'],
+        containers: ['mp4'],
+        videoCodecs: ['avc1', 'vp9', 'av1'],
+        subtitleFormats: ['vtt'],
+        limits: { maxDurationSeconds: 7200, maxFileSizeBytes: undefined, maxPlaylistEntries: 200, maxSubtitleLanguages: 20, maxConcurrentJobs: 2, maxExtractorProcesses: 4, maxQueueLength: 50, rateLimitMax: 30, rateLimitWindowSeconds: 60, downloadTimeoutSeconds: 300, fileRetentionSeconds: 3600 },
+        features: { merge: false, clips: false, subtitleConversion: false, embedSubtitles: false, metadata: false, playlists: true },
+        filenameTemplate: '{title} [{id}]',
+      },
+    });
+  });
+
+  test('token usage matches', () => {
+    expectUnchanged(usageResponseSchema, {
+      success: true,
+      usage: { label: 'Ana', requests: 12, downloads: 3, files: 4, lastUsedAt: '2025-09-10T14:30:00.000Z' },
+    });
+    expectUnchanged(usageResponseSchema, { success: true, usage: { label: 'Bob', requests: 0, downloads: 0, files: 0 } });
+  });
+
+  test('video info needs exactly one of videoInfo and playlistInfo', () => {
+    expect(check(videoInfoResponseSchema, { success: true }).errors).toEqual(['exactly one of videoInfo and playlistInfo must be set']);
+  });
+
+  test('the old { data } video info shape is rejected', () => {
+    const media = parseMediaUrl('https://youtu.be/dQw4w9WgXcQ')!;
+    expect(() => parse(videoInfoResponseSchema, { success: true, data: toVideoInfo(ytDlpVideo, media) }, 'response')).toThrow(SchemaError);
+  });
+});
+
+describe('download requests', () => {
+  test('accepts what the client sends', () => {
+    expectUnchanged(downloadRequestSchema, request);
+    expectUnchanged(downloadRequestSchema, { url: 'https://www.instagram.com/p/C1rC4r0uSeL/', format: 'video', quality: 'best', items: [2, 3] });
+    expectUnchanged(downloadRequestSchema, { url: 'https://youtu.be/dQw4w9WgXcQ', format: 'audio', quality: '192kbps', filenameTemplate: '{playlist_index}. {title}', playlistIndex: 4 });
+  });
+
+  test('drops unknown options', () => {
+    expect(parse(downloadRequestSchema, { ...request, cookies: 'secret' }, 'request')).toEqual(request);
+  });
+
+  test('reports every problem with its path', () => {
+    expect(check(downloadRequestSchema, {
+      url: 'https://youtu.be/dQw4w9WgXcQ',
+      format: 'gif',
+      startTime: '30',
+      subtitles: { languages: ['en', 7], format: 'srt' },
+    }).errors).toEqual([
+      'format must be one of: video, audio, subtitles',
+      'quality must be a string',
+      'startTime must be a number',
+      'subtitles.languages[1] must be a string',
+    ]);
+  });
+
+  test('rejects a body that is not an object', () => {
+    expect(() => parse(downloadRequestSchema, [request], 'download request')).toThrow('Invalid download request: value must be an object');
+  });
+});
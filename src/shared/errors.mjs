@@ -0,0 +1,90 @@
+// @ts-check
+// Stable error codes shared by the backend and the React app. The backend
+// classifies yt-dlp failures into these codes so the app can explain what went
+// wrong instead of showing yt-dlp's stderr.
+
+/**
+ * @typedef {'private' | 'age_restricted' | 'geo_blocked' | 'removed' | 'live_not_supported'
+ *   | 'login_required' | 'rate_limited' | 'unsupported_url' | 'extractor_unavailable' | 'timeout' | 'limit_exceeded'
+ *   | 'invalid_request' | 'unauthorized' | 'not_found' | 'cancelled' | 'expired' | 'internal'
+ *   | 'network' | 'version_mismatch' | 'transfer_failed' | 'unknown'} ErrorCode
+ * The last group is only produced by the app itself.
+ */
+
+/**
+ * @typedef {Object} ErrorDetails
+ * @property {string} message
+ * @property {boolean} retryable Whether trying the same request again may succeed
+ */
+
+/** @type {Record<ErrorCode, ErrorDetails>} */
+export const ERROR_DETAILS = {
+  private: { message: 'This video is private', retryable: false },
+  age_restricted: { message: 'This video is age-restricted', retryable: false },
+  geo_blocked: { message: 'This video is not available in the server\'s country', retryable: false },
+  removed: { message: 'This video has been removed or does not exist', retryable: false },
+  live_not_supported: { message: 'Live streams and upcoming premieres cannot be downloaded', retryable: false },
+  login_required: { message: 'The platform only shows this video to signed-in users', retryable: false },
+  rate_limited: { message: 'The platform is limiting requests from the server', retryable: true },
+  unsupported_url: { message: 'This URL is not supported', retryable: false },
+  extractor_unavailable: { message: 'The download engine is unavailable or out of date', retryable: true },
+  timeout: { message: 'The download took too long and was stopped', retryable: true },
+  limit_exceeded: { message: 'This video is longer or larger than the server allows', retryable: false },
+  invalid_request: { message: 'The download request is invalid', retryable: false },
+  unauthorized: { message: 'This server needs an access token', retryable: false },
+  not_found: { message: 'Not found', retryable: false },
+  cancelled: { message: 'Download was cancelled', retryable: false },
+  expired: { message: 'Download has expired, please start it again', retryable: true },
+  internal: { message: 'Internal server error', retryable: true },
+  network: { message: 'Could not reach the download server', retryable: true },
+  version_mismatch: { message: 'This app is out of date with the download server', retryable: false },
+  transfer_failed: { message: 'The file could not be saved to this device', retryable: true },
+  unknown: { message: 'Download failed', retryable: true },
+};
+
+/** @type {ErrorCode[]} */
+export const ERROR_CODES = /** @type {ErrorCode[]} */ (Object.keys(ERROR_DETAILS));
+
+// Checked in order: YouTube prefixes many of these with "Video unavailable",
+// and the age check suggests --cookies like a login wall does
+/** @type {[ErrorCode, RegExp][]} */
+const STDERR_PATTERNS = [
+  ['private', /private video|video is private|account is private/i],
+  ['age_restricted', /confirm your age|age[- ]restricted|inappropriate for some users/i],
+  ['geo_blocked', /in your country|geo[- ]?restrict|not available (?:in|from) your (?:location|region)/i],
+  ['live_not_supported', /live event will begin|premieres in|is (?:currently )?live|live stream recording is not available/i],
+  ['login_required', /not a bot|login required|log in|sign in|members[- ]only|join this channel|use --cookies/i],
+  ['rate_limited', /HTTP Error 429|too many requests|rate[- ]?limit/i],
+  ['unsupported_url', /unsupported url|is not a valid url/i],
+  ['removed', /video unavailable|has been removed|no longer available|does not exist|been terminated|HTTP Error 404|HTTP Error 410/i],
+  ['extractor_unavailable', /No module named '?yt_dlp|command not found|is not recognized as an internal|unable to extract|nsig extraction failed|please report this issue/i],
+  ['timeout', /timed out/i],
+];
+
+/**
+ * Error code for a failed yt-dlp run, or null if the failure is not recognised
+ * @param {string | undefined} stderr
+ * @param {number | string | null} [exitCode] 127 (POSIX) or 9009 (Windows) means the command was not found
+ * @returns {ErrorCode | null}
+ */
+export const classifyYtDlpError = (stderr, exitCode) => {
+  if (exitCode === 127 || exitCode === 9009 || exitCode === 'ENOENT') return 'extractor_unavailable';
+
+  const match = STDERR_PATTERNS.find(([, pattern]) => pattern.test(stderr || ''));
+  return match ? match[0] : null;
+};
+
+export class DownloadError extends Error {
+  /**
+   * @param {ErrorCode} code
+   * @param {string} [message] Defaults to the code's message
+   * @param {{ retryable?: boolean, details?: string }} [options] details holds e.g. yt-dlp's stderr
+   */
+  constructor(code, message, options = {}) {
+    super(message || ERROR_DETAILS[code].message);
+    this.name = 'DownloadError';
+    this.code = code;
+    this.retryable = options.retryable !== undefined ? options.retryable : ERROR_DETAILS[code].retryable;
+    this.details = options.details;
+  }
+}
@@ -0,0 +1,44 @@
+import { classifyYtDlpError, DownloadError } from './errors.mjs';
+
+describe('classifyYtDlpError', () => {
+  test.each([
+    ['ERROR: [youtube] dQw4w9WgXcQ: Private video. Sign in if you\'ve been granted access to this video', 'private'],
+    ['ERROR: [youtube] dQw4w9WgXcQ: Sign in to confirm your age. This video may be inappropriate for some users.', 'age_restricted'],
+    ['ERROR: [youtube] dQw4w9WgXcQ: Video unavailable. The uploader has not made this video available in your country', 'geo_blocked'],
+    ['ERROR: [youtube] dQw4w9WgXcQ: Video unavailable. This video has been removed by the uploader', 'removed'],
+    ['ERROR: [youtube] dQw4w9WgXcQ: Video unavailable', 'removed'],
+    ['ERROR: [youtube] dQw4w9WgXcQ: This live event will begin in 3 hours.', 'live_not_supported'],
+    ['ERROR: [youtube] dQw4w9WgXcQ: Sign in to confirm you\'re not a bot. Use --cookies-from-browser or --cookies for the authentication.', 'login_required'],
+    ['ERROR: [instagram] C1a2b3c4: Requested content is not available, rate-limit reached or login required', 'login_required'],
+    ['ERROR: unable to download webpage: HTTP Error 429: Too Many Requests', 'rate_limited'],
+    ['ERROR: Unsupported URL: https://example.com/video', 'unsupported_url'],
+    ['ERROR: [youtube] dQw4w9WgXcQ: Unable to extract uploader id; please report this issue on https://github.com/yt-dlp/yt-dlp/issues', 'extractor_unavailable'],
+    ['/usr/bin/python: No module named yt_dlp', 'extractor_unavailable'],
+    ['ERROR: unable to download video data: <urlopen error timed out>', 'timeout'],
+  ])('%s', (stderr, code) => {
+    expect(classifyYtDlpError(stderr, 1)).toBe(code);
+  });
+
+  test('a missing command is recognised by its exit code', () => {
+    expect(classifyYtDlpError('', 127)).toBe('extractor_unavailable');
+    expect(classifyYtDlpError(undefined, 'ENOENT')).toBe('extractor_unavailable');
+  });
+
+  test('unrecognised failures are left to the caller', () => {
+    expect(classifyYtDlpError('ERROR: Postprocessing: Conversion failed!', 1)).toBeNull();
+  });
+});
+
+describe('DownloadError', () => {
+  test('defaults to the message and retryability of its code', () => {
+    const error = new DownloadError('rate_limited');
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('The platform is limiting requests from the server');
+    expect(error.retryable).toBe(true);
+  });
+
+  test('keeps an explicit message and retryable flag', () => {
+    const error = new DownloadError('transfer_failed', 'Server answered 404', { retryable: false, details: 'Not Found' });
+    expect([error.code, error.message, error.retryable, error.details]).toEqual(['transfer_failed', 'Server answered 404', false, 'Not Found']);
+  });
+});
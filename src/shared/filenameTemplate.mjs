@@ -0,0 +1,126 @@
+// @ts-check
+// Templates for the names of downloaded files, such as "{uploader} - {title}".
+// The backend expands them into the names it saves files under, which are
+// also the names browsers save them as. The app checks templates before
+// sending them. Expanded names are safe on Windows, macOS and Linux.
+
+/**
+ * @typedef {'title' | 'uploader' | 'id' | 'date' | 'quality' | 'platform' | 'playlist_index'} FilenameToken
+ */
+
+/**
+ * Values for the tokens of a template; tokens without a value expand to nothing
+ * @typedef {Partial<Record<FilenameToken, string | number>>} FilenameValues
+ */
+
+/** @type {FilenameToken[]} */
+export const FILENAME_TOKENS = ['title', 'uploader', 'id', 'date', 'quality', 'platform', 'playlist_index'];
+
+/** Used when neither the request nor the server sets a template */
+export const DEFAULT_FILENAME_TEMPLATE = '{title} [{id}]';
+
+export const MAX_TEMPLATE_LENGTH = 200;
+
+// Longest expanded name in UTF-8 bytes. Most file systems allow 255, which
+// leaves room for an item number, a suffix such as " (2)" for names that are
+// taken, and extensions such as ".en.srt".
+export const MAX_FILENAME_BYTES = 200;
+
+const TOKEN = /\{([^{}]*)\}/g;
+
+// Characters Windows does not allow in names, with readable stand-ins
+/** @type {Record<string, string>} */
+const REPLACEMENTS = { '<': '', '>': '', ':': ' -', '"': '\'', '/': '-', '\\': '-', '|': '-', '?': '', '*': '' };
+
+// Bidirectional controls can make "exe.mp4" display as "4pm.exe"
+const BIDI_CONTROLS = [0x200e, 0x200f, 0x202a, 0x202b, 0x202c, 0x202d, 0x202e, 0x2066, 0x2067, 0x2068, 0x2069];
+
+// Device names Windows reserves, with or without an extension
+const RESERVED_NAMES = /^(?:con|prn|aux|nul|com\d|lpt\d)(?:\.|$)/i;
+
+/** @param {string} char */
+const isInvisible = (char) => {
+  const code = char.codePointAt(0) || 0;
+  return code < 0x20 || (code >= 0x7f && code <= 0x9f) || BIDI_CONTROLS.includes(code);
+};
+
+/** @param {string} char */
+const utf8Length = (char) => {
+  const code = char.codePointAt(0) || 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * The longest start of `text` that fits in `maxBytes` of UTF-8, without
+ * splitting a character
+ * @param {string} text
+ * @param {number} maxBytes
+ */
+const truncateBytes = (text, maxBytes) => {
+  let bytes = 0;
+  let end = 0;
+  const chars = Array.from(text);
+  while (end < chars.length && bytes + utf8Length(chars[end]) <= maxBytes) {
+    bytes += utf8Length(chars[end]);
+    end++;
+  }
+  return chars.slice(0, end).join('');
+};
+
+/**
+ * Error message for a template that cannot be expanded, or null
+ * @param {string} template
+ * @returns {string | null}
+ */
+export const checkFilenameTemplate = (template) => {
+  if (!template.trim() || template.length > MAX_TEMPLATE_LENGTH) {
+    return `File name templates need between 1 and ${MAX_TEMPLATE_LENGTH} characters`;
+  }
+  const tokens = /** @type {string[]} */ (FILENAME_TOKENS);
+  const unknown = (template.match(TOKEN) || []).find(token => !tokens.includes(token.slice(1, -1)));
+  if (unknown) {
+    return `Unknown file name token ${unknown}, use ${FILENAME_TOKENS.map(token => `{${token}}`).join(', ')}`;
+  }
+  if (/[{}]/.test(template.replace(TOKEN, ''))) return 'File name templates cannot have unmatched braces';
+  return null;
+};
+
+/**
+ * Makes `name` safe to use as a file name: Unicode is normalized to NFC,
+ * control characters and characters that are not allowed on Windows are
+ * dropped or replaced, and the name is cut to MAX_FILENAME_BYTES. Can return
+ * an empty string.
+ * @param {string} name
+ * @returns {string}
+ */
+export const sanitizeFilename = (name) => {
+  const cleaned = Array.from(name.normalize('NFC'))
+    .map(char => isInvisible(char) ? ' ' : REPLACEMENTS[char] !== undefined ? REPLACEMENTS[char] : char)
+    .join('')
+    .replace(/\s+/g, ' ');
+  // Leading dots hide files and leading dashes read as command line options;
+  // Windows drops trailing dots and spaces
+  const trimmed = truncateBytes(cleaned.replace(/^[\s.-]+/, ''), MAX_FILENAME_BYTES).replace(/[\s.]+$/, '');
+  return RESERVED_NAMES.test(trimmed) ? `_${trimmed}` : trimmed;
+};
+
+/**
+ * Expands a template that passed checkFilenameTemplate into a file name
+ * without an extension. Brackets and separators left empty by tokens
+ * without a value are dropped; if nothing is left, the ID is used.
+ * @param {string} template
+ * @param {FilenameValues} values
+ * @returns {string}
+ */
+export const expandFilenameTemplate = (template, values) => {
+  const expanded = template
+    .replace(TOKEN, (token, name) => {
+      const value = values[/** @type {FilenameToken} */ (name)];
+      return value === undefined || value === null ? '' : String(value);
+    })
+    .replace(/\(\s*\)|\[\s*\]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/ ([-_])(?: *[-_])+ /g, ' $1 ')
+    .replace(/^[\s_-]+|[\s_-]+$/g, '');
+  return sanitizeFilename(expanded) || sanitizeFilename(String(values.id || '')) || 'download';
+};
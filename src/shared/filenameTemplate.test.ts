@@ -0,0 +1,97 @@
+import { checkFilenameTemplate, expandFilenameTemplate, sanitizeFilename, DEFAULT_FILENAME_TEMPLATE, MAX_FILENAME_BYTES } from './filenameTemplate.mjs';
+
+const utf8Bytes = (text: string) => unescape(encodeURIComponent(text)).length;
+
+describe('checkFilenameTemplate', () => {
+  test.each([
+    DEFAULT_FILENAME_TEMPLATE,
+    '{uploader} - {title}',
+    '{playlist_index}. {title} ({quality}, {date})',
+    '{platform}_{id}',
+    'fixed name',
+  ])('accepts %s', (template) => {
+    expect(checkFilenameTemplate(template)).toBeNull();
+  });
+
+  test.each([
+    ['', /between 1 and/],
+    ['   ', /between 1 and/],
+    ['x'.repeat(201), /between 1 and/],
+    ['{title} {views}', /Unknown file name token \{views\}/],
+    ['{Title}', /Unknown file name token/],
+    ['{title', /unmatched braces/],
+    ['title}', /unmatched braces/],
+  ])('rejects %j', (template, message) => {
+    expect(checkFilenameTemplate(template)).toMatch(message);
+  });
+});
+
+describe('sanitizeFilename', () => {
+  test('replaces characters Windows does not allow', () => {
+    expect(sanitizeFilename('AC/DC: Live at "Donington" | 1991?*<>')).toBe('AC-DC - Live at \'Donington\' - 1991');
+  });
+
+  test('drops control characters and bidirectional overrides', () => {
+    expect(sanitizeFilename('line\none\u0007 evil\u202egnp.exe')).toBe('line one evil gnp.exe');
+  });
+
+  test('normalizes Unicode to NFC', () => {
+    expect(sanitizeFilename('Cafe\u0301')).toBe('Caf\u00e9');
+  });
+
+  test('does not hide files or end names with dots and spaces', () => {
+    expect(sanitizeFilename('..hidden')).toBe('hidden');
+    expect(sanitizeFilename('--rm -rf')).toBe('rm -rf');
+    expect(sanitizeFilename('The End... ')).toBe('The End');
+  });
+
+  test('prefixes names Windows reserves for devices', () => {
+    expect(sanitizeFilename('CON')).toBe('_CON');
+    expect(sanitizeFilename('lpt1.txt')).toBe('_lpt1.txt');
+    expect(sanitizeFilename('Console')).toBe('Console');
+  });
+
+  test('cuts long names at a character boundary', () => {
+    const name = sanitizeFilename('日本語'.repeat(100));
+    expect(utf8Bytes(name)).toBeLessThanOrEqual(MAX_FILENAME_BYTES);
+    expect(name).toBe('日本語'.repeat(22));
+
+    const emoji = sanitizeFilename('a' + '😀'.repeat(100));
+    expect(utf8Bytes(emoji)).toBeLessThanOrEqual(MAX_FILENAME_BYTES);
+    expect(Array.from(emoji.slice(1)).every(char => char === '😀')).toBe(true);
+  });
+});
+
+describe('expandFilenameTemplate', () => {
+  const values = {
+    title: 'Never Gonna Give You Up',
+    uploader: 'Rick Astley',
+    id: 'dQw4w9WgXcQ',
+    date: '2009-10-25',
+    quality: '1080p',
+    platform: 'youtube',
+    playlist_index: 3,
+  };
+
+  test('fills in every token', () => {
+    expect(expandFilenameTemplate(DEFAULT_FILENAME_TEMPLATE, values)).toBe('Never Gonna Give You Up [dQw4w9WgXcQ]');
+    expect(expandFilenameTemplate('{playlist_index}. {uploader} - {title} ({quality}, {date}) {platform}', values))
+      .toBe('3. Rick Astley - Never Gonna Give You Up (1080p, 2009-10-25) youtube');
+  });
+
+  test('sanitizes the values', () => {
+    expect(expandFilenameTemplate('{uploader}/{title}', { ...values, title: 'What? Yes: No' }))
+      .toBe('Rick Astley-What Yes - No');
+  });
+
+  test('drops brackets and separators left empty by missing values', () => {
+    expect(expandFilenameTemplate('{title} [{playlist_index}]', { title: 'Song' })).toBe('Song');
+    expect(expandFilenameTemplate('{playlist_index} - {uploader} - {title}', { title: 'Song' })).toBe('Song');
+    expect(expandFilenameTemplate('{title} - {quality} - {id}', { title: 'Song', id: 'abc' })).toBe('Song - abc');
+  });
+
+  test('falls back to the ID and then to "download"', () => {
+    expect(expandFilenameTemplate('{title}', { title: '???', id: 'abc' })).toBe('abc');
+    expect(expandFilenameTemplate('{title}', {})).toBe('download');
+  });
+});
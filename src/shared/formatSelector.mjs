@@ -0,0 +1,96 @@
+// yt-dlp format selection shared by the React app and the backend.
+//
+// YouTube only serves progressive (audio + video) streams up to 720p, so
+// higher qualities have to be picked as separate video and audio streams
+// and merged by yt-dlp. Every selector falls back step by step so a missing
+// codec or container never fails the download.
+
+/**
+ * @typedef {'avc1' | 'vp9' | 'av1'} VideoCodec
+ * @typedef {'mp4' | 'webm' | 'mkv'} Container
+ */
+
+/**
+ * @typedef {Object} FormatSelectorRequest
+ * @property {'video' | 'audio'} format
+ * @property {string} quality Preset such as "1080p" or "2160p (4K)"
+ * @property {string} [formatId] Exact yt-dlp format ID, takes precedence over `quality`
+ * @property {VideoCodec} [videoCodec] Preferred video codec
+ * @property {Container} [container] Output container for video, defaults to mp4
+ */
+
+/**
+ * @typedef {Object} FormatSelection
+ * @property {string} selector Value for yt-dlp's -f option
+ * @property {Container} [mergeFormat] Value for --merge-output-format, unset for audio
+ */
+
+/** @type {VideoCodec[]} */
+export const VIDEO_CODECS = ['avc1', 'vp9', 'av1'];
+
+/** @type {Container[]} */
+export const CONTAINERS = ['mp4', 'webm', 'mkv'];
+
+// Quality presets offered in the app, best first
+export const VIDEO_QUALITIES = ['2160p (4K)', '1440p', '1080p', '720p', '480p', '360p', '240p'];
+export const AUDIO_QUALITIES = ['320kbps', '256kbps', '192kbps', '128kbps', '96kbps', '64kbps'];
+
+/** @type {Record<VideoCodec, string>} */
+const CODEC_FILTERS = {
+  avc1: '[vcodec^=avc1]',
+  vp9: "[vcodec~='^vp0?9']",
+  av1: '[vcodec^=av01]',
+};
+
+// Stream extensions that can be merged into each container without
+// re-encoding. mkv accepts anything, so it has no preference.
+/** @type {Record<Container, { video: string, audio: string } | null>} */
+const CONTAINER_STREAMS = {
+  mp4: { video: '[ext=mp4]', audio: '[ext=m4a]' },
+  webm: { video: '[ext=webm]', audio: '[ext=webm]' },
+  mkv: null,
+};
+
+/**
+ * Height limit of a preset such as "1080p" or "2160p (4K)", or null for
+ * presets without one.
+ * @param {string} quality
+ * @returns {number | null}
+ */
+export const presetHeight = (quality) => {
+  const match = typeof quality === 'string' ? quality.match(/^(\d+)p/) : null;
+  return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Builds the yt-dlp format selector for a download request.
+ * @param {FormatSelectorRequest} request
+ * @returns {FormatSelection}
+ */
+export const buildFormatSelector = ({ format, quality, formatId, videoCodec, container = 'mp4' }) => {
+  if (format === 'audio') {
+    return { selector: formatId || 'bestaudio[ext=m4a]/bestaudio/best' };
+  }
+
+  // Video-only formats get the best audio merged in; the plain ID is the fallback
+  if (formatId) {
+    return { selector: `${formatId}+bestaudio/${formatId}`, mergeFormat: container };
+  }
+
+  const height = presetHeight(quality);
+  const limit = height ? `[height<=${height}]` : '';
+  const codec = videoCodec ? CODEC_FILTERS[videoCodec] : '';
+  const streams = CONTAINER_STREAMS[container];
+
+  /** @type {string[]} */
+  const candidates = [];
+  if (codec && streams) candidates.push(`bestvideo${limit}${codec}${streams.video}+bestaudio${streams.audio}`);
+  if (codec) candidates.push(`bestvideo${limit}${codec}+bestaudio`);
+  if (streams) candidates.push(`bestvideo${limit}${streams.video}+bestaudio${streams.audio}`);
+  candidates.push(`bestvideo${limit}+bestaudio`);
+  // Sources without separate streams, such as Instagram, only have progressive formats
+  if (limit) candidates.push(`best${limit}`);
+  candidates.push('best');
+
+  return { selector: candidates.join('/'), mergeFormat: container };
+};
@@ -0,0 +1,54 @@
+import { buildFormatSelector, presetHeight } from './formatSelector.mjs';
+
+describe('buildFormatSelector', () => {
+  test.each([
+    [
+      { format: 'video', quality: '1080p' },
+      'bestvideo[height<=1080][ext=mp4]+bestaudio[ext=m4a]/bestvideo[height<=1080]+bestaudio/best[height<=1080]/best',
+      'mp4',
+    ],
+    [
+      { format: 'video', quality: '2160p (4K)', videoCodec: 'vp9', container: 'webm' },
+      "bestvideo[height<=2160][vcodec~='^vp0?9'][ext=webm]+bestaudio[ext=webm]/bestvideo[height<=2160][vcodec~='^vp0?9']+bestaudio/bestvideo[height<=2160][ext=webm]+bestaudio[ext=webm]/bestvideo[height<=2160]+bestaudio/best[height<=2160]/best",
+      'webm',
+    ],
+    [
+      { format: 'video', quality: '720p', videoCodec: 'av1', container: 'mkv' },
+      'bestvideo[height<=720][vcodec^=av01]+bestaudio/bestvideo[height<=720]+bestaudio/best[height<=720]/best',
+      'mkv',
+    ],
+    [
+      { format: 'video', quality: 'best' },
+      'bestvideo[ext=mp4]+bestaudio[ext=m4a]/bestvideo+bestaudio/best',
+      'mp4',
+    ],
+    [
+      { format: 'video', quality: '1080p', formatId: '137' },
+      '137+bestaudio/137',
+      'mp4',
+    ],
+    [
+      { format: 'audio', quality: '192kbps' },
+      'bestaudio[ext=m4a]/bestaudio/best',
+      undefined,
+    ],
+    [
+      { format: 'audio', quality: '192kbps', formatId: '251' },
+      '251',
+      undefined,
+    ],
+  ] as const)('builds %j', (request, selector, mergeFormat) => {
+    expect(buildFormatSelector(request)).toEqual(mergeFormat ? { selector, mergeFormat } : { selector });
+  });
+});
+
+describe('presetHeight', () => {
+  test.each([
+    ['2160p (4K)', 2160],
+    ['1080p', 1080],
+    ['best', null],
+    ['192kbps', null],
+  ])('parses %p', (quality, height) => {
+    expect(presetHeight(quality)).toBe(height);
+  });
+});
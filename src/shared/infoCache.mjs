@@ -0,0 +1,128 @@
+// @ts-check
+// Cache for video information lookups, used by the backend for yt-dlp output
+// and by the React app for /api/video-info responses. Entries expire after a
+// TTL and the least recently used ones are dropped once the cache is full.
+// Lookups for a key that is already being fetched wait for that fetch instead
+// of starting another one.
+
+/**
+ * @template T
+ * @typedef {Object} CacheEntry
+ * @property {T} value
+ * @property {number} fetchedAt Milliseconds since the epoch
+ */
+
+/**
+ * @template T
+ * @typedef {Object} CacheLookup
+ * @property {T} value
+ * @property {number} fetchedAt
+ * @property {boolean} cached Whether the value was already in the cache
+ */
+
+/**
+ * @template T
+ * @typedef {Object} InfoCacheOptions
+ * @property {number} ttl Milliseconds an entry is used for
+ * @property {number} maxEntries
+ * @property {Array<[string, CacheEntry<T>]>} [entries] Saved with `entries()`, e.g. in sessionStorage
+ * @property {() => number} [now]
+ */
+
+/**
+ * @template T
+ * @typedef {Object} InfoCache
+ * @property {(key: string) => CacheEntry<T> | undefined} get
+ * @property {(key: string, value: T, fetchedAt?: number) => void} set
+ * @property {(key: string, fetch: () => Promise<T>) => Promise<CacheLookup<T>>} load
+ * @property {(key: string) => void} delete
+ * @property {() => Array<[string, CacheEntry<T>]>} entries
+ */
+
+/**
+ * @template T
+ * @param {InfoCacheOptions<T>} options
+ * @returns {InfoCache<T>}
+ */
+export const createInfoCache = ({ ttl, maxEntries, entries = [], now = Date.now }) => {
+  // Map keeps insertion order, so the least recently used entry comes first
+  /** @type {Map<string, CacheEntry<T>>} */
+  const cache = new Map();
+  /** @type {Map<string, Promise<CacheLookup<T>>>} */
+  const pending = new Map();
+
+  /** @param {CacheEntry<T>} entry */
+  const isFresh = (entry) => now() - entry.fetchedAt < ttl;
+
+  /**
+   * @param {string} key
+   * @returns {CacheEntry<T> | undefined}
+   */
+  const get = (key) => {
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    cache.delete(key);
+    if (!isFresh(entry)) return undefined;
+    cache.set(key, entry);
+    return entry;
+  };
+
+  /**
+   * @param {string} key
+   * @param {T} value
+   * @param {number} [fetchedAt] When the value was fetched, if that was earlier than now
+   */
+  const set = (key, value, fetchedAt = now()) => {
+    cache.delete(key);
+    cache.set(key, { value, fetchedAt });
+    while (cache.size > maxEntries) {
+      cache.delete(/** @type {string} */ (cache.keys().next().value));
+    }
+  };
+
+  /**
+   * The cached value for `key`, or the result of `fetch` once it resolves.
+   * Failed fetches are not cached.
+   * @param {string} key
+   * @param {() => Promise<T>} fetch
+   * @returns {Promise<CacheLookup<T>>}
+   */
+  const load = (key, fetch) => {
+    const entry = get(key);
+    if (entry) return Promise.resolve({ ...entry, cached: true });
+
+    const running = pending.get(key);
+    if (running) return running;
+
+    const fetchedAt = now();
+    const lookup = Promise.resolve()
+      .then(fetch)
+      .then((value) => {
+        pending.delete(key);
+        set(key, value, fetchedAt);
+        return { value, fetchedAt, cached: false };
+      }, (error) => {
+        pending.delete(key);
+        throw error;
+      });
+    pending.set(key, lookup);
+    return lookup;
+  };
+
+  /** @param {string} key */
+  const remove = (key) => {
+    cache.delete(key);
+  };
+
+  /**
+   * Entries that have not expired yet, to restore the cache from later
+   * @returns {Array<[string, CacheEntry<T>]>}
+   */
+  const list = () => Array.from(cache.entries()).filter(([, entry]) => isFresh(entry));
+
+  entries.forEach(([key, entry]) => {
+    if (isFresh(entry)) set(key, entry.value, entry.fetchedAt);
+  });
+
+  return { get, set, load, delete: remove, entries: list };
+};
@@ -0,0 +1,74 @@
+import { createInfoCache } from './infoCache.mjs';
+
+const createClock = () => {
+  let time = 1000;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createInfoCache', () => {
+  test('serves fresh entries from the cache', async () => {
+    const clock = createClock();
+    const cache = createInfoCache<string>({ ttl: 60000, maxEntries: 10, now: clock.now });
+    const fetch = jest.fn().mockResolvedValue('info');
+
+    expect(await cache.load('youtube:dQw4w9WgXcQ', fetch)).toEqual({ value: 'info', fetchedAt: 1000, cached: false });
+    clock.advance(30000);
+    expect(await cache.load('youtube:dQw4w9WgXcQ', fetch)).toEqual({ value: 'info', fetchedAt: 1000, cached: true });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('fetches again once an entry has expired', async () => {
+    const clock = createClock();
+    const cache = createInfoCache<string>({ ttl: 60000, maxEntries: 10, now: clock.now });
+    const fetch = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+    await cache.load('key', fetch);
+    clock.advance(60000);
+    expect(await cache.load('key', fetch)).toMatchObject({ value: 'new', cached: false });
+  });
+
+  test('shares one fetch between concurrent lookups', async () => {
+    const cache = createInfoCache<string>({ ttl: 60000, maxEntries: 10 });
+    let resolve: (value: string) => void = () => {};
+    const response = new Promise<string>((done) => { resolve = done; });
+    const fetch = jest.fn(() => response);
+
+    const first = cache.load('key', fetch);
+    const second = cache.load('key', fetch);
+    resolve('info');
+
+    expect(await first).toEqual(await second);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not cache failures', async () => {
+    const cache = createInfoCache<string>({ ttl: 60000, maxEntries: 10 });
+    const fetch = jest.fn().mockRejectedValueOnce(new Error('private')).mockResolvedValueOnce('info');
+
+    await expect(cache.load('key', fetch)).rejects.toThrow('private');
+    expect(await cache.load('key', fetch)).toMatchObject({ value: 'info', cached: false });
+  });
+
+  test('drops the least recently used entry when full', () => {
+    const cache = createInfoCache<string>({ ttl: 60000, maxEntries: 2 });
+    cache.set('a', 'A');
+    cache.set('b', 'B');
+    cache.get('a');
+    cache.set('c', 'C');
+
+    expect(cache.entries().map(([key]) => key)).toEqual(['a', 'c']);
+  });
+
+  test('restores saved entries that have not expired', () => {
+    const clock = createClock();
+    const cache = createInfoCache<string>({
+      ttl: 60000,
+      maxEntries: 10,
+      now: clock.now,
+      entries: [['old', { value: 'A', fetchedAt: -60000 }], ['fresh', { value: 'B', fetchedAt: 500 }]],
+    });
+
+    expect(cache.get('old')).toBeUndefined();
+    expect(cache.get('fresh')).toEqual({ value: 'B', fetchedAt: 500 });
+  });
+});
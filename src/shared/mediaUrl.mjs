@@ -0,0 +1,99 @@
+// Media URL parsing shared by the React app and the backend.
+//
+// This is the single place that decides whether a URL is supported; the
+// sites themselves are described in platforms.mjs. It lives in src/shared as a
+// plain ES module so the backend can import() it as well; types are declared
+// with JSDoc and picked up by TypeScript through allowJs.
+
+import { PLATFORM_REGISTRY, platformForHost } from './platforms.mjs';
+
+export { parseStartTime } from './platforms.mjs';
+
+/**
+ * @typedef {import('./platforms.mjs').Platform} Platform
+ * @typedef {'video' | 'short' | 'live' | 'playlist' | 'channel' | 'post' | 'reel' | 'story' | 'track'} MediaKind
+ */
+
+/**
+ * A single YouTube video, short or live stream.
+ * @typedef {Object} YouTubeVideoUrl
+ * @property {'youtube'} platform
+ * @property {'video' | 'short' | 'live'} kind
+ * @property {string} id 11 character video ID
+ * @property {number} [startTime] Start offset in seconds from `t=` or `start=`
+ * @property {string} [playlistId] Playlist the video was opened from
+ * @property {string} normalizedUrl
+ */
+
+/**
+ * A YouTube playlist without a selected video.
+ * @typedef {Object} YouTubePlaylistUrl
+ * @property {'youtube'} platform
+ * @property {'playlist'} kind
+ * @property {string} id Playlist ID
+ * @property {string} playlistId Same as `id`
+ * @property {string} normalizedUrl
+ */
+
+/**
+ * A YouTube channel, linked by handle, channel ID or legacy custom/user name.
+ * @typedef {Object} YouTubeChannelUrl
+ * @property {'youtube'} platform
+ * @property {'channel'} kind
+ * @property {string} id Handle including the "@", channel ID, or custom name
+ * @property {string} normalizedUrl Channel URL without a tab such as /videos
+ */
+
+/**
+ * An Instagram post, reel, IGTV video or story.
+ * @typedef {Object} InstagramMediaUrl
+ * @property {'instagram'} platform
+ * @property {'post' | 'reel' | 'video' | 'story'} kind
+ * @property {string} id Shortcode, the numeric story ID, or the username for all of a user's current stories
+ * @property {string} [username] Story owner, only set for stories
+ * @property {string} normalizedUrl
+ */
+
+/**
+ * A video, post or track on one of the other sites in platforms.mjs.
+ * @typedef {Object} SiteMediaUrl
+ * @property {Exclude<Platform, 'youtube' | 'instagram'>} platform
+ * @property {'video' | 'post' | 'reel' | 'track'} kind
+ * @property {string} id The site's media ID, or the code of a share link
+ * @property {string} [username] Owner, when the URL names one
+ * @property {string} normalizedUrl
+ */
+
+/**
+ * @typedef {YouTubeVideoUrl | YouTubePlaylistUrl | YouTubeChannelUrl | InstagramMediaUrl | SiteMediaUrl} ParsedMediaUrl
+ */
+
+/**
+ * @param {string} input
+ * @returns {URL | null}
+ */
+const toUrl = (input) => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Parses a supported media URL. Returns null for anything that is not a
+ * recognised link to one of the sites in PLATFORM_REGISTRY.
+ * @param {string} input
+ * @returns {ParsedMediaUrl | null}
+ */
+export const parseMediaUrl = (input) => {
+  const url = typeof input === 'string' ? toUrl(input) : null;
+  if (!url) return null;
+
+  const platform = platformForHost(url.hostname);
+  return platform ? PLATFORM_REGISTRY[platform].parse(url) : null;
+};
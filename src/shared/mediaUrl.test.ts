@@ -0,0 +1,137 @@
+import { parseMediaUrl, parseStartTime } from './mediaUrl.mjs';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+const PLAYLIST_ID = 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf';
+const WATCH_URL = `https://www.youtube.com/watch?v=${VIDEO_ID}`;
+
+describe('parseMediaUrl', () => {
+  // Every format listed in SUPPORTED_URLS.md
+  test.each([
+    // Standard YouTube videos
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, playlistId: PLAYLIST_ID, normalizedUrl: `${WATCH_URL}&list=${PLAYLIST_ID}` }],
+    [`https://youtube.com/watch?v=${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    [`http://youtube.com/watch?v=${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    // YouTube Shorts
+    ['https://www.youtube.com/shorts/Zdscg2Q2IQQ', { platform: 'youtube', kind: 'short', id: 'Zdscg2Q2IQQ', normalizedUrl: 'https://www.youtube.com/shorts/Zdscg2Q2IQQ' }],
+    ['https://www.youtube.com/shorts/Zdscg2Q2IQQ?feature=share', { platform: 'youtube', kind: 'short', id: 'Zdscg2Q2IQQ', normalizedUrl: 'https://www.youtube.com/shorts/Zdscg2Q2IQQ' }],
+    ['https://youtube.com/shorts/Zdscg2Q2IQQ', { platform: 'youtube', kind: 'short', id: 'Zdscg2Q2IQQ', normalizedUrl: 'https://www.youtube.com/shorts/Zdscg2Q2IQQ' }],
+    ['http://youtube.com/shorts/Zdscg2Q2IQQ', { platform: 'youtube', kind: 'short', id: 'Zdscg2Q2IQQ', normalizedUrl: 'https://www.youtube.com/shorts/Zdscg2Q2IQQ' }],
+    // YouTube short URLs
+    [`https://youtu.be/${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    [`https://youtu.be/${VIDEO_ID}?t=30s`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, startTime: 30, normalizedUrl: `${WATCH_URL}&t=30s` }],
+    [`http://youtu.be/${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    // YouTube embed and v/ URLs
+    [`https://www.youtube.com/embed/${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    [`https://youtube.com/embed/${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    [`https://www.youtube.com/v/${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    [`https://youtube.com/v/${VIDEO_ID}`, { platform: 'youtube', kind: 'video', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    // YouTube live streams and playlists
+    [`https://www.youtube.com/live/${VIDEO_ID}?si=abc123`, { platform: 'youtube', kind: 'live', id: VIDEO_ID, normalizedUrl: WATCH_URL }],
+    [`https://www.youtube.com/playlist?list=${PLAYLIST_ID}`, { platform: 'youtube', kind: 'playlist', id: PLAYLIST_ID, playlistId: PLAYLIST_ID, normalizedUrl: `https://www.youtube.com/playlist?list=${PLAYLIST_ID}` }],
+    // YouTube channels
+    ['https://www.youtube.com/@LectureSeries', { platform: 'youtube', kind: 'channel', id: '@LectureSeries', normalizedUrl: 'https://www.youtube.com/@LectureSeries' }],
+    ['https://www.youtube.com/@LectureSeries/videos', { platform: 'youtube', kind: 'channel', id: '@LectureSeries', normalizedUrl: 'https://www.youtube.com/@LectureSeries' }],
+    ['https://www.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw', { platform: 'youtube', kind: 'channel', id: 'UCuAXFkgsw1L7xaCfnd5JJOw', normalizedUrl: 'https://www.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw' }],
+    ['https://www.youtube.com/c/LectureSeries', { platform: 'youtube', kind: 'channel', id: 'LectureSeries', normalizedUrl: 'https://www.youtube.com/c/LectureSeries' }],
+    ['https://www.youtube.com/user/LectureSeries/videos', { platform: 'youtube', kind: 'channel', id: 'LectureSeries', normalizedUrl: 'https://www.youtube.com/user/LectureSeries' }],
+    // Instagram posts
+    ['https://www.instagram.com/p/ABC123/', { platform: 'instagram', kind: 'post', id: 'ABC123', normalizedUrl: 'https://www.instagram.com/p/ABC123/' }],
+    ['https://instagram.com/p/ABC123/', { platform: 'instagram', kind: 'post', id: 'ABC123', normalizedUrl: 'https://www.instagram.com/p/ABC123/' }],
+    ['https://www.instagram.com/p/ABC123/?utm_source=ig_web_copy_link', { platform: 'instagram', kind: 'post', id: 'ABC123', normalizedUrl: 'https://www.instagram.com/p/ABC123/' }],
+    // Instagram reels
+    ['https://www.instagram.com/reel/XYZ789/', { platform: 'instagram', kind: 'reel', id: 'XYZ789', normalizedUrl: 'https://www.instagram.com/reel/XYZ789/' }],
+    ['https://instagram.com/reel/XYZ789/', { platform: 'instagram', kind: 'reel', id: 'XYZ789', normalizedUrl: 'https://www.instagram.com/reel/XYZ789/' }],
+    ['https://www.instagram.com/reel/XYZ789/?utm_source=ig_web_copy_link', { platform: 'instagram', kind: 'reel', id: 'XYZ789', normalizedUrl: 'https://www.instagram.com/reel/XYZ789/' }],
+    // Instagram TV
+    ['https://www.instagram.com/tv/TV123/', { platform: 'instagram', kind: 'video', id: 'TV123', normalizedUrl: 'https://www.instagram.com/tv/TV123/' }],
+    ['https://instagram.com/tv/TV123/', { platform: 'instagram', kind: 'video', id: 'TV123', normalizedUrl: 'https://www.instagram.com/tv/TV123/' }],
+    // Instagram stories
+    ['https://www.instagram.com/stories/some.user/3141592653589793238/', { platform: 'instagram', kind: 'story', id: '3141592653589793238', username: 'some.user', normalizedUrl: 'https://www.instagram.com/stories/some.user/3141592653589793238/' }],
+    ['https://instagram.com/stories/some.user/3141592653589793238/', { platform: 'instagram', kind: 'story', id: '3141592653589793238', username: 'some.user', normalizedUrl: 'https://www.instagram.com/stories/some.user/3141592653589793238/' }],
+    ['https://www.instagram.com/stories/some.user/', { platform: 'instagram', kind: 'story', id: 'some.user', username: 'some.user', normalizedUrl: 'https://www.instagram.com/stories/some.user/' }],
+    // TikTok
+    ['https://www.tiktok.com/@scout2015/video/6718335390845095173', { platform: 'tiktok', kind: 'video', id: '6718335390845095173', username: '@scout2015', normalizedUrl: 'https://www.tiktok.com/@scout2015/video/6718335390845095173' }],
+    ['https://vm.tiktok.com/ZMeAbCdEf/', { platform: 'tiktok', kind: 'video', id: 'ZMeAbCdEf', normalizedUrl: 'https://vm.tiktok.com/ZMeAbCdEf/' }],
+    // Vimeo
+    ['https://vimeo.com/76979871', { platform: 'vimeo', kind: 'video', id: '76979871', normalizedUrl: 'https://vimeo.com/76979871' }],
+    ['https://vimeo.com/76979871/8272103f6e', { platform: 'vimeo', kind: 'video', id: '76979871', normalizedUrl: 'https://vimeo.com/76979871/8272103f6e' }],
+    ['https://vimeo.com/channels/staffpicks/76979871', { platform: 'vimeo', kind: 'video', id: '76979871', normalizedUrl: 'https://vimeo.com/76979871' }],
+    ['https://vimeo.com/groups/motion/videos/76979871', { platform: 'vimeo', kind: 'video', id: '76979871', normalizedUrl: 'https://vimeo.com/76979871' }],
+    ['https://player.vimeo.com/video/76979871?h=8272103f6e', { platform: 'vimeo', kind: 'video', id: '76979871', normalizedUrl: 'https://vimeo.com/76979871/8272103f6e' }],
+    // X / Twitter
+    ['https://x.com/NASA/status/1782386452362191024', { platform: 'twitter', kind: 'post', id: '1782386452362191024', username: 'NASA', normalizedUrl: 'https://x.com/NASA/status/1782386452362191024' }],
+    ['https://twitter.com/NASA/status/1782386452362191024/video/1', { platform: 'twitter', kind: 'post', id: '1782386452362191024', username: 'NASA', normalizedUrl: 'https://x.com/NASA/status/1782386452362191024' }],
+    // Reddit
+    ['https://www.reddit.com/r/aww/comments/1c2d3e4/a_very_good_dog/', { platform: 'reddit', kind: 'post', id: '1c2d3e4', normalizedUrl: 'https://www.reddit.com/r/aww/comments/1c2d3e4/' }],
+    ['https://redd.it/1c2d3e4', { platform: 'reddit', kind: 'post', id: '1c2d3e4', normalizedUrl: 'https://www.reddit.com/comments/1c2d3e4/' }],
+    // Facebook
+    ['https://www.facebook.com/watch/?v=1234567890123456', { platform: 'facebook', kind: 'video', id: '1234567890123456', normalizedUrl: 'https://www.facebook.com/watch/?v=1234567890123456' }],
+    ['https://www.facebook.com/SomePage/videos/1234567890123456/', { platform: 'facebook', kind: 'video', id: '1234567890123456', normalizedUrl: 'https://www.facebook.com/watch/?v=1234567890123456' }],
+    ['https://www.facebook.com/reel/987654321098765', { platform: 'facebook', kind: 'reel', id: '987654321098765', normalizedUrl: 'https://www.facebook.com/reel/987654321098765' }],
+    ['https://fb.watch/aBcD123_x/', { platform: 'facebook', kind: 'video', id: 'aBcD123_x', normalizedUrl: 'https://fb.watch/aBcD123_x/' }],
+    // SoundCloud
+    ['https://soundcloud.com/forss/flickermood', { platform: 'soundcloud', kind: 'track', id: 'forss/flickermood', username: 'forss', normalizedUrl: 'https://soundcloud.com/forss/flickermood' }],
+    ['https://on.soundcloud.com/Ab12Cd', { platform: 'soundcloud', kind: 'track', id: 'Ab12Cd', normalizedUrl: 'https://on.soundcloud.com/Ab12Cd/' }],
+  ])('parses %s', (url, expected) => {
+    expect(parseMediaUrl(url)).toEqual(expected);
+  });
+
+  test.each([
+    [`youtube.com/watch?v=${VIDEO_ID}`, WATCH_URL],
+    [`https://m.youtube.com/watch?v=${VIDEO_ID}&feature=youtu.be`, WATCH_URL],
+    [`https://www.youtube.com/watch?feature=share&v=${VIDEO_ID}&si=xyz&utm_source=twitter`, WATCH_URL],
+    [`https://youtu.be/${VIDEO_ID}?si=Tr4ck1ng`, WATCH_URL],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}#t=1m5s`, `${WATCH_URL}&t=65s`],
+    [`https://www.youtube-nocookie.com/embed/${VIDEO_ID}?start=42`, `${WATCH_URL}&t=42s`],
+    ['https://www.instagram.com/some.user/p/ABC123/?igsh=abc', 'https://www.instagram.com/p/ABC123/'],
+    ['https://www.instagram.com/reels/XYZ789/', 'https://www.instagram.com/reel/XYZ789/'],
+    ['https://m.tiktok.com/@scout2015/video/6718335390845095173?is_from_webapp=1', 'https://www.tiktok.com/@scout2015/video/6718335390845095173'],
+    ['https://mobile.twitter.com/NASA/status/1782386452362191024?s=20', 'https://x.com/NASA/status/1782386452362191024'],
+    ['https://old.reddit.com/r/aww/comments/1c2d3e4/', 'https://www.reddit.com/r/aww/comments/1c2d3e4/'],
+    ['https://m.facebook.com/watch?v=1234567890123456&ref=sharing', 'https://www.facebook.com/watch/?v=1234567890123456'],
+    ['https://m.soundcloud.com/forss/flickermood?utm_source=clipboard', 'https://soundcloud.com/forss/flickermood'],
+  ])('normalizes %s', (url, normalizedUrl) => {
+    expect(parseMediaUrl(url)?.normalizedUrl).toBe(normalizedUrl);
+  });
+
+  test.each([
+    '',
+    'not a url',
+    'https://example.com/watch?v=dQw4w9WgXcQ',
+    'https://www.youtube.com/watch?v=tooShort',
+    'https://www.youtube.com/watch',
+    'https://www.youtube.com/channel/UC123',
+    'https://www.youtube.com/@LectureSeries/about/extra',
+    'https://youtu.be/',
+    'https://www.instagram.com/',
+    'https://www.instagram.com/some.user/',
+    'https://www.instagram.com/stories/',
+    'https://www.instagram.com/stories/some.user/latest/',
+    'ftp://youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://www.tiktok.com/@scout2015',
+    'https://vimeo.com/channels/staffpicks',
+    'https://x.com/NASA',
+    'https://www.reddit.com/r/aww/',
+    'https://www.facebook.com/SomePage',
+    'https://soundcloud.com/forss',
+    'https://soundcloud.com/forss/sets',
+    'https://soundcloud.com/discover/sets',
+  ])('rejects %p', (url) => {
+    expect(parseMediaUrl(url)).toBeNull();
+  });
+});
+
+describe('parseStartTime', () => {
+  test.each([
+    ['30', 30],
+    ['30s', 30],
+    ['1m30s', 90],
+    ['2m', 120],
+    ['1h2m3s', 3723],
+    ['', undefined],
+    ['abc', undefined],
+  ])('parses %p', (value, seconds) => {
+    expect(parseStartTime(value)).toBe(seconds);
+  });
+});
@@ -0,0 +1,486 @@
+// @ts-check
+// Registry of the sites that can be downloaded from. Each entry declares the
+// hostnames it accepts, how to find the media ID in a URL, how the site is
+// shown in the UI and its quirks. URL validation, the platform badges, the
+// history filter and the backend's playlist handling are all generated from
+// it, so supporting another site means adding one entry here.
+
+/**
+ * @typedef {'youtube' | 'instagram' | 'tiktok' | 'vimeo' | 'twitter' | 'reddit' | 'facebook' | 'soundcloud'} Platform
+ * @typedef {import('./mediaUrl.mjs').MediaKind} MediaKind
+ * @typedef {import('./mediaUrl.mjs').ParsedMediaUrl} ParsedMediaUrl
+ * @typedef {import('./mediaUrl.mjs').YouTubeVideoUrl} YouTubeVideoUrl
+ * @typedef {import('./mediaUrl.mjs').YouTubePlaylistUrl} YouTubePlaylistUrl
+ * @typedef {import('./mediaUrl.mjs').YouTubeChannelUrl} YouTubeChannelUrl
+ * @typedef {import('./mediaUrl.mjs').InstagramMediaUrl} InstagramMediaUrl
+ * @typedef {import('./mediaUrl.mjs').SiteMediaUrl} SiteMediaUrl
+ */
+
+/**
+ * A supported kind of link, listed in the form as e.g. "🎥 YouTube Videos"
+ * @typedef {Object} PlatformBadge
+ * @property {string} name
+ * @property {string} icon
+ * @property {MediaKind[]} kinds
+ */
+
+/**
+ * Where a site differs from a plain single-video page
+ * @typedef {Object} PlatformQuirks
+ * @property {boolean} [audioOnly] Only audio can be downloaded
+ * @property {MediaKind[]} [multiItem] Kinds of link that can hold several
+ *   images and videos, such as carousel posts
+ * @property {MediaKind[]} [signIn] Kinds of link that are only visible to a
+ *   signed-in account, so the server needs cookies for the site
+ * @property {(media: ParsedMediaUrl) => string} [listUrl] URL that lists the
+ *   entries of a playlist, channel or video opened from a playlist, when it
+ *   differs from the normalized URL
+ * @property {(id: string) => string} [entryUrl] URL of a flat playlist entry
+ *   that yt-dlp listed by ID only
+ */
+
+/**
+ * @typedef {Object} PlatformDefinition
+ * @property {string} name Display name
+ * @property {string} icon
+ * @property {string[]} hosts Lowercase hostnames handled by `parse`
+ * @property {(url: URL) => ParsedMediaUrl | null} parse The media a URL on
+ *   one of `hosts` points to, or null if it is not a supported link
+ * @property {PlatformBadge[]} badges
+ * @property {PlatformQuirks} quirks
+ */
+
+const YOUTUBE_SHORT_HOSTS = ['youtu.be', 'www.youtu.be'];
+
+const YOUTUBE_ID = /^[a-zA-Z0-9_-]{11}$/;
+const PLAYLIST_ID = /^[a-zA-Z0-9_-]{2,}$/;
+const CHANNEL_HANDLE = /^@[a-zA-Z0-9._-]{3,30}$/;
+const CHANNEL_ID = /^UC[a-zA-Z0-9_-]{22}$/;
+const CHANNEL_NAME = /^[a-zA-Z0-9._-]+$/;
+const CHANNEL_TABS = ['videos', 'shorts', 'streams', 'playlists', 'featured'];
+const INSTAGRAM_ID = /^[a-zA-Z0-9_-]+$/;
+const STORY_ID = /^\d+$/;
+const INSTAGRAM_USERNAME = /^[a-zA-Z0-9._]+$/;
+const NUMERIC_ID = /^\d+$/;
+const SHORT_LINK_CODE = /^[a-zA-Z0-9_-]+$/;
+const TIKTOK_USERNAME = /^@[a-zA-Z0-9._]{2,24}$/;
+const VIMEO_HASH = /^[a-f0-9]{6,}$/;
+const TWITTER_USERNAME = /^[a-zA-Z0-9_]{1,15}$/;
+const REDDIT_ID = /^[a-z0-9]{4,10}$/;
+const SUBREDDIT = /^[a-zA-Z0-9_]{2,21}$/;
+const SOUNDCLOUD_NAME = /^[a-zA-Z0-9_-]+$/;
+// Profile pages and site sections that look like /artist/track links
+const SOUNDCLOUD_RESERVED = ['discover', 'stream', 'search', 'you', 'charts', 'upload', 'feed', 'messages', 'settings', 'pages', 'terms-of-use'];
+const SOUNDCLOUD_PROFILE_TABS = ['sets', 'tracks', 'albums', 'likes', 'reposts', 'followers', 'following', 'popular-tracks', 'comments', 'spotlight'];
+
+/** @type {Record<string, 'post' | 'reel' | 'video'>} */
+const INSTAGRAM_PATH_KINDS = {
+  p: 'post',
+  reel: 'reel',
+  reels: 'reel',
+  tv: 'video',
+};
+
+/** @type {Record<'post' | 'reel' | 'video', string>} */
+const INSTAGRAM_PATH_SEGMENTS = {
+  post: 'p',
+  reel: 'reel',
+  video: 'tv',
+};
+
+/**
+ * Parses a YouTube start time such as "90", "90s", "1m30s" or "1h2m3s".
+ * @param {string | null} value
+ * @returns {number | undefined}
+ */
+export const parseStartTime = (value) => {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || (!match[1] && !match[2] && !match[3])) return undefined;
+
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+};
+
+/** @param {URL} url */
+const pathSegments = (url) => url.pathname.split('/').filter(Boolean);
+
+/**
+ * @param {string} id
+ * @param {{ startTime?: number, playlistId?: string }} extras
+ */
+const youtubeWatchUrl = (id, { startTime, playlistId }) => {
+  let url = `https://www.youtube.com/watch?v=${id}`;
+  if (playlistId) url += `&list=${playlistId}`;
+  if (startTime) url += `&t=${startTime}s`;
+  return url;
+};
+
+/**
+ * @param {URL} url
+ * @param {string} pathId
+ * @param {'video' | 'short' | 'live'} kind
+ * @returns {YouTubeVideoUrl | null}
+ */
+const youtubeVideo = (url, pathId, kind) => {
+  if (!YOUTUBE_ID.test(pathId)) return null;
+
+  const hashTime = url.hash.startsWith('#t=') ? url.hash.slice(3) : null;
+  const startTime = parseStartTime(url.searchParams.get('t') || url.searchParams.get('start') || hashTime);
+  const listParam = url.searchParams.get('list');
+  const playlistId = listParam && PLAYLIST_ID.test(listParam) ? listParam : undefined;
+
+  /** @type {YouTubeVideoUrl} */
+  const parsed = {
+    platform: 'youtube',
+    kind,
+    id: pathId,
+    normalizedUrl: kind === 'short'
+      ? `https://www.youtube.com/shorts/${pathId}`
+      : youtubeWatchUrl(pathId, { startTime, playlistId }),
+  };
+  if (startTime !== undefined) parsed.startTime = startTime;
+  if (playlistId) parsed.playlistId = playlistId;
+  return parsed;
+};
+
+/**
+ * @param {string[]} segments
+ * @returns {YouTubeChannelUrl | null}
+ */
+const youtubeChannel = (segments) => {
+  const [first, second, tab] = segments;
+  /** @param {string} id @param {string} path */
+  const channel = (id, path) => ({
+    platform: /** @type {'youtube'} */ ('youtube'),
+    kind: /** @type {'channel'} */ ('channel'),
+    id,
+    normalizedUrl: `https://www.youtube.com/${path}`,
+  });
+
+  if (CHANNEL_HANDLE.test(first)) {
+    return segments.length === 1 || (segments.length === 2 && CHANNEL_TABS.includes(second))
+      ? channel(first, first)
+      : null;
+  }
+  if (segments.length > 3 || (tab && !CHANNEL_TABS.includes(tab))) return null;
+  if (first === 'channel' && CHANNEL_ID.test(second)) return channel(second, `channel/${second}`);
+  if ((first === 'c' || first === 'user') && CHANNEL_NAME.test(second)) return channel(second, `${first}/${second}`);
+  return null;
+};
+
+/**
+ * @param {URL} url
+ * @returns {YouTubeVideoUrl | YouTubePlaylistUrl | YouTubeChannelUrl | null}
+ */
+const parseYouTube = (url) => {
+  const segments = pathSegments(url);
+
+  if (YOUTUBE_SHORT_HOSTS.includes(url.hostname)) {
+    return segments.length === 1 ? youtubeVideo(url, segments[0], 'video') : null;
+  }
+
+  const [first, second] = segments;
+  if (first === 'watch' && segments.length === 1) {
+    const videoId = url.searchParams.get('v');
+    if (videoId) return youtubeVideo(url, videoId, 'video');
+  }
+  if ((first === 'playlist' && segments.length === 1) || (first === 'watch' && !url.searchParams.get('v'))) {
+    const playlistId = url.searchParams.get('list');
+    if (!playlistId || !PLAYLIST_ID.test(playlistId)) return null;
+    return {
+      platform: 'youtube',
+      kind: 'playlist',
+      id: playlistId,
+      playlistId,
+      normalizedUrl: `https://www.youtube.com/playlist?list=${playlistId}`,
+    };
+  }
+  if (first && (first.startsWith('@') || ['channel', 'c', 'user'].includes(first))) {
+    return youtubeChannel(segments);
+  }
+  if (segments.length !== 2) return null;
+  if (first === 'shorts') return youtubeVideo(url, second, 'short');
+  if (first === 'live') return youtubeVideo(url, second, 'live');
+  if (first === 'embed' || first === 'v') return youtubeVideo(url, second, 'video');
+  return null;
+};
+
+/**
+ * @param {URL} url
+ * @returns {InstagramMediaUrl | null}
+ */
+const parseInstagram = (url) => {
+  const segments = pathSegments(url);
+
+  // A single story, or all of a user's current stories
+  if (segments[0] === 'stories') {
+    const [, username, storyId] = segments;
+    if (segments.length > 3 || !INSTAGRAM_USERNAME.test(username || '') || (storyId && !STORY_ID.test(storyId))) return null;
+    return {
+      platform: 'instagram',
+      kind: 'story',
+      id: storyId || username,
+      username,
+      normalizedUrl: `https://www.instagram.com/stories/${username}/${storyId ? `${storyId}/` : ''}`,
+    };
+  }
+
+  // Posts can also be linked through the owner's profile: /username/p/ID/
+  const offset = segments.length === 3 && INSTAGRAM_PATH_KINDS[segments[1]] ? 1 : 0;
+  const kind = INSTAGRAM_PATH_KINDS[segments[offset]];
+  const shortcode = segments[offset + 1];
+  if (!kind || segments.length !== offset + 2 || !INSTAGRAM_ID.test(shortcode)) return null;
+
+  return {
+    platform: 'instagram',
+    kind,
+    id: shortcode,
+    normalizedUrl: `https://www.instagram.com/${INSTAGRAM_PATH_SEGMENTS[kind]}/${shortcode}/`,
+  };
+};
+
+/**
+ * Share links such as vm.tiktok.com/CODE/ redirect to the real page, which
+ * yt-dlp follows. The code stands in for the media ID.
+ * @param {URL} url
+ * @param {SiteMediaUrl['platform']} platform
+ * @param {SiteMediaUrl['kind']} kind
+ * @returns {SiteMediaUrl | null}
+ */
+const shortLink = (url, platform, kind) => {
+  const segments = pathSegments(url);
+  if (segments.length !== 1 || !SHORT_LINK_CODE.test(segments[0])) return null;
+  return { platform, kind, id: segments[0], normalizedUrl: `https://${url.hostname.replace(/^www\./, '')}/${segments[0]}/` };
+};
+
+/**
+ * /@user/video/ID, or a vm./vt. share link
+ * @param {URL} url
+ * @returns {SiteMediaUrl | null}
+ */
+const parseTikTok = (url) => {
+  if (url.hostname === 'vm.tiktok.com' || url.hostname === 'vt.tiktok.com') return shortLink(url, 'tiktok', 'video');
+
+  const [username, type, id, ...rest] = pathSegments(url);
+  if (rest.length || type !== 'video' || !TIKTOK_USERNAME.test(username) || !NUMERIC_ID.test(id || '')) return null;
+  return { platform: 'tiktok', kind: 'video', id, username, normalizedUrl: `https://www.tiktok.com/${username}/video/${id}` };
+};
+
+/**
+ * /ID, /ID/HASH for unlisted videos, /channels/NAME/ID, /groups/NAME/videos/ID
+ * and embedded player.vimeo.com/video/ID?h=HASH
+ * @param {URL} url
+ * @returns {SiteMediaUrl | null}
+ */
+const parseVimeo = (url) => {
+  const segments = pathSegments(url);
+  let id;
+  let hash;
+  if (url.hostname === 'player.vimeo.com') {
+    if (segments.length === 2 && segments[0] === 'video') [, id] = segments;
+    hash = url.searchParams.get('h') || undefined;
+  } else if (segments[0] === 'channels' && segments.length === 3) {
+    [, , id] = segments;
+  } else if (segments[0] === 'groups' && segments.length === 4 && segments[2] === 'videos') {
+    [, , , id] = segments;
+  } else if (segments.length === 1 || segments.length === 2) {
+    [id, hash] = segments;
+  }
+
+  if (!id || !NUMERIC_ID.test(id) || (hash && !VIMEO_HASH.test(hash))) return null;
+  return { platform: 'vimeo', kind: 'video', id, normalizedUrl: `https://vimeo.com/${id}${hash ? `/${hash}` : ''}` };
+};
+
+/**
+ * /user/status/ID, optionally followed by /video/N or /photo/N
+ * @param {URL} url
+ * @returns {SiteMediaUrl | null}
+ */
+const parseTwitter = (url) => {
+  const [username, type, id, media, index, ...rest] = pathSegments(url);
+  if (type !== 'status' || !TWITTER_USERNAME.test(username || '') || !NUMERIC_ID.test(id || '')) return null;
+  if (rest.length || (media && !(['video', 'photo'].includes(media) && NUMERIC_ID.test(index || '')))) return null;
+  return { platform: 'twitter', kind: 'post', id, username, normalizedUrl: `https://x.com/${username}/status/${id}` };
+};
+
+/**
+ * /r/SUBREDDIT/comments/ID/optional_title/, or a redd.it short link
+ * @param {URL} url
+ * @returns {SiteMediaUrl | null}
+ */
+const parseReddit = (url) => {
+  const segments = pathSegments(url);
+  if (url.hostname === 'redd.it') {
+    const [id] = segments;
+    return segments.length === 1 && REDDIT_ID.test(id)
+      ? { platform: 'reddit', kind: 'post', id, normalizedUrl: `https://www.reddit.com/comments/${id}/` }
+      : null;
+  }
+
+  const [r, subreddit, comments, id, , ...rest] = segments;
+  if (r !== 'r' || comments !== 'comments' || rest.length || !SUBREDDIT.test(subreddit || '') || !REDDIT_ID.test(id || '')) return null;
+  return { platform: 'reddit', kind: 'post', id, normalizedUrl: `https://www.reddit.com/r/${subreddit}/comments/${id}/` };
+};
+
+/**
+ * /watch/?v=ID, /PAGE/videos/ID, /reel/ID, or an fb.watch share link
+ * @param {URL} url
+ * @returns {SiteMediaUrl | null}
+ */
+const parseFacebook = (url) => {
+  if (url.hostname === 'fb.watch') return shortLink(url, 'facebook', 'video');
+
+  const segments = pathSegments(url);
+  /** @param {string | null | undefined} id */
+  const video = (id) => (id && NUMERIC_ID.test(id)
+    ? { platform: /** @type {'facebook'} */ ('facebook'), kind: /** @type {'video'} */ ('video'), id, normalizedUrl: `https://www.facebook.com/watch/?v=${id}` }
+    : null);
+
+  if (segments.length === 1 && segments[0] === 'watch') return video(url.searchParams.get('v'));
+  if (segments.length === 2 && segments[0] === 'reel' && NUMERIC_ID.test(segments[1])) {
+    return { platform: 'facebook', kind: 'reel', id: segments[1], normalizedUrl: `https://www.facebook.com/reel/${segments[1]}` };
+  }
+  if (segments.length === 3 && segments[1] === 'videos') return video(segments[2]);
+  return null;
+};
+
+/**
+ * /artist/track, or an on.soundcloud.com share link. The ID is "artist/track"
+ * since track names are only unique per artist.
+ * @param {URL} url
+ * @returns {SiteMediaUrl | null}
+ */
+const parseSoundCloud = (url) => {
+  if (url.hostname === 'on.soundcloud.com') return shortLink(url, 'soundcloud', 'track');
+
+  const segments = pathSegments(url);
+  const [artist, track] = segments;
+  if (segments.length !== 2 || SOUNDCLOUD_RESERVED.includes(artist) || SOUNDCLOUD_PROFILE_TABS.includes(track)) return null;
+  if (!SOUNDCLOUD_NAME.test(artist) || !SOUNDCLOUD_NAME.test(track)) return null;
+  return { platform: 'soundcloud', kind: 'track', id: `${artist}/${track}`, username: artist, normalizedUrl: `https://soundcloud.com/${artist}/${track}` };
+};
+
+/** @type {Record<Platform, PlatformDefinition>} */
+export const PLATFORM_REGISTRY = {
+  youtube: {
+    name: 'YouTube',
+    icon: '🎥',
+    hosts: ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com', ...YOUTUBE_SHORT_HOSTS],
+    parse: parseYouTube,
+    badges: [
+      { name: 'YouTube Videos', icon: '🎥', kinds: ['video', 'live'] },
+      { name: 'YouTube Shorts', icon: '📱', kinds: ['short'] },
+    ],
+    quirks: {
+      // Channels are listed through their videos tab, and a video opened from
+      // a playlist lists the whole playlist
+      listUrl: (media) => {
+        if (media.kind === 'channel') return `${media.normalizedUrl}/videos`;
+        if (media.kind !== 'playlist' && 'playlistId' in media && media.playlistId) {
+          return `https://www.youtube.com/playlist?list=${media.playlistId}`;
+        }
+        return media.normalizedUrl;
+      },
+      entryUrl: (id) => `https://www.youtube.com/watch?v=${id}`,
+    },
+  },
+  instagram: {
+    name: 'Instagram',
+    icon: '📸',
+    hosts: ['instagram.com', 'www.instagram.com', 'm.instagram.com'],
+    parse: parseInstagram,
+    badges: [
+      { name: 'Instagram Posts', icon: '📸', kinds: ['post', 'video'] },
+      { name: 'Instagram Reels', icon: '🎞️', kinds: ['reel'] },
+      { name: 'Instagram Stories', icon: '📱', kinds: ['story'] },
+    ],
+    quirks: {
+      multiItem: ['post', 'story'],
+      signIn: ['story'],
+    },
+  },
+  tiktok: {
+    name: 'TikTok',
+    icon: '🎶',
+    hosts: ['tiktok.com', 'www.tiktok.com', 'm.tiktok.com', 'vm.tiktok.com', 'vt.tiktok.com'],
+    parse: parseTikTok,
+    badges: [{ name: 'TikTok', icon: '🎶', kinds: ['video'] }],
+    quirks: {},
+  },
+  vimeo: {
+    name: 'Vimeo',
+    icon: '🎬',
+    hosts: ['vimeo.com', 'www.vimeo.com', 'player.vimeo.com'],
+    parse: parseVimeo,
+    badges: [{ name: 'Vimeo', icon: '🎬', kinds: ['video'] }],
+    quirks: {},
+  },
+  twitter: {
+    name: 'X (Twitter)',
+    icon: '🐦',
+    hosts: ['x.com', 'www.x.com', 'mobile.x.com', 'twitter.com', 'www.twitter.com', 'mobile.twitter.com'],
+    parse: parseTwitter,
+    badges: [{ name: 'X / Twitter', icon: '🐦', kinds: ['post'] }],
+    quirks: {},
+  },
+  reddit: {
+    name: 'Reddit',
+    icon: '👽',
+    hosts: ['reddit.com', 'www.reddit.com', 'old.reddit.com', 'new.reddit.com', 'm.reddit.com', 'redd.it'],
+    parse: parseReddit,
+    badges: [{ name: 'Reddit', icon: '👽', kinds: ['post'] }],
+    quirks: {},
+  },
+  facebook: {
+    name: 'Facebook',
+    icon: '📘',
+    hosts: ['facebook.com', 'www.facebook.com', 'm.facebook.com', 'web.facebook.com', 'fb.watch'],
+    parse: parseFacebook,
+    badges: [{ name: 'Facebook', icon: '📘', kinds: ['video', 'reel'] }],
+    quirks: {},
+  },
+  soundcloud: {
+    name: 'SoundCloud',
+    icon: '☁️',
+    hosts: ['soundcloud.com', 'www.soundcloud.com', 'm.soundcloud.com', 'on.soundcloud.com'],
+    parse: parseSoundCloud,
+    badges: [{ name: 'SoundCloud', icon: '☁️', kinds: ['track'] }],
+    quirks: { audioOnly: true },
+  },
+};
+
+/** @type {Platform[]} */
+export const PLATFORMS = /** @type {Platform[]} */ (Object.keys(PLATFORM_REGISTRY));
+
+/**
+ * The platform whose `hosts` include a hostname
+ * @param {string} hostname
+ * @returns {Platform | undefined}
+ */
+export const platformForHost = (hostname) => {
+  const host = hostname.toLowerCase();
+  return PLATFORMS.find(platform => PLATFORM_REGISTRY[platform].hosts.includes(host));
+};
+
+/**
+ * Whether a link can point to several images and videos
+ * @param {ParsedMediaUrl} media
+ */
+export const isMultiItem = (media) => (PLATFORM_REGISTRY[media.platform].quirks.multiItem || []).includes(media.kind);
+
+/**
+ * Whether a link needs the server to be signed in to the site
+ * @param {ParsedMediaUrl} media
+ */
+export const needsSignIn = (media) => (PLATFORM_REGISTRY[media.platform].quirks.signIn || []).includes(media.kind);
+
+/**
+ * The badge that describes a parsed link, e.g. "YouTube Shorts"
+ * @param {ParsedMediaUrl} media
+ * @returns {PlatformBadge | undefined}
+ */
+export const findBadge = (media) => PLATFORM_REGISTRY[media.platform].badges
+  .find(badge => badge.kinds.includes(media.kind));
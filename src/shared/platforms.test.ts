@@ -0,0 +1,34 @@
+import { PLATFORM_REGISTRY, PLATFORMS, findBadge, platformForHost } from './platforms.mjs';
+import { parseMediaUrl } from './mediaUrl.mjs';
+
+describe('PLATFORM_REGISTRY', () => {
+  test('every hostname belongs to one platform', () => {
+    const hosts = PLATFORMS.flatMap(platform => PLATFORM_REGISTRY[platform].hosts);
+    expect(new Set(hosts).size).toBe(hosts.length);
+    hosts.forEach(host => expect(host).toBe(host.toLowerCase()));
+  });
+
+  test.each([
+    ['youtu.be', 'youtube'],
+    ['WWW.X.COM', 'twitter'],
+    ['on.soundcloud.com', 'soundcloud'],
+    ['example.com', undefined],
+  ])('finds the platform of %s', (host, platform) => {
+    expect(platformForHost(host)).toBe(platform);
+  });
+
+  test.each([
+    ['https://www.youtube.com/shorts/Zdscg2Q2IQQ', 'YouTube Shorts'],
+    ['https://www.instagram.com/reel/XYZ789/', 'Instagram Reels'],
+    ['https://vimeo.com/76979871', 'Vimeo'],
+  ])('describes %s as %s', (url, name) => {
+    expect(findBadge(parseMediaUrl(url)!)?.name).toBe(name);
+  });
+
+  test('lists YouTube channels through their videos tab', () => {
+    const { listUrl } = PLATFORM_REGISTRY.youtube.quirks;
+    expect(listUrl!(parseMediaUrl('https://www.youtube.com/@LectureSeries')!)).toBe('https://www.youtube.com/@LectureSeries/videos');
+    expect(listUrl!(parseMediaUrl('https://youtu.be/dQw4w9WgXcQ?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf')!))
+      .toBe('https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf');
+  });
+});
@@ -0,0 +1,124 @@
+// @ts-check
+// Minimal runtime validation for JSON exchanged between the React app and the
+// backend. A schema checks a value, collects readable errors and returns a
+// cleaned copy: unknown object keys are dropped, and null optional values
+// become absent, since yt-dlp reports missing values as null.
+
+/**
+ * @typedef {(value: any, path: string, errors: string[]) => any} Schema
+ */
+
+/**
+ * Object schema shape with exactly one entry per property of T, so adding or
+ * removing a property on the type without updating the schema fails type-checking
+ * @template T
+ * @typedef {{ [K in keyof Required<T>]: Schema }} Shape
+ */
+
+/** @param {string} path */
+const describe = (path) => path || 'value';
+
+/** @returns {Schema} */
+export const string = () => (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${describe(path)} must be a string`);
+  return value;
+};
+
+/** @returns {Schema} */
+export const number = () => (value, path, errors) => {
+  if (typeof value !== 'number' || !isFinite(value)) errors.push(`${describe(path)} must be a number`);
+  return value;
+};
+
+/** @returns {Schema} */
+export const boolean = () => (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${describe(path)} must be true or false`);
+  return value;
+};
+
+/**
+ * @param {readonly (string | number | boolean)[]} values
+ * @returns {Schema}
+ */
+export const oneOf = (values) => (value, path, errors) => {
+  if (!values.includes(value)) errors.push(`${describe(path)} must be one of: ${values.join(', ')}`);
+  return value;
+};
+
+/**
+ * @param {Schema} item
+ * @returns {Schema}
+ */
+export const array = (item) => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${describe(path)} must be a list`);
+    return value;
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`, errors));
+};
+
+/**
+ * @param {Record<string, Schema>} shape
+ * @returns {Schema}
+ */
+export const object = (shape) => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${describe(path)} must be an object`);
+    return value;
+  }
+
+  /** @type {Record<string, unknown>} */
+  const result = {};
+  Object.keys(shape).forEach((key) => {
+    const cleaned = shape[key](value[key], path ? `${path}.${key}` : key, errors);
+    if (cleaned !== undefined) result[key] = cleaned;
+  });
+  return result;
+};
+
+/**
+ * Allows the value to be missing or null
+ * @param {Schema} schema
+ * @returns {Schema}
+ */
+export const optional = (schema) => (value, path, errors) => (
+  value === undefined || value === null ? undefined : schema(value, path, errors)
+);
+
+export class SchemaError extends Error {
+  /**
+   * @param {string} name What was being validated, e.g. "request"
+   * @param {string[]} errors
+   */
+  constructor(name, errors) {
+    super(`Invalid ${name}: ${errors.join('; ')}`);
+    this.name = 'SchemaError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Validate without throwing
+ * @param {Schema} schema
+ * @param {unknown} value
+ * @returns {{ value: any, errors: string[] }}
+ */
+export const check = (schema, value) => {
+  /** @type {string[]} */
+  const errors = [];
+  return { value: schema(value, '', errors), errors };
+};
+
+/**
+ * Validate and return the cleaned value, or throw a SchemaError
+ * @template T
+ * @param {Schema} schema
+ * @param {unknown} value
+ * @param {string} name What is being validated, used in the error message
+ * @returns {T}
+ */
+export const parse = (schema, value, name) => {
+  const result = check(schema, value);
+  if (result.errors.length > 0) throw new SchemaError(name, result.errors);
+  return result.value;
+};
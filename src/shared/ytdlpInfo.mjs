@@ -0,0 +1,185 @@
+// @ts-check
+// Turns yt-dlp's JSON output (-j / -J) into the VideoInfo and PlaylistInfo
+// objects of the API. Lives next to the API types so the contract tests can
+// check the server's output without running yt-dlp.
+
+import { parseMediaUrl } from './mediaUrl.mjs';
+import { PLATFORM_REGISTRY } from './platforms.mjs';
+
+/**
+ * @typedef {import('./mediaUrl.mjs').ParsedMediaUrl} ParsedMediaUrl
+ * @typedef {import('./api.mjs').VideoInfo} VideoInfo
+ * @typedef {import('./api.mjs').PlaylistInfo} PlaylistInfo
+ * @typedef {import('./api.mjs').SubtitleTrack} SubtitleTrack
+ * @typedef {import('./api.mjs').MediaItem} MediaItem
+ */
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'heic'];
+
+/**
+ * "m:ss" or "h:mm:ss", or "Unknown" when yt-dlp has no duration
+ * @param {unknown} seconds
+ * @returns {string}
+ */
+export const formatSeconds = (seconds) => {
+  if (typeof seconds !== 'number' || !isFinite(seconds)) return 'Unknown';
+
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * Flat playlist entries carry a list of thumbnails instead of a single one
+ * @param {any} data
+ * @returns {string}
+ */
+export const pickThumbnail = (data) => {
+  if (data.thumbnail) return data.thumbnail;
+  const thumbnails = data.thumbnails || [];
+  return thumbnails.length ? thumbnails[thumbnails.length - 1].url : '';
+};
+
+/**
+ * Manual subtitles first, then auto-generated captions. YouTube offers an
+ * auto-translated caption track for most languages, so that list is long.
+ * @param {any} videoData
+ * @returns {SubtitleTrack[]}
+ */
+export const listSubtitles = (videoData) => {
+  /**
+   * @param {Record<string, { name?: string }[]> | undefined} source
+   * @param {boolean} automatic
+   */
+  const tracks = (source, automatic) => Object.entries(source || {})
+    .filter(([language]) => language !== 'live_chat')
+    .map(([language, files]) => ({
+      language,
+      name: (files.find(file => file.name) || {}).name || language,
+      automatic
+    }));
+
+  return [
+    ...tracks(videoData.subtitles, false),
+    ...tracks(videoData.automatic_captions, true)
+  ];
+};
+
+/**
+ * An entry without any video or audio stream is a photo. yt-dlp describes it
+ * by the image's own URL, or only by its thumbnails.
+ * @param {any} entry
+ * @returns {MediaItem['kind']}
+ */
+const itemKind = (entry) => {
+  const hasStream = (entry.formats || []).some((/** @type {any} */ f) => (f.vcodec && f.vcodec !== 'none') || (f.acodec && f.acodec !== 'none'));
+  return hasStream || entry.duration ? 'video' : 'image';
+};
+
+/**
+ * The images and videos of a post, or undefined for a single video. yt-dlp
+ * reports posts with several items (`-J`) as a playlist of entries.
+ * @param {any} data Output of `yt-dlp -J`
+ * @returns {MediaItem[] | undefined}
+ */
+export const listMediaItems = (data) => {
+  const entries = data._type === 'playlist' ? (data.entries || []).filter(Boolean) : [data];
+  const items = entries.map((/** @type {any} */ entry, /** @type {number} */ index) => {
+    const kind = itemKind(entry);
+    const ownImage = kind === 'image' && IMAGE_EXTENSIONS.includes(entry.ext) ? entry.url : undefined;
+    const url = kind === 'image' ? ownImage || pickThumbnail(entry) : undefined;
+    const ext = kind === 'image'
+      ? (ownImage ? entry.ext : (url.match(/\.(\w+)(?:\?|$)/) || [])[1] || 'jpg')
+      : entry.ext || 'mp4';
+
+    /** @type {MediaItem} */
+    const item = { index: index + 1, kind, id: String(entry.id || index + 1), thumbnail: pickThumbnail(entry), ext };
+    if (url) item.url = url;
+    if (entry.width) item.width = entry.width;
+    if (entry.height) item.height = entry.height;
+    if (kind === 'video' && entry.duration) item.durationSeconds = entry.duration;
+    return item;
+  });
+
+  return items.length > 1 || (items[0] && items[0].kind === 'image') ? items : undefined;
+};
+
+/**
+ * @param {any} data Output of `yt-dlp -J` for a video or a post
+ * @param {ParsedMediaUrl} media
+ * @returns {VideoInfo}
+ */
+export const toVideoInfo = (data, media) => {
+  const items = listMediaItems(data);
+  // ID, title and uploader belong to the post; formats come from its first video
+  const entries = data._type === 'playlist' ? (data.entries || []).filter(Boolean) : [];
+  const first = entries.find((/** @type {any} */ entry) => itemKind(entry) === 'video') || entries[0];
+  const videoData = first
+    ? { ...first, id: data.id || first.id, title: data.title || first.title, uploader: data.uploader || first.uploader }
+    : data;
+
+  /** @type {VideoInfo} */
+  const info = {
+    id: videoData.id || media.id,
+    title: videoData.title || 'Unknown Title',
+    thumbnail: videoData.thumbnail || '',
+    duration: videoData.duration_string || '00:00',
+    durationSeconds: videoData.duration,
+    uploader: videoData.uploader || videoData.channel || 'Unknown',
+    platform: media.platform,
+    formats: (videoData.formats || []).map((/** @type {any} */ f) => ({
+      format_id: f.format_id,
+      ext: f.ext,
+      quality: f.height ? `${f.height}p` : f.format_note || 'unknown',
+      filesize: f.filesize,
+      filesize_approx: f.filesize_approx,
+      url: f.url,
+      format_note: f.format_note,
+      height: f.height,
+      fps: f.fps,
+      vcodec: f.vcodec,
+      acodec: f.acodec,
+      tbr: f.tbr,
+      abr: f.abr
+    })),
+    subtitles: listSubtitles(videoData),
+    chapters: (videoData.chapters || []).map((/** @type {any} */ chapter, /** @type {number} */ index) => ({
+      title: chapter.title || `Chapter ${index + 1}`,
+      startTime: chapter.start_time,
+      endTime: chapter.end_time
+    }))
+  };
+  if (items) info.items = items;
+  return info;
+};
+
+/**
+ * @param {any} data Output of `yt-dlp -J --flat-playlist`
+ * @param {ParsedMediaUrl} media
+ * @returns {PlaylistInfo}
+ */
+export const toPlaylistInfo = (data, media) => {
+  const { entryUrl } = PLATFORM_REGISTRY[media.platform].quirks;
+  const entries = (data.entries || [])
+    .filter((/** @type {any} */ entry) => entry && entry.id && ((entry.url && parseMediaUrl(entry.url)) || entryUrl))
+    .map((/** @type {any} */ entry) => ({
+      id: entry.id,
+      url: entry.url && parseMediaUrl(entry.url) ? entry.url : /** @type {(id: string) => string} */ (entryUrl)(entry.id),
+      title: entry.title || 'Unknown Title',
+      duration: formatSeconds(entry.duration),
+      thumbnail: pickThumbnail(entry)
+    }));
+
+  return {
+    id: data.id || media.id,
+    kind: media.kind === 'channel' ? 'channel' : 'playlist',
+    title: data.title || 'Unknown Playlist',
+    uploader: data.uploader || data.channel || 'Unknown',
+    thumbnail: pickThumbnail(data) || (entries[0] ? entries[0].thumbnail : ''),
+    platform: media.platform,
+    currentVideoId: media.kind === 'video' ? media.id : undefined,
+    entries
+  };
+};
@@ -0,0 +1,149 @@
+// Helpers for turning yt-dlp format lists into quality picker options
+import { DownloadService, VideoFormat, ChosenFormat } from '../services/downloadService';
+
+export interface FormatChoice {
+  formatId: string;
+  label: string;
+  /** Exact size when known, otherwise estimated from bitrate and duration */
+  size?: number;
+  sizeIsEstimate: boolean;
+  videoOnly: boolean;
+  audioOnly: boolean;
+}
+
+export interface FormatGroup {
+  label: string;
+  choices: FormatChoice[];
+}
+
+const CODEC_NAMES: Array<[RegExp, string]> = [
+  [/^(avc1|h264)/, 'H.264'],
+  [/^(hev1|hvc1|h265)/, 'HEVC'],
+  [/^(vp09|vp9)/, 'VP9'],
+  [/^vp8/, 'VP8'],
+  [/^(av01|av1)/, 'AV1'],
+  [/^(mp4a|aac)/, 'AAC'],
+  [/^opus/, 'Opus'],
+  [/^vorbis/, 'Vorbis'],
+  [/^mp3/, 'MP3']
+];
+
+const hasStream = (codec?: string): boolean => !!codec && codec !== 'none';
+
+export class FormatUtils {
+  static codecName(codec?: string): string {
+    if (!hasStream(codec)) return '';
+    const match = CODEC_NAMES.find(([pattern]) => pattern.test(codec!.toLowerCase()));
+    return match ? match[1] : codec!.split('.')[0];
+  }
+
+  static isVideoOnly(format: VideoFormat): boolean {
+    return hasStream(format.vcodec) && format.acodec === 'none';
+  }
+
+  static isAudioOnly(format: VideoFormat): boolean {
+    return format.vcodec === 'none' && hasStream(format.acodec);
+  }
+
+  static estimateSize(format: VideoFormat, durationSeconds?: number): { size?: number; sizeIsEstimate: boolean } {
+    if (format.filesize) return { size: format.filesize, sizeIsEstimate: false };
+    if (format.filesize_approx) return { size: format.filesize_approx, sizeIsEstimate: true };
+
+    const bitrate = format.tbr || format.abr;
+    if (bitrate && durationSeconds) {
+      return { size: Math.round(bitrate * 1000 / 8 * durationSeconds), sizeIsEstimate: true };
+    }
+    return { sizeIsEstimate: true };
+  }
+
+  static formatSize(choice: FormatChoice): string {
+    if (!choice.size) return 'size unknown';
+    return `${choice.sizeIsEstimate ? '~' : ''}${DownloadService.formatFileSize(choice.size)}`;
+  }
+
+  /**
+   * Video streams grouped by resolution, highest first. Storyboards and
+   * other image-only entries are skipped.
+   */
+  static videoGroups(formats: VideoFormat[], durationSeconds?: number): FormatGroup[] {
+    const groups = new Map<number, FormatChoice[]>();
+
+    formats
+      .filter(format => format.height && hasStream(format.vcodec))
+      .sort((a, b) => (b.height! - a.height!) || ((b.fps || 0) - (a.fps || 0)) || ((b.tbr || 0) - (a.tbr || 0)))
+      .forEach(format => {
+        const videoOnly = this.isVideoOnly(format);
+        const fps = format.fps && format.fps > 30 ? `${Math.round(format.fps)}` : '';
+        const label = [
+          `${format.height}p${fps}`,
+          this.codecName(format.vcodec),
+          format.ext,
+          videoOnly ? 'video only' : 'with audio'
+        ].filter(Boolean).join(' · ');
+
+        const choices = groups.get(format.height!) || [];
+        choices.push({
+          formatId: format.format_id,
+          label,
+          ...this.estimateSize(format, durationSeconds),
+          videoOnly,
+          audioOnly: false
+        });
+        groups.set(format.height!, choices);
+      });
+
+    return Array.from(groups.entries()).map(([height, choices]) => ({ label: `${height}p`, choices }));
+  }
+
+  /**
+   * Audio-only streams grouped by codec, highest bitrate first
+   */
+  static audioGroups(formats: VideoFormat[], durationSeconds?: number): FormatGroup[] {
+    const groups = new Map<string, FormatChoice[]>();
+
+    formats
+      .filter(format => this.isAudioOnly(format))
+      .sort((a, b) => (b.abr || b.tbr || 0) - (a.abr || a.tbr || 0))
+      .forEach(format => {
+        const codec = this.codecName(format.acodec);
+        const bitrate = format.abr || format.tbr;
+        const label = [
+          bitrate ? `${Math.round(bitrate)}kbps` : format.format_note,
+          codec,
+          format.ext,
+          'audio only'
+        ].filter(Boolean).join(' · ');
+
+        const choices = groups.get(codec) || [];
+        choices.push({
+          formatId: format.format_id,
+          label,
+          ...this.estimateSize(format, durationSeconds),
+          videoOnly: false,
+          audioOnly: true
+        });
+        groups.set(codec, choices);
+      });
+
+    return Array.from(groups.entries()).map(([codec, choices]) => ({ label: codec || 'Audio', choices }));
+  }
+
+  /**
+   * Short description of a downloaded format, e.g. "1080p60 · VP9 + Opus · webm"
+   */
+  static describeChosenFormat(chosen: ChosenFormat): string {
+    const fps = chosen.fps && chosen.fps > 30 ? `${Math.round(chosen.fps)}` : '';
+    const codecs = [this.codecName(chosen.vcodec), this.codecName(chosen.acodec)].filter(Boolean).join(' + ');
+    return [
+      chosen.height ? `${chosen.height}p${fps}` : chosen.formatNote,
+      codecs,
+      chosen.ext
+    ].filter(Boolean).join(' · ');
+  }
+
+  static maxHeight(formats: VideoFormat[]): number {
+    return formats.reduce((max, format) => hasStream(format.vcodec) && format.height ? Math.max(max, format.height) : max, 0);
+  }
+}
+
+export default FormatUtils;
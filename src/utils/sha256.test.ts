@@ -0,0 +1,28 @@
+import { createHash } from 'crypto';
+import { Sha256 } from './sha256';
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+
+describe('Sha256', () => {
+  test.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+  ])('hashes %p', (input, digest) => {
+    expect(new Sha256().update(Buffer.from(input)).digest()).toBe(digest);
+  });
+
+  // Lengths around the 56 and 64 byte padding boundaries
+  test.each([55, 56, 63, 64, 65, 1000, 100000])('matches Node for %i bytes', (length) => {
+    const data = bytes(length);
+    expect(new Sha256().update(data).digest()).toBe(createHash('sha256').update(data).digest('hex'));
+  });
+
+  test('gives the same digest however the input is chunked', () => {
+    const data = bytes(5000);
+    const hash = new Sha256();
+    for (let offset = 0, size = 1; offset < data.length; offset += size, size = size * 2 + 1) {
+      hash.update(data.subarray(offset, offset + size));
+    }
+    expect(hash.digest()).toBe(createHash('sha256').update(data).digest('hex'));
+  });
+});
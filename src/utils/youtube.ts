@@ -1,4 +1,6 @@
 // YouTube utility functions
+import { parseMediaUrl } from '../shared/mediaUrl.mjs';
+
 export interface YouTubeVideoInfo {
   id: string;
   title: string;
@@ -9,31 +11,11 @@ export interface YouTubeVideoInfo {
 
 export class YouTubeUtils {
   static extractVideoId(url: string): string | null {
-    const patterns = [
-      // Standard YouTube URLs
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-      // YouTube Shorts
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-      // YouTube short URLs
-      /(?:https?:\/\/)?youtu\.be\/([a-zA-Z0-9_-]{11})/,
-      // YouTube embed URLs
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/embed\/([a-zA-Z0-9_-]{11})/,
-      // YouTube v/ URLs
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/v\/([a-zA-Z0-9_-]{11})/,
-      // YouTube URLs with additional parameters
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?.*[?&]v=([a-zA-Z0-9_-]{11})/,
-      // YouTube Shorts with parameters
-      /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})\??.*/
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match && match[1]) {
-        return match[1];
-      }
+    const parsed = parseMediaUrl(url);
+    if (!parsed || parsed.platform !== 'youtube' || parsed.kind === 'playlist') {
+      return null;
     }
-
-    return null;
+    return parsed.id;
   }
 
   static isValidYouTubeUrl(url: string): boolean {